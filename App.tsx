@@ -1,12 +1,34 @@
 
-import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AudioSettings, SpeakerPosition, VaultPlaylist } from './types';
-import { AUDIO_PRESETS, SPEAKER_LAYOUTS } from './constants';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { AmbisonicOrder, AudioPreset, AudioSettings, BassManagementSettings, CalibrationProfile, CrossoverSlope, SmartRule, DynamicsBand, ExportMode, LimiterSettings, ReverbEngine, ReverbRoom, RoomModel, SpeakerPosition, UpmixAlgorithm, VaultPlaylist } from './types';
+import { DEFAULT_AUDIO_SETTINGS, DEFAULT_LAYOUT, drcDynamics, DEFAULT_SPEAKERS, SPEAKER_LAYOUTS } from './constants';
 import { audioEngine } from './services/audioEngine';
 import { Visualizer } from './components/Visualizer';
 import { SpatialGrid } from './components/SpatialGrid';
 import { ThreeDSpatialView } from './components/ThreeDSpatialView';
-import { vaultDb, VaultSong } from './services/vaultDb';
+import { HeadTracker } from './components/HeadTracker';
+import { EqCurve } from './components/EqCurve';
+import { LoudnessMeter } from './components/LoudnessMeter';
+import { DynamicsMeter } from './components/DynamicsMeter';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { SmartPlaylistEditor } from './components/SmartPlaylistEditor';
+import { RestoreDialog } from './components/RestoreDialog';
+import { UpNextPanel } from './components/UpNextPanel';
+import { HeadPose } from './services/pose/poseEstimator';
+import { formatFromFileName, SongProfile, songTitle, vaultDb, VaultHrtf, VaultRoom, VaultSong } from './services/vaultDb';
+import { roomLibrary } from './services/roomLibrary';
+import { hrtfLibrary, SPHERICAL_HEAD_HRTF } from './services/hrtfLibrary';
+import { presetStore, snapshotPresetParams } from './services/presetStore';
+import { sessionStore } from './services/sessionStore';
+import { BackupProgress, RestoreMode, vaultBackup } from './services/vaultBackup';
+import { calibrationStore } from './services/calibrationStore';
+import { scanSong } from './services/loudnessScanner';
+import { readAudioTags } from './services/audioTags';
+import { normalizationGainDb } from './services/dsp/loudness';
+import { MAX_LOOKAHEAD_MS } from './services/dsp/limiter';
+import { computeSpeakerAlignment, MAX_SPEAKER_DELAY_MS } from './services/speakerAlignment';
+import { detectAmbisonicOrder } from './services/ambix';
+import { clearQueue, dropSong, EMPTY_QUEUE, moveInQueue, nextInQueue, PlayQueue, playLater, playNext, RepeatMode, removeFromQueue, setRepeat, setShuffle, skipBack, skipForward, startQueue } from './services/playQueue';
 
 const BIT_DEPTH_OPTIONS = [16, 24, 32] as const;
 const SAMPLE_RATE_MAP: Record<number, number[]> = {
@@ -14,6 +36,44 @@ const SAMPLE_RATE_MAP: Record<number, number[]> = {
   24: [48000, 96000],
   32: [96000, 192000]
 };
+const EXPORT_MODE_OPTIONS: { mode: ExportMode, label: string }[] = [
+  { mode: 'binaural', label: 'Binaural 2.0' },
+  { mode: 'multichannel', label: 'Speaker Layout' },
+  { mode: 'ambix', label: 'AmbiX' }
+];
+const AMBISONIC_ORDER_OPTIONS: AmbisonicOrder[] = [1, 2, 3];
+const LOUDNESS_TARGET_OPTIONS: { target: number, label: string }[] = [
+  { target: -14, label: 'Streaming -14' },
+  { target: -23, label: 'Broadcast -23' }
+];
+const REVERB_ENGINE_OPTIONS: { engine: ReverbEngine, label: string }[] = [
+  { engine: 'convolution', label: 'Convolution' },
+  { engine: 'algorithmic', label: 'Room Sim' }
+];
+const CROSSOVER_SLOPES: CrossoverSlope[] = [12, 24];
+const UPMIX_ALGORITHM_OPTIONS: { algorithm: UpmixAlgorithm, label: string }[] = [
+  { algorithm: 'matrix', label: 'Passive Matrix' },
+  { algorithm: 'spectral', label: 'Spectral' }
+];
+const PLAYLIST_CROSSFADE_OPTIONS = [0, 2, 4, 6, 8, 12];
+// Engine clock, export format, output stage, room calibration, HRTF and head tracking belong to the device, not the song
+const DEVICE_SETTINGS = [
+  'bitDepth', 'sampleRate', 'exportMode', 'isHeadTrackingEnabled', 'loudnessNormalization', 'loudnessTarget', 'crossfade',
+  'limiter', 'calibrationId', 'bassManagement', 'ambisonicOrder', 'hrtfId'
+] as const satisfies readonly (keyof AudioSettings)[];
+const deviceSettings = (settings: AudioSettings) =>
+  Object.fromEntries(DEVICE_SETTINGS.map(key => [key, settings[key]])) as Pick<AudioSettings, typeof DEVICE_SETTINGS[number]>;
+
+const compareTag = (a?: string, b?: string) => a === b ? 0 : a === undefined ? 1 : b === undefined ? -1 : a.localeCompare(b);
+
+// "48 kHz / 24-bit / 6 ch" for whatever the tags reported
+function streamInfo(song: VaultSong) {
+  return [
+    song.sampleRate && `${song.sampleRate / 1000} kHz`,
+    song.bitDepth && `${song.bitDepth}-bit`,
+    song.channels && song.channels !== 2 && `${song.channels} ch`,
+  ].filter(Boolean).join(' / ');
+}
 
 const StagePOVLogo = ({ isTheater }: { isTheater: boolean }) => (
   <div className={`relative transition-all duration-1000 ${isTheater ? 'w-24 h-24' : 'w-12 h-12'} flex items-center justify-center`}>
@@ -24,117 +84,237 @@ const StagePOVLogo = ({ isTheater }: { isTheater: boolean }) => (
 );
 
 const App: React.FC = () => {
-  const [settings, setSettings] = useState<AudioSettings>({
-    volume: 1.8, 
-    bass: 0, 
-    treble: 2, 
-    vocalClarity: 5, 
-    spatiality: 0.8,
-    reverbLevel: 0, 
-    isAtmosEnabled: true, selectedPreset: 'Pure Direct', isTheaterMode: false,
-    isHdAudioEnabled: false, 
-    isHeadTrackingEnabled: false, isDolbyVisionEnabled: false, surroundLevel: 0.7,
-    heightLevel: 0.5, drc: 0.1, lfeCrossover: 80, centerSpread: 0.4,
-    speakerDelay: 0,
-    phaseAlignment: 0,
-    bitDepth: 16,
-    sampleRate: 48000
-  });
-
-  const [speakers, setSpeakers] = useState<SpeakerPosition[]>(SPEAKER_LAYOUTS['Atmos 7.1.4']);
-  const [activeLayout, setActiveLayout] = useState('Atmos 7.1.4');
+  const [restoredSession] = useState(() => sessionStore.load());
+  const [settings, setSettings] = useState<AudioSettings>(() => restoredSession?.settings ?? DEFAULT_AUDIO_SETTINGS);
+
+  const [speakers, setSpeakers] = useState<SpeakerPosition[]>(() => restoredSession?.speakers ?? DEFAULT_SPEAKERS);
+  const [activeLayout, setActiveLayout] = useState(() => restoredSession?.activeLayout ?? DEFAULT_LAYOUT);
+  const [presets, setPresets] = useState<AudioPreset[]>(() => presetStore.getPresets());
   const [activeView, setActiveView] = useState<'deck' | 'stage' | 'vault'>('deck');
   const [isReady, setIsReady] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [mediaData, setMediaData] = useState<{ name: string, url: string, id?: string, blob?: Blob } | null>(null);
+  const [mediaData, setMediaData] = useState<{ name: string, id?: string, blob: Blob } | null>(null);
+  // Ambisonic order of the loaded file when it is AmbiX, otherwise null
+  const [sourceOrder, setSourceOrder] = useState<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [headRotation, setHeadRotation] = useState(0);
   
   // Vault & Library State
   const [vaultSongs, setVaultSongs] = useState<VaultSong[]>([]);
   const [playlists, setPlaylists] = useState<VaultPlaylist[]>([]);
+  const [profileSongIds, setProfileSongIds] = useState<Set<string>>(new Set());
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [rooms, setRooms] = useState<VaultRoom[]>([]);
+  const [hrtfSets, setHrtfSets] = useState<VaultHrtf[]>([]);
+  // The HRTF the A/B button switches back to
+  const [hrtfCompareId, setHrtfCompareId] = useState<string | null>(SPHERICAL_HEAD_HRTF);
+  const [calibrations, setCalibrations] = useState<CalibrationProfile[]>(() => calibrationStore.getProfiles());
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [dynamicsBand, setDynamicsBand] = useState(2);
   const [isSaving, setIsSaving] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [backupProgress, setBackupProgress] = useState<BackupProgress | null>(null);
   
   // Sorting & Filtering
   const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'date' | 'name' | 'size'>('date');
+  // 'order' is the selected playlist's own order
+  const [sortBy, setSortBy] = useState<'order' | 'date' | 'name' | 'artist' | 'album' | 'size'>('date');
   const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null);
+  // Song ids of every playlist, with smart playlists evaluated by the Vault
+  const [playlistSongIds, setPlaylistSongIds] = useState<Map<string, string[]>>(new Map());
+  // Smart playlist being created (no playlist) or edited
+  const [smartEditor, setSmartEditor] = useState<{ playlist?: VaultPlaylist } | null>(null);
+  // Backup picked for restore, waiting on the replace or merge choice
+  const [pendingRestore, setPendingRestore] = useState<File | null>(null);
+  const [dragSongId, setDragSongId] = useState<string | null>(null);
   
   // Playlist Creation Mode
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedSongIds, setSelectedSongIds] = useState<Set<string>>(new Set());
 
   // Playback Queue
-  const [playbackQueue, setPlaybackQueue] = useState<VaultSong[]>([]);
+  const [queue, setQueue] = useState<PlayQueue>(() => restoredSession?.queue ?? EMPTY_QUEUE);
 
-  const mediaRef = useRef<HTMLAudioElement>(null);
   const vaultInputRef = useRef<HTMLInputElement>(null);
+  const presetInputRef = useRef<HTMLInputElement>(null);
+  const roomInputRef = useRef<HTMLInputElement>(null);
+  const hrtfInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
   const restoreTimeRef = useRef(0);
+  // Playhead to seek to once the restored session's track has loaded
+  const pendingSeekRef = useRef(0);
+  // Songs that failed to decode since the last one that played, so a broken queue stops
+  const undecodableRef = useRef(new Set<Blob>());
+  // Rack to return to when a song profile is reverted or the next song has none
+  const globalRackRef = useRef<Pick<SongProfile, 'settings' | 'activeLayout' | 'speakers'> | null>(null);
+  // Songs with a loudness scan in flight, so each is only decoded once
+  const scanningRef = useRef<Set<string>>(new Set());
 
   // Sync restoreTimeRef with currentTime state
   useEffect(() => {
     restoreTimeRef.current = currentTime;
   }, [currentTime]);
 
+  // The engine carries the playing track over to the new context itself
   useEffect(() => {
-    if (mediaRef.current && isReady) {
-      const resumeTime = restoreTimeRef.current;
-      audioEngine.init(mediaRef.current, settings.sampleRate, settings.bitDepth).then(() => {
-        updateEngine();
-        if (mediaRef.current) {
-          if (resumeTime > 0.5) mediaRef.current.currentTime = resumeTime;
-          if (isPlaying) mediaRef.current.play();
-        }
-      });
+    if (isReady) {
+      audioEngine.init(settings.sampleRate, settings.bitDepth, settings.ambisonicOrder).then(updateEngine);
     }
-  }, [isReady, settings.sampleRate, settings.bitDepth]);
+  }, [isReady, settings.sampleRate, settings.bitDepth, settings.ambisonicOrder]);
 
+  const songsById = useMemo(() => new Map(vaultSongs.map(s => [s.id, s])), [vaultSongs]);
+
+  // Object URLs for embedded cover art, revoked whenever the Vault is re-read
+  const artworkUrls = useMemo(() => new Map(vaultSongs.filter(s => s.artwork).map(s => [s.id, URL.createObjectURL(s.artwork!)])), [vaultSongs]);
+  useEffect(() => () => artworkUrls.forEach(url => URL.revokeObjectURL(url)), [artworkUrls]);
+
+  const upNextSongs = queue.upNext.map(id => songsById.get(id));
+  const nextSongId = nextInQueue(queue, mediaData?.id ?? null);
+  const nextSong = nextSongId ? songsById.get(nextSongId) : undefined;
+  const queuePlaylist = playlists.find(p => p.id === queue.playlistId);
+  const crossfade = queuePlaylist?.crossfade ?? settings.crossfade;
+
+  // Registered ahead of the track load below so a load never reports to a stale queue
   useEffect(() => {
-    if (mediaRef.current && mediaData) {
-      updateEngine();
-      if (isPlaying) mediaRef.current.play();
-    }
-  }, [mediaData?.url]);
+    audioEngine.setPlaybackEvents({
+      onTrackStart: (track, trackDuration) => {
+        setDuration(trackDuration);
+        setCurrentTime(audioEngine.getPlaybackPosition());
+        pendingSeekRef.current = 0;
+        undecodableRef.current.clear();
+        if (track === mediaData?.blob) {
+          // Repeat-one looped the song, so line it up again
+          audioEngine.setNextTrack(nextSong?.blob ?? null, crossfade);
+        } else if (track === nextSong?.blob) {
+          // The engine moved on to the head of the queue by itself
+          skipToNext();
+        }
+      },
+      onPlayStateChange: setIsPlaying,
+      onEnded: () => setCurrentTime(audioEngine.getTrackDuration()),
+      onError: track => {
+        if (track !== mediaData?.blob) return;
+        pendingSeekRef.current = 0;
+        undecodableRef.current.add(track);
+        // Stop once the queue comes back round to a song that already failed
+        if (!nextSong || undecodableRef.current.has(nextSong.blob)) {
+          undecodableRef.current.clear();
+          alert(`Could not decode "${mediaData.name}". Please check the file format.`);
+          return;
+        }
+        skipToNext();
+      },
+    });
+  }, [mediaData, queue, songsById, crossfade]);
+
+  useEffect(() => {
+    audioEngine.resetLoudness();
+    audioEngine.loadTrack(mediaData?.blob ?? null, pendingSeekRef.current, isPlaying);
+  }, [mediaData?.blob]);
+
+  useEffect(() => {
+    setSourceOrder(null);
+    if (!mediaData) return;
+    let cancelled = false;
+    detectAmbisonicOrder(mediaData.blob).then(order => { if (!cancelled) setSourceOrder(order); });
+    return () => { cancelled = true; };
+  }, [mediaData?.blob]);
+
+  // The next song is decoded ahead so the engine can join it gaplessly
+  useEffect(() => {
+    audioEngine.setNextTrack(nextSong?.blob ?? null, crossfade);
+  }, [nextSong, crossfade]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => setCurrentTime(audioEngine.getPlaybackPosition()), 250);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
+
+  const currentLoudness = vaultSongs.find(s => s.id === mediaData?.id)?.loudness;
 
   const updateEngine = () => {
     if (!audioEngine.isActive()) return;
     audioEngine.setVolume(settings.volume);
+    audioEngine.setNormalizationGain(settings.loudnessNormalization && currentLoudness
+      ? normalizationGainDb(currentLoudness.integrated, currentLoudness.truePeak, settings.loudnessTarget)
+      : 0);
     audioEngine.setBass(settings.bass);
     audioEngine.setTreble(settings.treble);
+    audioEngine.setEqBands(settings.eqBands);
     audioEngine.setVocalClarity(settings.vocalClarity);
     audioEngine.setReverb(settings.reverbLevel);
+    audioEngine.setReverbRoom(settings.reverbRoom);
+    audioEngine.setReverbEngine(settings.reverbEngine);
+    audioEngine.setRoomModel(settings.roomModel);
+    audioEngine.setXCurve(settings.xCurve);
     audioEngine.setTheaterMode(settings.isTheaterMode);
     audioEngine.setHdMode(settings.isHdAudioEnabled);
-    audioEngine.setDRC(settings.drc);
+    audioEngine.setDynamics(settings.dynamics);
+    audioEngine.setLimiter(settings.limiter);
     audioEngine.setHeightLevel(settings.heightLevel);
     audioEngine.setLfeCrossover(settings.lfeCrossover);
-    audioEngine.setSpeakerCalibration(settings.speakerDelay, settings.phaseAlignment);
-    audioEngine.applyPreset(settings.selectedPreset);
-    
-    const activeSpeakers = speakers.filter(s => s.isActive);
-    if (activeSpeakers.length > 0) {
-      let sumY = 0, sumZ = 0;
-      activeSpeakers.forEach(s => {
-        sumY += s.y;
-        sumZ += s.z;
-      });
-      const cx = 0; 
-      const cy = sumY / activeSpeakers.length;
-      const cz = sumZ / activeSpeakers.length;
-      audioEngine.setSpatialPosition(cx, cy, cz === 0 ? 0.5 : cz);
-    } else {
-      audioEngine.setSpatialPosition(0, 0, 1);
-    }
+    audioEngine.setBassManagement(settings.bassManagement);
+    audioEngine.setUpmixAlgorithm(settings.upmixAlgorithm);
+    audioEngine.setCenterSpread(settings.centerSpread);
+    audioEngine.setSurroundLevel(settings.surroundLevel);
+    audioEngine.setCalibration(calibrations.find(c => c.id === settings.calibrationId) ?? null);
+    audioEngine.setSpeakerLayout(speakers);
+    audioEngine.setAmbisonicSource(sourceOrder);
+    audioEngine.setHrtf(settings.hrtfId);
   };
 
-  useEffect(() => { updateEngine(); }, [settings, speakers]);
+  useEffect(() => { updateEngine(); }, [settings, speakers, currentLoudness, calibrations, sourceOrder]);
+
+  useEffect(() => {
+    if (!settings.isHeadTrackingEnabled) {
+      audioEngine.resetListenerOrientation();
+      setHeadRotation(0);
+    }
+  }, [settings.isHeadTrackingEnabled]);
+
+  // Called every tracker frame; only re-render when the head visibly moved
+  const handleHeadPose = useCallback((pose: HeadPose) => {
+    audioEngine.setListenerOrientation(pose.yaw, pose.pitch);
+    const yaw = audioEngine.getListenerOrientation().yaw;
+    setHeadRotation(prev => Math.abs(prev - yaw) < 0.5 ? prev : yaw);
+  }, []);
+
+  const recenterHead = () => {
+    audioEngine.recenterListener();
+    setHeadRotation(0);
+  };
 
   useEffect(() => {
     if (isReady) refreshVault();
   }, [isReady]);
 
+  // Reload the last Vault track, paused at its saved playhead
+  useEffect(() => {
+    const track = restoredSession?.track;
+    if (!isReady || !track) return;
+    vaultDb.getSong(track.songId)
+      .then(song => {
+        if (!song) return;
+        pendingSeekRef.current = track.position;
+        setMediaData(current => current ?? { name: songTitle(song), id: song.id, blob: song.blob });
+        loadSongProfile(song.id);
+      })
+      .catch(err => console.warn("Failed to restore session track", err));
+  }, [isReady]);
+
+  const playheadSeconds = Math.floor(currentTime);
+  useEffect(() => {
+    // A song profile is temporary, so the session keeps the global rack underneath it
+    sessionStore.save({
+      ...globalRack(),
+      track: mediaData?.id ? { songId: mediaData.id, position: pendingSeekRef.current || restoreTimeRef.current } : null,
+      queue,
+    });
+  }, [settings, activeLayout, speakers, mediaData?.id, playheadSeconds, queue]);
+
   useEffect(() => {
     if (settings.isTheaterMode) {
       document.body.classList.add('theater-active');
@@ -143,11 +323,211 @@ const App: React.FC = () => {
     }
   }, [settings.isTheaterMode]);
 
+  // Measures songs in the background and stores the result with each song
+  const scanSongs = async (songs: VaultSong[]) => {
+    for (const song of songs) {
+      if ((song.loudness && song.duration !== undefined) || scanningRef.current.has(song.id)) continue;
+      scanningRef.current.add(song.id);
+      try {
+        const { loudness, duration } = await scanSong(song.blob);
+        const current = await vaultDb.getSong(song.id);
+        if (!current) continue;
+        await vaultDb.saveSong({ ...current, loudness, duration });
+        setVaultSongs(prev => prev.map(s => s.id === song.id ? { ...s, loudness, duration } : s));
+      } catch (err) {
+        console.warn(`Loudness scan failed for ${song.name}`, err);
+      } finally {
+        scanningRef.current.delete(song.id);
+      }
+    }
+  };
+
+  // Songs added before scanning existed (or before it recorded durations) are
+  // measured when first played
+  useEffect(() => {
+    const song = vaultSongs.find(s => s.id === mediaData?.id);
+    if (song && (!song.loudness || song.duration === undefined)) scanSongs([song]);
+  }, [mediaData?.id, vaultSongs]);
+
   const refreshVault = async () => {
     const songs = await vaultDb.getAllSongs();
     const playlists = await vaultDb.getAllPlaylists();
+    const profiles = await vaultDb.getAllProfiles();
+    const rooms = await roomLibrary.getRooms();
+    const hrtfSets = await hrtfLibrary.getSets();
     setVaultSongs(songs);
     setPlaylists(playlists);
+    setProfileSongIds(new Set(profiles.map(p => p.songId)));
+    setRooms(rooms);
+    setHrtfSets(hrtfSets);
+  };
+
+  const updateRoom = (patch: Partial<ReverbRoom>) => {
+    setSettings(p => ({ ...p, reverbRoom: { ...p.reverbRoom, ...patch } }));
+  };
+
+  const updateRoomModel = (patch: Partial<RoomModel>) => {
+    setSettings(p => ({ ...p, roomModel: { ...p.roomModel, ...patch } }));
+  };
+
+  // Moving the DRC amount or switching dialogue priority reloads the band preset
+  const setDrc = (drc: number, dialoguePriority = settings.dynamics.dialoguePriority) => {
+    setSettings(p => ({ ...p, drc, dynamics: drcDynamics(drc, dialoguePriority) }));
+  };
+
+  const updateDynamicsBand = (index: number, patch: Partial<DynamicsBand>) => {
+    setSettings(p => ({
+      ...p,
+      dynamics: { ...p.dynamics, bands: p.dynamics.bands.map((b, i) => i === index ? { ...b, ...patch } : b) },
+    }));
+  };
+
+  const updateLimiter = (patch: Partial<LimiterSettings>) => {
+    setSettings(p => ({ ...p, limiter: { ...p.limiter, ...patch } }));
+  };
+
+  const updateBassManagement = (patch: Partial<BassManagementSettings>) => {
+    setSettings(p => ({ ...p, bassManagement: { ...p.bassManagement, ...patch } }));
+  };
+
+  const startCalibration = () => {
+    // The sweep needs the speakers to itself
+    audioEngine.pause();
+    setIsCalibrating(true);
+  };
+
+  const saveCalibration = (profile: CalibrationProfile) => {
+    calibrationStore.saveProfile(profile);
+    setCalibrations(calibrationStore.getProfiles());
+    setSettings(p => ({ ...p, calibrationId: profile.id }));
+    setIsCalibrating(false);
+  };
+
+  const deleteCalibration = () => {
+    const profile = calibrations.find(c => c.id === settings.calibrationId);
+    if (!profile || !window.confirm(`Delete the "${profile.name}" calibration?`)) return;
+    calibrationStore.deleteProfile(profile.id);
+    setCalibrations(calibrationStore.getProfiles());
+    setSettings(p => ({ ...p, calibrationId: null }));
+  };
+
+  const updateSpeaker = (id: string, patch: Partial<SpeakerPosition>) => {
+    setSpeakers(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const speakerAlignment = useMemo(() => computeSpeakerAlignment(speakers, settings.roomModel), [speakers, settings.roomModel]);
+
+  const moveListener = useCallback((x: number, y: number) => {
+    setSettings(p => ({ ...p, roomModel: { ...p.roomModel, listenerPos: { x, y } } }));
+  }, []);
+
+  const importRoom = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const room = await roomLibrary.importRoom(file);
+      await refreshVault();
+      updateRoom({ irId: room.id, trimStart: 0, trimLength: 0 });
+    } catch (err) {
+      console.error("IR import failed", err);
+      alert("Could not decode that impulse response. Please use a WAV file.");
+    }
+  };
+
+  const deleteRoom = async () => {
+    const id = settings.reverbRoom.irId;
+    if (!id) return;
+    const room = rooms.find(r => r.id === id);
+    if (!window.confirm(`Remove "${room?.name ?? 'this room'}" from the room library?`)) return;
+    await roomLibrary.deleteRoom(id);
+    updateRoom({ irId: null });
+    await refreshVault();
+  };
+
+  const hrtfName = (id: string | null) =>
+    id === null ? 'Browser Default'
+      : id === SPHERICAL_HEAD_HRTF ? 'Spherical Head'
+      : hrtfSets.find(h => h.id === id)?.name ?? 'Missing Set';
+
+  const selectHrtf = (id: string | null) => {
+    setHrtfCompareId(settings.hrtfId);
+    setSettings(p => ({ ...p, hrtfId: id }));
+  };
+
+  const importHrtf = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const hrtf = await hrtfLibrary.importSofa(file);
+      await refreshVault();
+      selectHrtf(hrtf.id);
+    } catch (err) {
+      console.error("SOFA import failed", err);
+      alert("Could not read that SOFA file. Please use a SimpleFreeFieldHRIR set.");
+    }
+  };
+
+  const deleteHrtf = async () => {
+    const id = settings.hrtfId;
+    const hrtf = hrtfSets.find(h => h.id === id);
+    if (!id || !hrtf || !window.confirm(`Remove "${hrtf.name}" from the HRTF library?`)) return;
+    await hrtfLibrary.deleteSet(id);
+    setSettings(p => ({ ...p, hrtfId: null }));
+    setHrtfCompareId(SPHERICAL_HEAD_HRTF);
+    await refreshVault();
+  };
+
+  // The rack a song profile sits on, with the device settings as they are now rather than when the profile loaded
+  const globalRack = (): Pick<SongProfile, 'settings' | 'activeLayout' | 'speakers'> => {
+    const rack = globalRackRef.current;
+    return rack ? { ...rack, settings: { ...rack.settings, ...deviceSettings(settings) } } : { settings, activeLayout, speakers };
+  };
+
+  const loadRack = (rack: Pick<SongProfile, 'settings' | 'activeLayout' | 'speakers'>) => {
+    setSettings(p => ({ ...p, ...rack.settings, ...deviceSettings(p) }));
+    setSpeakers(rack.speakers);
+    setActiveLayout(rack.activeLayout);
+  };
+
+  const applyProfile = (profile: SongProfile, currentRack: Pick<SongProfile, 'settings' | 'activeLayout' | 'speakers'>) => {
+    if (!globalRackRef.current) globalRackRef.current = currentRack;
+    loadRack(profile);
+    setActiveProfileId(profile.songId);
+  };
+
+  const revertToGlobal = () => {
+    if (globalRackRef.current) loadRack(globalRackRef.current);
+    globalRackRef.current = null;
+    setActiveProfileId(null);
+  };
+
+  const loadSongProfile = async (songId: string) => {
+    const currentRack = { settings, activeLayout, speakers };
+    try {
+      const profile = await vaultDb.getProfile(songId);
+      if (profile) applyProfile(profile, currentRack);
+      else revertToGlobal();
+    } catch (err) {
+      console.warn("Failed to load song profile", err);
+    }
+  };
+
+  const pinSongProfile = async () => {
+    if (!mediaData?.id) return;
+    const profile: SongProfile = { songId: mediaData.id, settings, activeLayout, speakers, dateSaved: Date.now() };
+    await vaultDb.saveProfile(profile);
+    if (!globalRackRef.current) globalRackRef.current = { settings, activeLayout, speakers };
+    setActiveProfileId(mediaData.id);
+    await refreshVault();
+  };
+
+  const unpinSongProfile = async () => {
+    if (!mediaData?.id) return;
+    await vaultDb.deleteProfile(mediaData.id);
+    revertToGlobal();
+    await refreshVault();
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -159,11 +539,10 @@ const App: React.FC = () => {
       return;
     }
     const file = files[0];
-    if (mediaData?.url && !mediaData.id) URL.revokeObjectURL(mediaData.url);
-    const url = URL.createObjectURL(file);
-    setMediaData({ name: file.name.replace(/\.[^/.]+$/, ""), url, blob: file });
+    setMediaData({ name: file.name.replace(/\.[^/.]+$/, ""), blob: file });
+    if (activeProfileId) revertToGlobal();
     setIsPlaying(false);
-    setPlaybackQueue([]); 
+    setQueue(clearQueue);
   };
 
   const handleVaultUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -171,19 +550,24 @@ const App: React.FC = () => {
     if (!files || files.length === 0) return;
     setIsSaving(true);
     try {
+      const added: VaultSong[] = [];
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
-        const songId = `song_${Date.now()}_${i}`;
-        await vaultDb.saveSong({
-          id: songId,
+        const song: VaultSong = {
+          id: `song_${Date.now()}_${i}`,
           name: file.name.replace(/\.[^/.]+$/, ""),
           blob: file,
           size: file.size,
           type: file.type,
-          dateAdded: Date.now()
-        });
+          dateAdded: Date.now(),
+          format: formatFromFileName(file.name),
+          ...await readAudioTags(file)
+        };
+        await vaultDb.saveSong(song);
+        added.push(song);
       }
       await refreshVault();
+      scanSongs(added);
     } catch (err) { console.error("Bulk Save Error:", err); } 
     finally { setIsSaving(false); if (e.target) e.target.value = ''; }
   };
@@ -192,49 +576,94 @@ const App: React.FC = () => {
     if (!mediaData || isSaving) return;
     setIsSaving(true);
     try {
-      let blob = mediaData.blob;
-      if (!blob) {
-         const response = await fetch(mediaData.url);
-         blob = await response.blob();
-      }
-      const songId = `song_${Date.now()}`;
-      await vaultDb.saveSong({
-        id: songId,
+      const { blob } = mediaData;
+      const song: VaultSong = {
+        id: `song_${Date.now()}`,
         name: mediaData.name,
-        blob: blob!,
-        size: blob!.size,
-        type: blob!.type,
-        dateAdded: Date.now()
-      });
-      setMediaData({ ...mediaData, id: songId, blob });
+        blob,
+        size: blob.size,
+        type: blob.type,
+        dateAdded: Date.now(),
+        // The name shown is stripped of its extension, the picked File isn't
+        format: blob instanceof File ? formatFromFileName(blob.name) : undefined,
+        ...await readAudioTags(blob)
+      };
+      await vaultDb.saveSong(song);
+      setMediaData({ ...mediaData, id: song.id });
       await refreshVault();
     } catch (err) { console.error("Vault Save Error:", err); } 
     finally { setIsSaving(false); }
   };
 
+  const backupVault = async () => {
+    if (backupProgress) return;
+    setBackupProgress({ label: 'Preparing', done: 0, total: 1 });
+    try {
+      const archive = await vaultBackup.createBackup(globalRack(), setBackupProgress);
+      const url = URL.createObjectURL(archive);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `StagePOV_Vault_${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Vault backup failed", err);
+      alert(`Vault backup failed: ${(err as Error).message}`);
+    } finally { setBackupProgress(null); }
+  };
+
+  const pickRestore = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && !backupProgress) setPendingRestore(file);
+  };
+
+  const restoreVault = async (file: File, mode: RestoreMode) => {
+    setPendingRestore(null);
+    if (backupProgress) return;
+    setBackupProgress({ label: 'Reading archive', done: 0, total: 1 });
+    try {
+      const report = await vaultBackup.restoreBackup(file, mode, setBackupProgress);
+      if (report.rack) {
+        globalRackRef.current = null;
+        setActiveProfileId(null);
+        setSettings(report.rack.settings);
+        setSpeakers(report.rack.speakers);
+        setActiveLayout(report.rack.activeLayout);
+      }
+      setPresets(presetStore.getPresets());
+      setCalibrations(calibrationStore.getProfiles());
+      await refreshVault();
+      const summary = `${report.songsAdded} songs restored, ${report.songsSkipped} already in the Vault, ${report.playlistsAdded} playlists added.`;
+      alert(report.conflicts.length > 0 ? `${summary}\n\nConflicts:\n${report.conflicts.join('\n')}` : summary);
+    } catch (err) {
+      console.error("Vault restore failed", err);
+      alert(`Vault restore failed: ${(err as Error).message}`);
+    } finally { setBackupProgress(null); }
+  };
+
   const exportSpatialAudio = async () => {
     if (!mediaData || isExporting) return;
     setIsExporting(true);
     
     // Pause playback during export to prevent glitching
-    if (isPlaying && mediaRef.current) mediaRef.current.pause();
+    audioEngine.pause();
 
     try {
-       // Get Blob
-       let blob = mediaData.blob;
-       if (!blob) {
-          const r = await fetch(mediaData.url);
-          blob = await r.blob();
-       }
-
-       const renderedWav = await audioEngine.renderOffline(blob!, settings, (p) => {
+       const renderedWav = await audioEngine.renderOffline(mediaData.blob, settings, speakers, (p) => {
          // Progress callback could be added here
-       });
+       }, sourceOrder);
 
        const url = URL.createObjectURL(renderedWav);
        const a = document.createElement('a');
        a.href = url;
-       a.download = `${mediaData.name} [StagePOV Immersive Master].wav`;
+       const activeCount = speakers.filter(s => s.isActive).length;
+       const tag = settings.exportMode === 'multichannel' ? `${activeLayout} ${activeCount}ch`
+         : settings.exportMode === 'ambix' ? `AmbiX O${settings.ambisonicOrder}`
+         : 'Immersive';
+       a.download = `${mediaData.name} [StagePOV ${tag} Master].wav`;
        document.body.appendChild(a);
        a.click();
        document.body.removeChild(a);
@@ -251,56 +680,150 @@ const App: React.FC = () => {
     }
   };
 
-  const playSongFromVault = (song: VaultSong, queue: VaultSong[] = []) => {
-    if (mediaData?.url && !mediaData.id) URL.revokeObjectURL(mediaData.url);
-    const url = URL.createObjectURL(song.blob);
-    setMediaData({ name: song.name, url, id: song.id, blob: song.blob });
-    
-    if (queue.length > 0) {
-      const index = queue.findIndex(s => s.id === song.id);
-      if (index !== -1 && index < queue.length - 1) {
-        setPlaybackQueue(queue.slice(index + 1));
-      } else {
-        setPlaybackQueue([]);
-      }
-    } else {
-      setPlaybackQueue([]);
+  const selectedPreset = presets.find(p => p.id === settings.selectedPreset);
+
+  const applyPreset = (preset: AudioPreset) => {
+    const { layout, ...params } = structuredClone(preset.params);
+    setSettings(p => ({ ...p, ...params, selectedPreset: preset.id }));
+    setSpeakers(SPEAKER_LAYOUTS[layout]);
+    setActiveLayout(layout);
+  };
+
+  const savePresetAs = () => {
+    const name = window.prompt("Preset Name:", selectedPreset ? `${selectedPreset.name} Custom` : "My Preset");
+    if (!name) return;
+    const preset = presetStore.savePreset(name, snapshotPresetParams(settings, activeLayout));
+    setPresets(presetStore.getPresets());
+    setSettings(p => ({ ...p, selectedPreset: preset.id }));
+  };
+
+  const overwritePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    presetStore.updatePreset(selectedPreset.id, snapshotPresetParams(settings, activeLayout));
+    setPresets(presetStore.getPresets());
+  };
+
+  const renamePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    const name = window.prompt("Rename Preset:", selectedPreset.name);
+    if (!name) return;
+    presetStore.renamePreset(selectedPreset.id, name);
+    setPresets(presetStore.getPresets());
+  };
+
+  const duplicatePreset = () => {
+    if (!selectedPreset) return;
+    const copy = presetStore.duplicatePreset(selectedPreset.id);
+    setPresets(presetStore.getPresets());
+    if (copy) setSettings(p => ({ ...p, selectedPreset: copy.id }));
+  };
+
+  const deletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    if (!window.confirm(`Delete preset "${selectedPreset.name}"?`)) return;
+    presetStore.deletePreset(selectedPreset.id);
+    setPresets(presetStore.getPresets());
+    setSettings(p => ({ ...p, selectedPreset: 'pure-direct' }));
+  };
+
+  const exportPreset = () => {
+    if (!selectedPreset) return;
+    const blob = new Blob([presetStore.exportPresets([selectedPreset.id])], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${selectedPreset.name}.stagepov-preset.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const importPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = presetStore.importPresets(await file.text());
+      setPresets(presetStore.getPresets());
+      applyPreset(imported[0]);
+    } catch (err) {
+      console.error("Preset import failed", err);
+      alert(`Preset import failed: ${(err as Error).message}`);
     }
-    setActiveView('deck');
+  };
+
+  const loadVaultSong = (song: VaultSong) => {
+    setMediaData({ name: songTitle(song), id: song.id, blob: song.blob });
+    loadSongProfile(song.id);
     setIsPlaying(true);
   };
 
-  const onPlaybackEnded = () => {
-    if (playbackQueue.length > 0) {
-      const nextSong = playbackQueue[0];
-      playSongFromVault(nextSong, playbackQueue);
-    } else {
-      setIsPlaying(false);
+  // The rest of the list the song was picked from becomes Up Next
+  const playSongFromVault = (song: VaultSong, list: VaultSong[] = [], playlistId: string | null = null) => {
+    setQueue(startQueue(queue, mediaData?.id ?? null, list.map(s => s.id), song.id, playlistId));
+    loadVaultSong(song);
+    setActiveView('deck');
+  };
+
+  // Jumping ahead keeps the songs it passes over queued
+  const skipToNext = (index = 0) => {
+    const next = skipForward(moveInQueue(queue, index, 0), mediaData?.id ?? null);
+    const song = next.songId ? songsById.get(next.songId) : undefined;
+    if (!song) return;
+    setQueue(next.queue);
+    loadVaultSong(song);
+  };
+
+  // Restarts the song unless it has only just begun, like a CD player
+  const skipToPrevious = () => {
+    const previous = skipBack(queue, mediaData?.id ?? null);
+    const song = previous.songId ? songsById.get(previous.songId) : undefined;
+    if (!song || currentTime > 3) {
+      audioEngine.seek(0);
+      setCurrentTime(0);
+      return;
+    }
+    setQueue(previous.queue);
+    loadVaultSong(song);
+  };
+
+  const cycleRepeat = () => {
+    const order: RepeatMode[] = ['off', 'all', 'one'];
+    setQueue(setRepeat(queue, order[(order.indexOf(queue.repeat) + 1) % order.length], mediaData?.id ?? null));
+  };
+
+  const queueSong = (song: VaultSong, next: boolean, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!mediaData) {
+      loadVaultSong(song);
+      return;
     }
+    setQueue(q => next ? playNext(q, song.id) : playLater(q, song.id));
   };
 
   const deleteFromVault = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     await vaultDb.deleteSong(id);
+    setQueue(q => dropSong(q, id));
     await refreshVault();
   };
 
   const deletePlaylist = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     await vaultDb.deletePlaylist(id);
-    if (selectedPlaylistId === id) setSelectedPlaylistId(null);
+    if (selectedPlaylistId === id) selectPlaylist(null);
+    await refreshVault();
+  };
+
+  const setPlaylistCrossfade = async (playlist: VaultPlaylist, crossfade: number | undefined) => {
+    await vaultDb.savePlaylist({ ...playlist, crossfade });
     await refreshVault();
   };
 
   const togglePlay = () => {
-    if (mediaRef.current) {
-      if (mediaRef.current.paused) {
-        mediaRef.current.play();
-        audioEngine.resume();
-      } else {
-        mediaRef.current.pause();
-      }
-    }
+    if (audioEngine.isPlaying()) audioEngine.pause();
+    else audioEngine.play();
   };
 
   const toggleSelectionMode = () => {
@@ -325,26 +848,97 @@ const App: React.FC = () => {
     await refreshVault();
   };
 
+  const selectPlaylist = (id: string | null) => {
+    setSelectedPlaylistId(id);
+    setSortBy(id ? 'order' : sortBy === 'order' ? 'date' : sortBy);
+  };
+
+  const updatePlaylist = async (playlist: VaultPlaylist) => {
+    await vaultDb.savePlaylist(playlist);
+    await refreshVault();
+  };
+
+  const renamePlaylist = (playlist: VaultPlaylist, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const name = window.prompt("Rename Playlist:", playlist.name);
+    if (name) updatePlaylist({ ...playlist, name });
+  };
+
+  const duplicatePlaylist = async (playlist: VaultPlaylist, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const id = `pl_${Date.now()}`;
+    await updatePlaylist({ ...structuredClone(playlist), id, name: `${playlist.name} Copy`, dateCreated: Date.now() });
+    selectPlaylist(id);
+  };
+
+  const addSelectionToPlaylist = async (id: string) => {
+    const playlist = playlists.find(p => p.id === id);
+    if (!playlist || selectedSongIds.size === 0) return;
+    const added = Array.from(selectedSongIds).filter(songId => !playlist.songIds.includes(songId));
+    await updatePlaylist({ ...playlist, songIds: [...playlist.songIds, ...added] });
+    setIsSelectionMode(false);
+    setSelectedSongIds(new Set());
+  };
+
+  const removeFromPlaylist = (playlist: VaultPlaylist, songId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    updatePlaylist({ ...playlist, songIds: playlist.songIds.filter(id => id !== songId) });
+  };
+
+  const movePlaylistSong = (playlist: VaultPlaylist, songId: string, targetId: string) => {
+    const songIds = [...playlist.songIds];
+    const to = songIds.indexOf(targetId);
+    songIds.splice(songIds.indexOf(songId), 1);
+    songIds.splice(to, 0, songId);
+    updatePlaylist({ ...playlist, songIds });
+  };
+
+  const saveSmartPlaylist = async (name: string, rules: SmartRule[]) => {
+    const existing = smartEditor?.playlist;
+    const playlist = existing
+      ? { ...existing, name, rules }
+      : { id: `pl_${Date.now()}`, name, songIds: [], dateCreated: Date.now(), rules };
+    setSmartEditor(null);
+    await updatePlaylist(playlist);
+    selectPlaylist(playlist.id);
+  };
+
+  // Smart playlists change with the Vault, so they're re-read whenever it does
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(playlists.map(async pl => [pl.id, await vaultDb.getPlaylistSongIds(pl)] as const))
+      .then(entries => { if (!cancelled) setPlaylistSongIds(new Map(entries)); })
+      .catch(err => console.warn("Failed to resolve playlists", err));
+    return () => { cancelled = true; };
+  }, [playlists, vaultSongs, profileSongIds]);
+
+  const selectedPlaylist = playlists.find(p => p.id === selectedPlaylistId);
+
   const filteredAndSortedSongs = useMemo(() => {
     let result = [...vaultSongs];
-    if (selectedPlaylistId) {
-      const pl = playlists.find(p => p.id === selectedPlaylistId);
-      if (pl) {
-        const idSet = new Set(pl.songIds);
-        result = result.filter(s => idSet.has(s.id));
-      }
+    if (selectedPlaylist) {
+      const ids = playlistSongIds.get(selectedPlaylist.id) ?? selectedPlaylist.songIds;
+      result = ids.map(id => songsById.get(id)).filter((s): s is VaultSong => !!s);
     }
     if (searchQuery) {
       const q = searchQuery.toLowerCase();
-      result = result.filter(s => s.name.toLowerCase().includes(q));
+      result = result.filter(s => [s.name, s.title, s.artist, s.album, s.genre].some(field => field?.toLowerCase().includes(q)));
+    }
+    if (sortBy !== 'order') {
+      result.sort((a, b) => {
+        if (sortBy === 'name') return songTitle(a).localeCompare(songTitle(b));
+        // Untagged songs go last; albums keep their track order
+        if (sortBy === 'artist') return compareTag(a.artist, b.artist) || compareTag(a.album, b.album) || (a.trackNumber ?? 0) - (b.trackNumber ?? 0);
+        if (sortBy === 'album') return compareTag(a.album, b.album) || (a.trackNumber ?? 0) - (b.trackNumber ?? 0);
+        if (sortBy === 'size') return b.size - a.size;
+        return b.dateAdded - a.dateAdded; 
+      });
     }
-    result.sort((a, b) => {
-      if (sortBy === 'name') return a.name.localeCompare(b.name);
-      if (sortBy === 'size') return b.size - a.size;
-      return b.dateAdded - a.dateAdded; 
-    });
     return result;
-  }, [vaultSongs, playlists, selectedPlaylistId, searchQuery, sortBy]);
+  }, [vaultSongs, songsById, selectedPlaylist, playlistSongIds, searchQuery, sortBy]);
+
+  // Only a fixed playlist's own, unfiltered order can be dragged into shape
+  const canReorder = !!selectedPlaylist && !selectedPlaylist.rules && sortBy === 'order' && !searchQuery && !isSelectionMode;
 
   const NavItem = ({ id, label, icon }: { id: typeof activeView, label: string, icon: React.ReactNode }) => (
     <button onClick={() => setActiveView(id)} className={`flex flex-col md:flex-row items-center gap-3 md:gap-4 px-6 py-4 rounded-xl transition-all duration-300 ${activeView === id ? 'text-white bg-blue-600/20 border border-blue-500/30' : 'text-slate-500 hover:bg-white/5'}`}>
@@ -370,16 +964,9 @@ const App: React.FC = () => {
 
   return (
     <div className={`h-screen w-full flex flex-col md:flex-row bg-[#020205] text-white overflow-hidden font-inter transition-colors duration-1000 ${settings.isTheaterMode ? 'bg-black' : ''}`}>
-      <audio 
-        key={`${settings.sampleRate}-${settings.bitDepth}`}
-        ref={mediaRef} 
-        src={mediaData?.url || ''}
-        onPlay={() => setIsPlaying(true)} 
-        onPause={() => setIsPlaying(false)} 
-        onEnded={onPlaybackEnded}
-        onTimeUpdate={() => setCurrentTime(mediaRef.current?.currentTime || 0)} 
-        onLoadedMetadata={() => setDuration(mediaRef.current?.duration || 0)} 
-      />
+      <div className="fixed bottom-28 md:bottom-8 right-8 z-[150]">
+        <HeadTracker enabled={settings.isHeadTrackingEnabled} onPose={handleHeadPose} />
+      </div>
 
       <aside className={`w-full md:w-80 border-b md:border-b-0 md:border-r border-white/5 p-6 md:p-10 flex md:flex-col justify-between shrink-0 bg-black/80 backdrop-blur-3xl z-50 nav-transition ${settings.isTheaterMode ? 'opacity-0 pointer-events-none -translate-x-full' : 'opacity-100'}`}>
         <div className="flex md:flex-col gap-10 items-center md:items-stretch w-full">
@@ -431,10 +1018,18 @@ const App: React.FC = () => {
                     </div>
                     <div className={`space-y-6 text-center nav-transition ${settings.isTheaterMode ? 'opacity-40' : 'opacity-100'}`}>
                       <h2 className="text-4xl md:text-5xl font-black italic tracking-tighter text-white uppercase truncate px-8 max-w-4xl">{mediaData.name}</h2>
+                      {mediaData.id && songsById.get(mediaData.id)?.artist && (
+                        <p className="text-[11px] font-black uppercase tracking-[0.3em] text-slate-400 truncate px-8 max-w-4xl">{songsById.get(mediaData.id)?.artist}</p>
+                      )}
                       <div className="flex items-center justify-center gap-6">
                         <span className="px-5 py-2 rounded-lg bg-blue-600/10 border border-blue-500/20 text-blue-400 text-[9px] font-black uppercase tracking-widest">
                           {settings.bitDepth}-BIT MASTER
                         </span>
+                        {sourceOrder && (
+                          <span className="px-5 py-2 rounded-lg bg-white/5 border border-white/10 text-slate-300 text-[9px] font-black uppercase tracking-widest">
+                            AMBIX ORDER {sourceOrder}
+                          </span>
+                        )}
                         {!mediaData.id && (
                           <button onClick={saveToVault} disabled={isSaving} className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white transition-colors">
                             <svg className={`w-4 h-4 ${isSaving ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-8l-4-4m0 0L8 8m4-4v12"/></svg>
@@ -443,6 +1038,27 @@ const App: React.FC = () => {
                         )}
                         {mediaData.id && <span className="text-[9px] font-black uppercase tracking-widest text-green-500/70 flex items-center gap-1"><svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"/></svg>SECURED IN VAULT</span>}
                       </div>
+
+                      <div className="w-full max-w-xl mx-auto">
+                        <LoudnessMeter target={settings.loudnessTarget} />
+                      </div>
+
+                      {mediaData.id && (
+                        <div className="flex items-center justify-center gap-4 text-[9px] font-black uppercase tracking-widest">
+                          {activeProfileId === mediaData.id ? (
+                            <>
+                              <span className="px-3 py-1 rounded-full bg-amber-500/10 border border-amber-500/30 text-amber-400">Song Profile Active</span>
+                              <button onClick={pinSongProfile} className="text-slate-400 hover:text-white transition-colors">Update</button>
+                              <button onClick={revertToGlobal} className="text-slate-400 hover:text-white transition-colors">Revert to Global</button>
+                              <button onClick={unpinSongProfile} className="text-slate-500 hover:text-red-400 transition-colors">Unpin</button>
+                            </>
+                          ) : (
+                            <button onClick={pinSongProfile} className="text-slate-400 hover:text-white transition-colors">
+                              {profileSongIds.has(mediaData.id) ? 'Overwrite Song Profile' : 'Pin DSP Profile to Song'}
+                            </button>
+                          )}
+                        </div>
+                      )}
                       
                       {/* EXPORT BUTTON */}
                       <button 
@@ -470,19 +1086,26 @@ const App: React.FC = () => {
               {mediaData && (
                 <div className={`w-full max-w-4xl mx-auto bg-white/5 backdrop-blur-3xl p-8 md:p-10 rounded-[2.5rem] border border-white/10 mt-12 mb-10 shadow-2xl nav-transition ${settings.isTheaterMode ? 'opacity-20 hover:opacity-100 translate-y-10' : 'opacity-100'}`}>
                    <div className="flex flex-col md:flex-row items-center gap-10">
-                      <div className="flex items-center gap-6">
+                      <div className="flex items-center gap-4">
+                        <button onClick={skipToPrevious} className="p-3 rounded-xl bg-white/5 text-slate-400 hover:text-white transition-all">
+                          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h2v12H6zm3.5 6l8.5 6V6z"/></svg>
+                        </button>
                         <button onClick={togglePlay} className="w-20 h-20 rounded-3xl bg-white text-black flex items-center justify-center hover:scale-105 active:scale-95 transition-all shadow-xl">
                           {isPlaying ? <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg> : <svg className="w-8 h-8 ml-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
                         </button>
+                        <button onClick={() => skipToNext()} disabled={upNextSongs.length === 0} className="p-3 rounded-xl bg-white/5 text-slate-400 hover:text-white disabled:opacity-30 transition-all">
+                          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/></svg>
+                        </button>
                       </div>
                       
                       <div className="flex-1 flex flex-col gap-4 w-full">
                          <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden relative group/seek cursor-pointer" 
                               onClick={(e) => {
-                                if(mediaRef.current && duration) {
+                                if(duration) {
                                   const rect = e.currentTarget.getBoundingClientRect();
                                   const pos = (e.clientX - rect.left) / rect.width;
-                                  mediaRef.current.currentTime = pos * duration;
+                                  audioEngine.seek(pos * duration);
+                                  setCurrentTime(pos * duration);
                                 }
                               }}>
                             <div className="h-full bg-blue-600 transition-all duration-300 rounded-full" style={{ width: `${(currentTime/duration)*100}%` }}></div>
@@ -493,9 +1116,26 @@ const App: React.FC = () => {
                          </div>
                       </div>
 
-                      <button onClick={() => setMediaData(null)} className="p-3 rounded-xl bg-white/5 text-slate-500 hover:text-red-500 transition-all">
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"/></svg>
-                      </button>
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => setQueue(setShuffle(queue, !queue.shuffle, mediaData.id ?? null))}
+                                className={`px-3 py-3 rounded-xl font-black text-[9px] uppercase tracking-widest transition-all ${queue.shuffle ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-500 hover:text-white'}`}>
+                          Shuffle
+                        </button>
+                        <button onClick={cycleRepeat}
+                                className={`px-3 py-3 rounded-xl font-black text-[9px] uppercase tracking-widest transition-all ${queue.repeat !== 'off' ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-500 hover:text-white'}`}>
+                          {queue.repeat === 'one' ? 'Repeat One' : 'Repeat'}
+                        </button>
+                        <button onClick={() => setMediaData(null)} className="p-3 rounded-xl bg-white/5 text-slate-500 hover:text-red-500 transition-all">
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"/></svg>
+                        </button>
+                      </div>
+                   </div>
+                   <div className="pt-8 mt-8 border-t border-white/5">
+                     <UpNextPanel songs={upNextSongs}
+                                  onPlay={skipToNext}
+                                  onMove={(from, to) => setQueue(moveInQueue(queue, from, to))}
+                                  onRemove={index => setQueue(removeFromQueue(queue, index))}
+                                  onClear={() => setQueue(clearQueue(queue))} />
                    </div>
                 </div>
               )}
@@ -506,7 +1146,7 @@ const App: React.FC = () => {
             <div className="h-full flex flex-col gap-10 max-w-6xl mx-auto w-full animate-in fade-in duration-500">
                <div className={`flex-1 transition-all duration-1000 ${settings.isTheaterMode ? 'p-0' : 'p-0'}`}>
                   <div className={`w-full h-full bg-black rounded-[3rem] overflow-hidden border border-white/5 shadow-3xl relative`}>
-                    <ThreeDSpatialView speakers={speakers} listenerPos={{x:0, y:0}} headRotation={0} isTheaterMode={settings.isTheaterMode} />
+                    <ThreeDSpatialView speakers={speakers} listenerPos={settings.roomModel.listenerPos} headRotation={headRotation} isTheaterMode={settings.isTheaterMode} />
                   </div>
                </div>
                <div className={`bg-white/5 backdrop-blur-3xl rounded-[2.5rem] p-10 border border-white/10 shadow-2xl nav-transition ${settings.isTheaterMode ? 'opacity-0 scale-95 translate-y-10' : 'opacity-100 scale-100'}`}>
@@ -526,7 +1166,38 @@ const App: React.FC = () => {
                   </div>
                   <div className="h-72"><SpatialGrid speakers={speakers} onSpeakerMove={(id, x, z) => {
                     setSpeakers(prev => prev.map(s => s.id === id ? { ...s, x, z } : s));
-                  }} onToggleSpeaker={() => {}} /></div>
+                  }} onToggleSpeaker={(id) => {
+                    setSpeakers(prev => prev.map(s => s.id === id ? { ...s, isActive: !s.isActive } : s));
+                  }} listenerPos={settings.roomModel.listenerPos} onListenerMove={moveListener} /></div>
+                  <div className="mt-10 space-y-4">
+                    <div className="flex justify-between items-end">
+                      <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Speaker Alignment</h4>
+                      <span className="text-[8px] font-bold uppercase tracking-widest text-slate-600">Leave delay empty to align by distance</span>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {speakers.filter(s => s.isActive).map(s => {
+                        const alignment = speakerAlignment.get(s.id)!;
+                        return (
+                          <div key={s.id} className="flex items-center gap-3 px-4 py-3 rounded-xl bg-white/5 border border-white/5">
+                            <span className="w-10 text-[9px] font-black uppercase tracking-widest text-slate-300">{s.id}</span>
+                            <span className="w-14 text-[10px] font-mono text-slate-500">{alignment.distance.toFixed(2)}m</span>
+                            <input type="number" min={0} max={MAX_SPEAKER_DELAY_MS} step={0.1} value={s.delay ?? ''} placeholder={alignment.delay.toFixed(2)}
+                                   onChange={e => updateSpeaker(s.id, { delay: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                   className="w-20 bg-black/40 border border-white/5 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-200 placeholder-slate-600 outline-none" />
+                            <span className="text-[8px] font-black uppercase text-slate-600">ms</span>
+                            <input type="number" min={-12} max={12} step={0.5} value={s.trim ?? 0}
+                                   onChange={e => updateSpeaker(s.id, { trim: Number(e.target.value) || 0 })}
+                                   className="w-16 bg-black/40 border border-white/5 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-200 outline-none" />
+                            <span className="text-[8px] font-black uppercase text-slate-600">dB</span>
+                            <button onClick={() => updateSpeaker(s.id, { invertPolarity: !s.invertPolarity })} title="Invert polarity"
+                                    className={`ml-auto px-3 py-1 rounded-lg border text-[10px] font-black transition-all ${s.invertPolarity ? 'bg-blue-600 text-white border-blue-500' : 'bg-white/5 border-white/10 text-slate-500 hover:bg-white/10'}`}>
+                              Ø
+                            </button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
                </div>
             </div>
           )}
@@ -552,7 +1223,7 @@ const App: React.FC = () => {
                     </div>
 
                     <div className="flex gap-2">
-                      {(['date', 'name', 'size'] as const).map(mode => (
+                      {(selectedPlaylist ? ['order', 'date', 'name', 'artist', 'album', 'size'] as const : ['date', 'name', 'artist', 'album', 'size'] as const).map(mode => (
                         <button 
                           key={mode}
                           onClick={() => setSortBy(mode)}
@@ -574,6 +1245,7 @@ const App: React.FC = () => {
                       ref={vaultInputRef}
                       onChange={handleVaultUpload}
                     />
+                    <input type="file" accept="application/zip,.zip" className="hidden" ref={backupInputRef} onChange={pickRestore} />
 
                     {isSelectionMode ? (
                       <div className="flex gap-2 animate-in fade-in">
@@ -584,6 +1256,13 @@ const App: React.FC = () => {
                         >
                           Save Playlist ({selectedSongIds.size})
                         </button>
+                        {playlists.some(pl => !pl.rules) && (
+                          <select value="" disabled={selectedSongIds.size === 0} onChange={e => addSelectionToPlaylist(e.target.value)}
+                                  className="px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-slate-300 font-black text-[9px] uppercase tracking-widest outline-none disabled:opacity-50 transition-all">
+                            <option value="" disabled>Add to Playlist</option>
+                            {playlists.filter(pl => !pl.rules).map(pl => <option key={pl.id} value={pl.id}>{pl.name}</option>)}
+                          </select>
+                        )}
                         <button 
                           onClick={toggleSelectionMode}
                           className="px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-slate-400 hover:text-white font-black text-[9px] uppercase tracking-widest transition-all"
@@ -607,16 +1286,46 @@ const App: React.FC = () => {
                           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 6v6m0 0v6m0-6h6m-6 0H6"/></svg>
                           New Playlist
                         </button>
+                        <button 
+                          onClick={backupVault}
+                          disabled={!!backupProgress}
+                          className="px-6 py-3 rounded-xl bg-white/5 border border-white/10 text-slate-300 hover:bg-white/10 font-black text-[9px] uppercase tracking-widest disabled:opacity-50 transition-all"
+                        >
+                          Backup
+                        </button>
+                        <button 
+                          onClick={() => backupInputRef.current?.click()}
+                          disabled={!!backupProgress}
+                          className="px-6 py-3 rounded-xl bg-white/5 border border-white/10 text-slate-300 hover:bg-white/10 font-black text-[9px] uppercase tracking-widest disabled:opacity-50 transition-all"
+                        >
+                          Restore
+                        </button>
+                        <button 
+                          onClick={() => setSmartEditor({})}
+                          className="px-6 py-3 rounded-xl bg-white/5 border border-white/10 text-blue-400 hover:bg-blue-600/20 hover:border-blue-500/30 font-black text-[9px] uppercase tracking-widest transition-all"
+                        >
+                          Smart Playlist
+                        </button>
                       </div>
                     )}
                   </div>
                </header>
+
+               {backupProgress && (
+                 <div className="flex items-center gap-4 shrink-0">
+                   <span className="text-[9px] font-black uppercase tracking-widest text-blue-400 truncate">{backupProgress.label}</span>
+                   <div className="flex-1 h-1 bg-white/5 rounded-full overflow-hidden">
+                     <div className="h-full bg-blue-500 transition-all" style={{ width: `${backupProgress.total > 0 ? (backupProgress.done / backupProgress.total) * 100 : 0}%` }}></div>
+                   </div>
+                   <span className="text-[9px] font-mono text-slate-500">{backupProgress.done}/{backupProgress.total}</span>
+                 </div>
+               )}
                
                <div className="flex-1 flex flex-col md:flex-row gap-8 min-h-0">
                  {/* Playlists Sidebar */}
                  <div className="w-full md:w-64 shrink-0 flex flex-col gap-4 overflow-y-auto custom-scroll pr-2">
                    <div 
-                     onClick={() => setSelectedPlaylistId(null)}
+                     onClick={() => selectPlaylist(null)}
                      className={`p-4 rounded-xl border cursor-pointer transition-all ${selectedPlaylistId === null ? 'bg-white/10 border-white/20 text-white' : 'bg-white/5 border-transparent text-slate-500 hover:bg-white/10'}`}
                    >
                      <div className="flex justify-between items-center">
@@ -630,16 +1339,37 @@ const App: React.FC = () => {
                    {playlists.map(pl => (
                      <div 
                        key={pl.id}
-                       onClick={() => setSelectedPlaylistId(pl.id)}
+                       onClick={() => selectPlaylist(pl.id)}
                        className={`p-4 rounded-xl border cursor-pointer transition-all group relative ${selectedPlaylistId === pl.id ? 'bg-blue-600/20 border-blue-500/30 text-white' : 'bg-white/5 border-transparent text-slate-500 hover:bg-white/10'}`}
                      >
                        <div className="flex justify-between items-center">
-                         <span className="text-[10px] font-black uppercase tracking-widest truncate pr-4">{pl.name}</span>
-                         <span className="text-[9px] font-mono opacity-50">{pl.songIds.length}</span>
+                         <span className="text-[10px] font-black uppercase tracking-widest truncate pr-4">{pl.rules && <span className="text-blue-400">Smart · </span>}{pl.name}</span>
+                         <span className="text-[9px] font-mono opacity-50">{playlistSongIds.get(pl.id)?.length ?? pl.songIds.length}</span>
                        </div>
+                       {selectedPlaylistId === pl.id && (
+                         <div className="mt-3 flex gap-1">
+                           {[
+                             { label: 'Rename', onClick: (e: React.MouseEvent) => renamePlaylist(pl, e) },
+                             { label: 'Duplicate', onClick: (e: React.MouseEvent) => duplicatePlaylist(pl, e) },
+                             ...(pl.rules ? [{ label: 'Rules', onClick: (e: React.MouseEvent) => { e.stopPropagation(); setSmartEditor({ playlist: pl }); } }] : []),
+                           ].map(({ label, onClick }) => (
+                             <button key={label} onClick={onClick} className="flex-1 py-2 rounded-lg bg-black/30 text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-white transition-all">{label}</button>
+                           ))}
+                         </div>
+                       )}
+                       {selectedPlaylistId === pl.id && (
+                         <select value={pl.crossfade ?? ''} onClick={e => e.stopPropagation()}
+                                 onChange={e => setPlaylistCrossfade(pl, e.target.value === '' ? undefined : Number(e.target.value))}
+                                 className="mt-3 w-full bg-black/30 border border-white/5 rounded-lg px-3 py-2 text-[9px] font-black uppercase tracking-widest text-slate-300 outline-none">
+                           <option value="">Default Crossfade</option>
+                           {PLAYLIST_CROSSFADE_OPTIONS.map(seconds => (
+                             <option key={seconds} value={seconds}>{seconds ? `${seconds}s Crossfade` : 'Gapless'}</option>
+                           ))}
+                         </select>
+                       )}
                        <button 
                          onClick={(e) => deletePlaylist(pl.id, e)}
-                         className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-lg bg-red-500/20 text-red-400 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500 hover:text-white"
+                         className="absolute right-2 top-3 p-1.5 rounded-lg bg-red-500/20 text-red-400 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500 hover:text-white"
                        >
                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
                        </button>
@@ -660,8 +1390,17 @@ const App: React.FC = () => {
                           {filteredAndSortedSongs.map(song => (
                             <div 
                               key={song.id} 
-                              onClick={() => isSelectionMode ? toggleSongSelection(song.id) : playSongFromVault(song, filteredAndSortedSongs)}
-                              className={`group relative p-6 rounded-2xl border transition-all cursor-pointer flex items-center justify-between ${
+                              onClick={() => isSelectionMode ? toggleSongSelection(song.id) : playSongFromVault(song, filteredAndSortedSongs, selectedPlaylistId)}
+                              draggable={canReorder}
+                              onDragStart={() => setDragSongId(song.id)}
+                              onDragOver={e => { if (canReorder) e.preventDefault(); }}
+                              onDrop={e => {
+                                e.preventDefault();
+                                if (selectedPlaylist && dragSongId && dragSongId !== song.id) movePlaylistSong(selectedPlaylist, dragSongId, song.id);
+                                setDragSongId(null);
+                              }}
+                              onDragEnd={() => setDragSongId(null)}
+                              className={`group relative p-6 rounded-2xl border transition-all cursor-pointer flex items-center justify-between ${dragSongId === song.id ? 'opacity-40' : ''} ${
                                 isSelectionMode 
                                   ? selectedSongIds.has(song.id) 
                                     ? 'bg-blue-600/20 border-blue-500' 
@@ -677,7 +1416,8 @@ const App: React.FC = () => {
                                       {selectedSongIds.has(song.id) && <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7"/></svg>}
                                     </div>
                                   ) : (
-                                    <div className={`w-12 h-12 shrink-0 rounded-xl flex items-center justify-center transition-all ${mediaData?.id === song.id ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-500 group-hover:bg-white/10'}`}>
+                                    <div className={`w-12 h-12 shrink-0 rounded-xl bg-cover bg-center flex items-center justify-center transition-all ${mediaData?.id === song.id ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-500 group-hover:bg-white/10'}`}
+                                         style={artworkUrls.has(song.id) ? { backgroundImage: `url(${artworkUrls.get(song.id)})` } : undefined}>
                                       {mediaData?.id === song.id && isPlaying ? (
                                         <div className="flex items-end gap-0.5 h-4">
                                           <div className="w-1 bg-white animate-[bounce_1s_infinite]"></div>
@@ -691,22 +1431,65 @@ const App: React.FC = () => {
                                   )}
                                   
                                   <div className="min-w-0">
-                                    <h4 className={`text-sm font-black italic tracking-tight uppercase truncate ${mediaData?.id === song.id ? 'text-blue-400' : 'text-slate-200'}`}>{song.name}</h4>
+                                    <h4 className={`text-sm font-black italic tracking-tight uppercase truncate ${mediaData?.id === song.id ? 'text-blue-400' : 'text-slate-200'}`}>{songTitle(song)}</h4>
+                                    {(song.artist || song.album) && (
+                                      <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 truncate">{[song.artist, song.album].filter(Boolean).join(' — ')}</p>
+                                    )}
                                     <div className="flex items-center gap-3 mt-1">
                                       <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{(song.size / 1024 / 1024).toFixed(1)} MB</span>
                                       <span className="text-slate-700">•</span>
                                       <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{new Date(song.dateAdded).toLocaleDateString()}</span>
+                                      {song.duration !== undefined && (
+                                        <>
+                                          <span className="text-slate-700">•</span>
+                                          <span className="text-[8px] font-mono font-bold text-slate-500">{formatTime(song.duration)}</span>
+                                        </>
+                                      )}
+                                      {streamInfo(song) && (
+                                        <>
+                                          <span className="text-slate-700">•</span>
+                                          <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{streamInfo(song)}</span>
+                                        </>
+                                      )}
+                                      {profileSongIds.has(song.id) && (
+                                        <>
+                                          <span className="text-slate-700">•</span>
+                                          <span className="text-[8px] font-black text-amber-400/80 uppercase tracking-widest">Profile</span>
+                                        </>
+                                      )}
+                                      {song.loudness && Number.isFinite(song.loudness.integrated) && (
+                                        <>
+                                          <span className="text-slate-700">•</span>
+                                          <span className="text-[8px] font-mono font-bold text-slate-500">{song.loudness.integrated.toFixed(1)} LUFS</span>
+                                        </>
+                                      )}
                                     </div>
                                   </div>
                               </div>
                               
                               {!isSelectionMode && (
-                                <button 
-                                  onClick={(e) => deleteFromVault(song.id, e)}
-                                  className="p-2 rounded-lg bg-white/0 hover:bg-red-500/10 text-slate-700 hover:text-red-500 transition-all opacity-0 group-hover:opacity-100"
-                                >
-                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg>
-                                </button>
+                                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                                  <button onClick={(e) => queueSong(song, true, e)}
+                                          className="px-2 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-500 hover:bg-white/10 hover:text-white transition-all">
+                                    Play Next
+                                  </button>
+                                  <button onClick={(e) => queueSong(song, false, e)}
+                                          className="px-2 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-500 hover:bg-white/10 hover:text-white transition-all">
+                                    Play Later
+                                  </button>
+                                  {selectedPlaylist && !selectedPlaylist.rules && (
+                                    <button onClick={(e) => removeFromPlaylist(selectedPlaylist, song.id, e)}
+                                            className="px-2 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-500 hover:bg-red-500/10 hover:text-red-400 transition-all">
+                                      Remove
+                                    </button>
+                                  )}
+                                  <button 
+                                    onClick={(e) => deleteFromVault(song.id, e)}
+                                    className="p-2 rounded-lg bg-white/0 hover:bg-red-500/10 text-slate-700 hover:text-red-500 transition-all"
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg>
+                                  </button>
+                                </div>
                               )}
                             </div>
                           ))}
@@ -759,40 +1542,259 @@ const App: React.FC = () => {
                        ))}
                      </div>
                    </div>
+                   <div className="space-y-4">
+                     <label className="text-[10px] font-black uppercase tracking-widest text-slate-500">Export Format</label>
+                     <div className="grid grid-cols-2 gap-3">
+                       {EXPORT_MODE_OPTIONS.map(({ mode, label }) => (
+                         <button key={mode} 
+                                 onClick={() => setSettings(p => ({ ...p, exportMode: mode }))}
+                                 className={`py-4 rounded-xl border font-black text-[11px] uppercase transition-all ${settings.exportMode === mode ? 'bg-blue-600 text-white border-blue-500 shadow-xl' : 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10'}`}>
+                           {label}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
+                   <div className="space-y-4">
+                     <label className="text-[10px] font-black uppercase tracking-widest text-slate-500">Ambisonic Order</label>
+                     <div className="grid grid-cols-3 gap-3">
+                       {AMBISONIC_ORDER_OPTIONS.map(order => (
+                         <button key={order}
+                                 onClick={() => setSettings(p => ({ ...p, ambisonicOrder: order }))}
+                                 className={`py-4 rounded-xl border font-black text-[11px] uppercase transition-all ${settings.ambisonicOrder === order ? 'bg-blue-600 text-white border-blue-500 shadow-xl' : 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10'}`}>
+                           {order === 1 ? 'FOA' : `HOA ${order}`}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
                  </div>
               </section>
 
               <section className="space-y-12 pb-20">
                  <h3 className="text-[11px] font-black text-blue-500 uppercase tracking-[0.4em]">Cinema Presets</h3>
                  <div className="grid grid-cols-2 gap-3">
-                    {AUDIO_PRESETS.map(p => (
-                       <button key={p} 
-                               onClick={() => setSettings(s => ({ ...s, selectedPreset: p }))}
-                               className={`py-4 px-2 rounded-xl border font-black text-[9px] uppercase tracking-widest transition-all ${settings.selectedPreset === p ? 'bg-blue-600 text-white border-blue-500 shadow-xl' : 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10'}`}>
-                         {p}
+                    {presets.map(p => (
+                       <button key={p.id} 
+                               onClick={() => applyPreset(p)}
+                               className={`py-4 px-2 rounded-xl border font-black text-[9px] uppercase tracking-widest transition-all ${settings.selectedPreset === p.id ? 'bg-blue-600 text-white border-blue-500 shadow-xl' : p.builtIn ? 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10' : 'bg-white/5 border-blue-500/20 text-slate-400 hover:bg-white/10'}`}>
+                         {p.name}
                        </button>
                     ))}
                  </div>
+                 <div className="grid grid-cols-3 gap-2">
+                    <PresetAction label="Save As" onClick={savePresetAs} />
+                    <PresetAction label="Save" onClick={overwritePreset} disabled={!selectedPreset || selectedPreset.builtIn} />
+                    <PresetAction label="Rename" onClick={renamePreset} disabled={!selectedPreset || selectedPreset.builtIn} />
+                    <PresetAction label="Duplicate" onClick={duplicatePreset} disabled={!selectedPreset} />
+                    <PresetAction label="Delete" onClick={deletePreset} disabled={!selectedPreset || selectedPreset.builtIn} />
+                    <PresetAction label="Export" onClick={exportPreset} disabled={!selectedPreset} />
+                    <PresetAction label="Import" onClick={() => presetInputRef.current?.click()} />
+                    <input type="file" ref={presetInputRef} className="hidden" accept="application/json,.json" onChange={importPresets} />
+                 </div>
                  
                  <h3 className="text-[11px] font-black text-blue-500 uppercase tracking-[0.4em]">Processing Path</h3>
                  <ControlGroup label="Master Level" value={settings.volume} min={0} max={3} step={0.01} onChange={(v: any) => setSettings(p => ({...p, volume: v}))} suffix="%" displayMult={100} />
                  <ControlGroup label="LFE / Bass" value={settings.bass} min={-10} max={15} step={1} onChange={(v: any) => setSettings(p => ({...p, bass: v}))} suffix="db" />
+                 <ControlGroup label="Vocal Clarity" value={settings.vocalClarity} min={0} max={10} step={0.5} onChange={(v: any) => setSettings(p => ({...p, vocalClarity: v}))} suffix="" decimals={1} />
+                 {settings.vocalClarity > 5 && <SpeechActivityBar />}
                  <ControlGroup label="Verticality" value={settings.heightLevel} min={0} max={1} step={0.1} onChange={(v: any) => setSettings(p => ({...p, heightLevel: v}))} suffix="%" displayMult={100} />
                  <ControlGroup label="Ambience / Reverb" value={settings.reverbLevel} min={0} max={1} step={0.05} onChange={(v: any) => setSettings(p => ({...p, reverbLevel: v}))} suffix="" displayMult={100} />
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Loudness</h4>
+                   <ToggleSwitch label="Normalize Vault Songs" enabled={settings.loudnessNormalization} onToggle={() => setSettings(p => ({...p, loudnessNormalization: !p.loudnessNormalization}))} />
+                   <div className="grid grid-cols-2 gap-3">
+                     {LOUDNESS_TARGET_OPTIONS.map(({ target, label }) => (
+                       <button key={target} 
+                               onClick={() => setSettings(p => ({ ...p, loudnessTarget: target }))}
+                               className={`py-4 rounded-xl border font-black text-[9px] uppercase tracking-widest transition-all ${settings.loudnessTarget === target ? 'bg-blue-600 text-white border-blue-500 shadow-xl' : 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10'}`}>
+                         {label}
+                       </button>
+                     ))}
+                   </div>
+                   <ControlGroup label="Target Loudness" value={settings.loudnessTarget} min={-31} max={-9} step={1} onChange={(v: any) => setSettings(p => ({...p, loudnessTarget: v}))} suffix="LUFS" />
+                   {currentLoudness && (
+                     <p className="text-[9px] font-bold uppercase tracking-widest text-slate-600">
+                       Current song {currentLoudness.integrated.toFixed(1)} LUFS, {currentLoudness.truePeak.toFixed(1)} dBTP
+                     </p>
+                   )}
+                 </div>
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Playback</h4>
+                   <ControlGroup label={settings.crossfade ? 'Crossfade' : 'Crossfade (Gapless)'} value={settings.crossfade} min={0} max={12} step={0.5} onChange={(v: any) => setSettings(p => ({...p, crossfade: v}))} suffix="s" decimals={1} />
+                   {queuePlaylist?.crossfade !== undefined && (
+                     <p className="text-[9px] font-bold uppercase tracking-widest text-slate-600">
+                       {queuePlaylist.name} overrides this with {queuePlaylist.crossfade ? `${queuePlaylist.crossfade}s` : 'gapless'}
+                     </p>
+                   )}
+                 </div>
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Dynamics</h4>
+                   <ControlGroup label="DRC Amount" value={settings.drc} min={0} max={1} step={0.05} onChange={(v: any) => setDrc(v)} suffix="%" displayMult={100} />
+                   <ToggleSwitch label="Dialogue Priority" enabled={settings.dynamics.dialoguePriority} onToggle={() => setDrc(settings.drc, !settings.dynamics.dialoguePriority)} />
+                   <DynamicsMeter selected={dynamicsBand} onSelect={setDynamicsBand} />
+                   {settings.dynamics.bands[dynamicsBand] && (
+                     <>
+                       <ControlGroup label="Threshold" value={settings.dynamics.bands[dynamicsBand].threshold} min={-60} max={0} step={1} onChange={(v: any) => updateDynamicsBand(dynamicsBand, { threshold: v })} suffix="dB" />
+                       <ControlGroup label="Ratio" value={settings.dynamics.bands[dynamicsBand].ratio} min={1} max={20} step={0.1} onChange={(v: any) => updateDynamicsBand(dynamicsBand, { ratio: v })} suffix=":1" decimals={1} />
+                       <ControlGroup label="Attack" value={settings.dynamics.bands[dynamicsBand].attack} min={1} max={200} step={1} onChange={(v: any) => updateDynamicsBand(dynamicsBand, { attack: v })} suffix="ms" />
+                       <ControlGroup label="Release" value={settings.dynamics.bands[dynamicsBand].release} min={20} max={1000} step={10} onChange={(v: any) => updateDynamicsBand(dynamicsBand, { release: v })} suffix="ms" />
+                       <ControlGroup label="Makeup" value={settings.dynamics.bands[dynamicsBand].makeup} min={0} max={12} step={0.5} onChange={(v: any) => updateDynamicsBand(dynamicsBand, { makeup: v })} suffix="dB" decimals={1} />
+                     </>
+                   )}
+                 </div>
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Output Limiter</h4>
+                   <ControlGroup label="True-Peak Ceiling" value={settings.limiter.ceiling} min={-6} max={0} step={0.1} onChange={(v: any) => updateLimiter({ ceiling: v })} suffix="dBTP" decimals={1} />
+                   <ControlGroup label="Release" value={settings.limiter.release} min={10} max={1000} step={10} onChange={(v: any) => updateLimiter({ release: v })} suffix="ms" />
+                   <ControlGroup label="Look-Ahead" value={settings.limiter.lookahead} min={1} max={MAX_LOOKAHEAD_MS} step={0.5} onChange={(v: any) => updateLimiter({ lookahead: v })} suffix="ms" decimals={1} />
+                 </div>
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Room</h4>
+                   <div className="grid grid-cols-2 gap-3">
+                     {REVERB_ENGINE_OPTIONS.map(({ engine, label }) => (
+                       <button key={engine} 
+                               onClick={() => setSettings(p => ({ ...p, reverbEngine: engine }))}
+                               className={`py-4 rounded-xl border font-black text-[9px] uppercase tracking-widest transition-all ${settings.reverbEngine === engine ? 'bg-blue-600 text-white border-blue-500 shadow-xl' : 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10'}`}>
+                         {label}
+                       </button>
+                     ))}
+                   </div>
+                   {settings.reverbEngine === 'algorithmic' ? (
+                     <>
+                       <ControlGroup label="Room Width" value={settings.roomModel.width} min={2} max={40} step={0.5} onChange={(v: any) => updateRoomModel({ width: v })} suffix="m" />
+                       <ControlGroup label="Room Depth" value={settings.roomModel.depth} min={2} max={60} step={0.5} onChange={(v: any) => updateRoomModel({ depth: v })} suffix="m" />
+                       <ControlGroup label="Ceiling Height" value={settings.roomModel.height} min={2.2} max={20} step={0.1} onChange={(v: any) => updateRoomModel({ height: v })} suffix="m" />
+                       <ControlGroup label="Absorption" value={settings.roomModel.absorption} min={0.05} max={0.9} step={0.01} onChange={(v: any) => updateRoomModel({ absorption: v })} suffix="%" displayMult={100} />
+                       <p className="text-[9px] font-bold uppercase tracking-widest text-slate-600">Drag the listener on the Stage grid to move the seat</p>
+                     </>
+                   ) : (
+                     <>
+                     <div className="flex gap-2">
+                       <select value={settings.reverbRoom.irId ?? ''} onChange={e => updateRoom({ irId: e.target.value || null })}
+                               className="flex-1 bg-white/5 border border-white/5 rounded-xl px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-300 outline-none">
+                         <option value="">Synthetic Room</option>
+                         {rooms.map(r => <option key={r.id} value={r.id}>{r.name} ({r.channels}ch, {r.duration.toFixed(1)}s)</option>)}
+                       </select>
+                       <button onClick={() => roomInputRef.current?.click()} className="px-4 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 transition-all">Load IR</button>
+                       {settings.reverbRoom.irId && (
+                         <button onClick={deleteRoom} className="px-4 rounded-xl border border-white/5 bg-white/5 text-slate-500 font-black text-[9px] uppercase tracking-widest hover:bg-red-500/10 hover:text-red-400 transition-all">Remove</button>
+                       )}
+                       <input type="file" ref={roomInputRef} className="hidden" accept=".wav,audio/wav,audio/x-wav" onChange={importRoom} />
+                     </div>
+                     {!settings.reverbRoom.irId && (
+                       <>
+                         <ControlGroup label="Room Size" value={settings.reverbRoom.duration} min={0.2} max={6} step={0.1} onChange={(v: any) => updateRoom({ duration: v })} suffix="ms" displayMult={1000} />
+                         <ControlGroup label="Decay" value={settings.reverbRoom.decay} min={0.5} max={8} step={0.1} onChange={(v: any) => updateRoom({ decay: v })} suffix="x" />
+                         <button onClick={() => updateRoom({ seed: Math.floor(Math.random() * 1e6) })} className="w-full flex items-center justify-between py-4 px-8 rounded-2xl bg-white/5 border border-white/5 text-slate-400 hover:bg-white/10 transition-all">
+                           <span className="text-[10px] font-black uppercase tracking-widest">New Room Seed</span>
+                           <span className="text-[11px] font-mono font-black text-blue-400">#{settings.reverbRoom.seed}</span>
+                         </button>
+                       </>
+                     )}
+                     <ControlGroup label="Pre-Delay" value={settings.reverbRoom.preDelay} min={0} max={200} step={1} onChange={(v: any) => updateRoom({ preDelay: v })} suffix="ms" />
+                     <ControlGroup label="IR Trim Start" value={settings.reverbRoom.trimStart} min={0} max={0.5} step={0.005} onChange={(v: any) => updateRoom({ trimStart: v })} suffix="ms" displayMult={1000} />
+                     <ControlGroup label="IR Length (0 = Full)" value={settings.reverbRoom.trimLength} min={0} max={8} step={0.1} onChange={(v: any) => updateRoom({ trimLength: v })} suffix="ms" displayMult={1000} />
+                     <ControlGroup label="IR Low Cut" value={settings.reverbRoom.lowCut} min={20} max={1000} step={10} onChange={(v: any) => updateRoom({ lowCut: v })} suffix="Hz" />
+                     <ControlGroup label="IR High Cut" value={settings.reverbRoom.highCut} min={1000} max={20000} step={250} onChange={(v: any) => updateRoom({ highCut: v })} suffix="Hz" />
+                     </>
+                   )}
+                 </div>
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Parametric EQ</h4>
+                   <EqCurve bands={settings.eqBands} onChange={eqBands => setSettings(p => ({ ...p, eqBands }))} />
+                 </div>
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Upmixer</h4>
+                   <div className="grid grid-cols-2 gap-3">
+                     {UPMIX_ALGORITHM_OPTIONS.map(({ algorithm, label }) => (
+                       <button key={algorithm} 
+                               onClick={() => setSettings(p => ({ ...p, upmixAlgorithm: algorithm }))}
+                               className={`py-4 rounded-xl border font-black text-[9px] uppercase tracking-widest transition-all ${settings.upmixAlgorithm === algorithm ? 'bg-blue-600 text-white border-blue-500 shadow-xl' : 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10'}`}>
+                         {label}
+                       </button>
+                     ))}
+                   </div>
+                   <ControlGroup label="Center Spread" value={settings.centerSpread} min={0} max={1} step={0.05} onChange={(v: any) => setSettings(p => ({...p, centerSpread: v}))} suffix="%" displayMult={100} />
+                   <ControlGroup label="Surround Level" value={settings.surroundLevel} min={0} max={1} step={0.05} onChange={(v: any) => setSettings(p => ({...p, surroundLevel: v}))} suffix="%" displayMult={100} />
+                 </div>
                  
                  <div className="space-y-8 pt-8 border-t border-white/5">
-                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Advanced Calibration</h4>
-                   <ControlGroup label="Speaker Delay" value={settings.speakerDelay} min={0} max={100} step={1} onChange={(v: any) => setSettings(p => ({...p, speakerDelay: v}))} suffix="ms" />
-                   <ControlGroup label="Phase Alignment" value={settings.phaseAlignment} min={-5} max={5} step={0.1} onChange={(v: any) => setSettings(p => ({...p, phaseAlignment: v}))} suffix="ms" />
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Binaural HRTF</h4>
+                   <div className="flex gap-2">
+                     <select value={settings.hrtfId ?? ''} onChange={e => selectHrtf(e.target.value || null)}
+                             className="flex-1 bg-white/5 border border-white/5 rounded-xl px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-300 outline-none">
+                       <option value="">Browser Default</option>
+                       <option value={SPHERICAL_HEAD_HRTF}>Spherical Head</option>
+                       {hrtfSets.map(h => <option key={h.id} value={h.id}>{h.name} ({h.directions.length} dirs)</option>)}
+                     </select>
+                     <button onClick={() => hrtfInputRef.current?.click()} className="px-4 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 transition-all">Load SOFA</button>
+                     {hrtfSets.some(h => h.id === settings.hrtfId) && (
+                       <button onClick={deleteHrtf} className="px-4 rounded-xl border border-white/5 bg-white/5 text-slate-500 font-black text-[9px] uppercase tracking-widest hover:bg-red-500/10 hover:text-red-400 transition-all">Remove</button>
+                     )}
+                     <input type="file" ref={hrtfInputRef} className="hidden" accept=".sofa" onChange={importHrtf} />
+                   </div>
+                   {hrtfCompareId !== settings.hrtfId && (
+                     <button onClick={() => selectHrtf(hrtfCompareId)} className="w-full flex items-center justify-between py-4 px-8 rounded-2xl bg-white/5 border border-white/5 text-slate-400 hover:bg-white/10 transition-all">
+                       <span className="text-[10px] font-black uppercase tracking-widest">A/B Compare</span>
+                       <span className="text-[10px] font-black uppercase tracking-widest text-blue-400">{hrtfName(hrtfCompareId)}</span>
+                     </button>
+                   )}
+                 </div>
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Room Correction</h4>
+                   <div className="flex gap-2">
+                     <select value={settings.calibrationId ?? ''} onChange={e => setSettings(p => ({ ...p, calibrationId: e.target.value || null }))}
+                             className="flex-1 bg-white/5 border border-white/5 rounded-xl px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-300 outline-none">
+                       <option value="">Off</option>
+                       {calibrations.map(c => <option key={c.id} value={c.id}>{c.name} ({c.eqBands.length} bands)</option>)}
+                     </select>
+                     <button onClick={startCalibration} className="px-4 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 transition-all">Measure</button>
+                     {settings.calibrationId && (
+                       <button onClick={deleteCalibration} className="px-4 rounded-xl border border-white/5 bg-white/5 text-slate-500 font-black text-[9px] uppercase tracking-widest hover:bg-red-500/10 hover:text-red-400 transition-all">Delete</button>
+                     )}
+                   </div>
+                 </div>
+
+                 <div className="space-y-8 pt-8 border-t border-white/5">
+                   <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Bass Management</h4>
                    <ControlGroup label="LFE Crossover" value={settings.lfeCrossover} min={40} max={250} step={5} onChange={(v: any) => setSettings(p => ({...p, lfeCrossover: v}))} suffix="Hz" />
+                   <div className="grid grid-cols-2 gap-3">
+                     {CROSSOVER_SLOPES.map(slope => (
+                       <button key={slope}
+                               onClick={() => updateBassManagement({ slope })}
+                               className={`py-4 rounded-xl border font-black text-[9px] uppercase tracking-widest transition-all ${settings.bassManagement.slope === slope ? 'bg-blue-600 text-white border-blue-500 shadow-xl' : 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10'}`}>
+                         {slope} dB/Oct
+                       </button>
+                     ))}
+                   </div>
+                   <ControlGroup label="LFE Level" value={settings.bassManagement.lfeGain} min={-20} max={10} step={0.5} onChange={(v: any) => updateBassManagement({ lfeGain: v })} suffix="dB" decimals={1} />
+                   <ControlGroup label="Subwoofer Phase" value={settings.bassManagement.lfePhase} min={0} max={180} step={5} onChange={(v: any) => updateBassManagement({ lfePhase: v })} suffix="°" />
                  </div>
 
                  <ToggleSwitch label="Theater Mode" enabled={settings.isTheaterMode} onToggle={() => setSettings(p => ({...p, isTheaterMode: !p.isTheaterMode}))} />
                  <ToggleSwitch label="HD Audio (Hi-Res)" enabled={settings.isHdAudioEnabled} onToggle={() => setSettings(p => ({...p, isHdAudioEnabled: !p.isHdAudioEnabled}))} />
+                 <ToggleSwitch label="Head Tracking" enabled={settings.isHeadTrackingEnabled} onToggle={() => setSettings(p => ({...p, isHeadTrackingEnabled: !p.isHeadTrackingEnabled}))} />
+                 {settings.isHeadTrackingEnabled && (
+                   <button onClick={recenterHead} className="w-full flex items-center justify-between py-5 px-8 rounded-2xl bg-blue-600/10 border border-blue-500/20 text-blue-400 hover:bg-blue-600/20 transition-all">
+                     <span className="text-[10px] font-black uppercase tracking-widest">Recenter Head</span>
+                     <span className="text-[11px] font-mono font-black">{Math.round(headRotation)}°</span>
+                   </button>
+                 )}
               </section>
            </div>
         </div>
       </div>
+
+      {isCalibrating && <CalibrationWizard onClose={() => setIsCalibrating(false)} onSaved={saveCalibration} />}
+      {smartEditor && <SmartPlaylistEditor playlist={smartEditor.playlist} onClose={() => setSmartEditor(null)} onSave={saveSmartPlaylist} />}
+      {pendingRestore && <RestoreDialog fileName={pendingRestore.name} onClose={() => setPendingRestore(null)} onRestore={mode => restoreVault(pendingRestore, mode)} />}
     </div>
   );
 
@@ -803,16 +1805,39 @@ const App: React.FC = () => {
   }
 };
 
-const ControlGroup = ({ label, value, min, max, step, onChange, suffix, displayMult = 1 }: any) => (
+const ControlGroup = ({ label, value, min, max, step, onChange, suffix, displayMult = 1, decimals = 0 }: any) => (
   <div className="space-y-4">
     <div className="flex justify-between items-center">
       <label className="text-[10px] font-black uppercase tracking-widest text-slate-500">{label}</label>
-      <span className="text-[11px] font-mono text-blue-400 font-black">{Math.round(value * displayMult)}{suffix}</span>
+      <span className="text-[11px] font-mono text-blue-400 font-black">{decimals ? (value * displayMult).toFixed(decimals) : Math.round(value * displayMult)}{suffix}</span>
     </div>
     <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className="w-full accent-blue-500 bg-white/5 h-[4px] rounded-full appearance-none cursor-pointer" />
   </div>
 );
 
+// Dialogue enhancer's speech detector, polled while the control is visible
+const SpeechActivityBar = () => {
+  const [activity, setActivity] = useState(0);
+  useEffect(() => {
+    const id = window.setInterval(() => setActivity(audioEngine.getSpeechActivity()), 100);
+    return () => window.clearInterval(id);
+  }, []);
+  return (
+    <div className="flex items-center gap-3">
+      <span className={`text-[8px] font-black uppercase tracking-widest shrink-0 ${activity > 0.5 ? 'text-green-400' : 'text-slate-600'}`}>Speech</span>
+      <div className="relative h-1 flex-1 bg-white/10 rounded-full overflow-hidden">
+        <div className="absolute inset-y-0 left-0 bg-green-500/70 transition-all duration-100" style={{ width: `${Math.round(activity * 100)}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+const PresetAction = ({ label, onClick, disabled = false }: any) => (
+  <button onClick={onClick} disabled={disabled} className="py-3 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-white/5 transition-all">
+    {label}
+  </button>
+);
+
 const ToggleSwitch = ({ label, enabled, onToggle }: any) => (
   <button onClick={onToggle} className="w-full flex items-center justify-between py-6 px-8 rounded-2xl bg-white/5 border border-white/5 hover:border-white/10 transition-all">
     <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{label}</span>
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { CalibrationProfile } from '../types';
+import { buildCalibrationProfile, MeasurementStatus, measureChannels } from '../services/roomCalibration';
+
+interface CalibrationWizardProps {
+  onClose: () => void;
+  onSaved: (profile: CalibrationProfile) => void;
+}
+
+// Playback is always stereo on this device, so the wizard measures two channels
+const CHANNEL_NAMES = ['Left', 'Right'];
+
+type Step =
+  | { kind: 'intro' }
+  | { kind: 'measuring'; status: MeasurementStatus | null }
+  | { kind: 'review'; profile: CalibrationProfile }
+  | { kind: 'error'; message: string };
+
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ onClose, onSaved }) => {
+  const [step, setStep] = useState<Step>({ kind: 'intro' });
+  const [name, setName] = useState('Listening Room');
+
+  const measure = async () => {
+    setStep({ kind: 'measuring', status: null });
+    try {
+      const measurements = await measureChannels(CHANNEL_NAMES.length, status => setStep({ kind: 'measuring', status }));
+      setStep({ kind: 'review', profile: buildCalibrationProfile(name.trim() || 'Listening Room', measurements) });
+    } catch (err) {
+      console.error("Room measurement failed", err);
+      setStep({ kind: 'error', message: (err as Error).message || 'Measurement failed' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/95" onClick={step.kind === 'measuring' ? undefined : onClose}></div>
+      <div className="relative w-full max-w-lg bg-black border border-white/10 rounded-[2.5rem] p-10 shadow-3xl space-y-8">
+        <h2 className="text-2xl font-black italic tracking-tighter uppercase text-white">Room <span className="text-blue-500">Calibration</span></h2>
+
+        {step.kind === 'intro' && (
+          <>
+            <p className="text-[11px] text-slate-400 leading-relaxed">
+              Place the microphone at your listening position and keep the room quiet. A three-second sweep plays from each speaker in turn; set the system volume to a comfortable level first.
+            </p>
+            <input value={name} onChange={e => setName(e.target.value)} placeholder="Profile name"
+                   className="w-full bg-white/5 border border-white/5 rounded-xl px-4 py-3 text-[11px] font-black uppercase tracking-widest text-slate-200 outline-none" />
+            <div className="flex gap-3">
+              <button onClick={onClose} className="flex-1 py-4 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 transition-all">Cancel</button>
+              <button onClick={measure} className="flex-1 py-4 rounded-xl bg-blue-600 text-white font-black text-[9px] uppercase tracking-widest hover:bg-blue-500 transition-all">Start Measurement</button>
+            </div>
+          </>
+        )}
+
+        {step.kind === 'measuring' && (
+          <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest text-slate-300">
+            <svg className="w-5 h-5 animate-spin text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"/></svg>
+            {!step.status ? 'Opening microphone...'
+              : step.status.phase === 'playing' ? `Sweeping ${CHANNEL_NAMES[step.status.channel]} speaker...`
+              : `Analyzing ${CHANNEL_NAMES[step.status.channel]} speaker...`}
+          </div>
+        )}
+
+        {step.kind === 'review' && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              {step.profile.channels.map((channel, i) => (
+                <div key={i} className="p-4 rounded-xl bg-white/5 border border-white/5 space-y-1">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-blue-400">{CHANNEL_NAMES[i]}</span>
+                  <div className="text-[10px] font-mono text-slate-300">Delay {channel.delay.toFixed(2)} ms</div>
+                  <div className="text-[10px] font-mono text-slate-300">Trim {channel.trim.toFixed(1)} dB</div>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Correction EQ</span>
+              {step.profile.eqBands.length === 0 && <p className="text-[10px] font-mono text-slate-400">Response is already within 1 dB</p>}
+              {step.profile.eqBands.map(band => (
+                <div key={band.id} className="flex justify-between text-[10px] font-mono text-slate-300">
+                  <span>{band.frequency} Hz</span>
+                  <span>{band.gain > 0 ? '+' : ''}{band.gain.toFixed(1)} dB</span>
+                  <span>Q {band.q.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button onClick={() => setStep({ kind: 'intro' })} className="flex-1 py-4 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 transition-all">Measure Again</button>
+              <button onClick={() => onSaved(step.profile)} className="flex-1 py-4 rounded-xl bg-blue-600 text-white font-black text-[9px] uppercase tracking-widest hover:bg-blue-500 transition-all">Save &amp; Apply</button>
+            </div>
+          </>
+        )}
+
+        {step.kind === 'error' && (
+          <>
+            <p className="text-[11px] text-red-400">{step.message}</p>
+            <div className="flex gap-3">
+              <button onClick={onClose} className="flex-1 py-4 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 transition-all">Close</button>
+              <button onClick={() => setStep({ kind: 'intro' })} className="flex-1 py-4 rounded-xl bg-blue-600 text-white font-black text-[9px] uppercase tracking-widest hover:bg-blue-500 transition-all">Try Again</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
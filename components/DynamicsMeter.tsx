@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { audioEngine } from '../services/audioEngine';
+import { DYNAMICS_BAND_LABELS } from '../services/multibandDynamics';
+
+interface DynamicsMeterProps {
+  selected: number;
+  onSelect: (band: number) => void;
+}
+
+const POLL_MS = 50;
+const GR_RANGE = 18; // dB at the bottom of each bar
+
+// Per-band gain reduction; each bar doubles as the band selector
+export const DynamicsMeter: React.FC<DynamicsMeterProps> = ({ selected, onSelect }) => {
+  const [reduction, setReduction] = useState<number[]>([]);
+
+  useEffect(() => {
+    const id = window.setInterval(() => setReduction(audioEngine.getDynamicsReduction()), POLL_MS);
+    return () => window.clearInterval(id);
+  }, []);
+
+  return (
+    <div className="grid grid-cols-4 gap-3">
+      {DYNAMICS_BAND_LABELS.map((label, i) => {
+        const gr = reduction[i] ?? 0;
+        return (
+          <button key={label} onClick={() => onSelect(i)}
+                  className={`flex flex-col items-center gap-2 py-3 rounded-xl border transition-all ${selected === i ? 'bg-blue-600/20 border-blue-500/40' : 'bg-white/5 border-white/5 hover:bg-white/10'}`}>
+            <div className="relative w-2 h-16 bg-white/10 rounded-full overflow-hidden">
+              <div className="absolute inset-x-0 top-0 bg-red-500/70 transition-all duration-75" style={{ height: `${Math.min(100, (-gr / GR_RANGE) * 100)}%` }}></div>
+            </div>
+            <span className="text-[10px] font-mono font-bold text-slate-400">{gr < -0.05 ? gr.toFixed(1) : '0.0'}</span>
+            <span className={`text-[8px] font-black uppercase tracking-widest ${selected === i ? 'text-blue-400' : 'text-slate-500'}`}>{label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
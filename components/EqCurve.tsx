@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EQBand, EQBandType } from '../types';
+import { audioEngine } from '../services/audioEngine';
+import { EQ_MAX_FREQUENCY, EQ_MIN_FREQUENCY, MAX_EQ_BANDS } from '../services/parametricEq';
+
+interface EqCurveProps {
+  bands: EQBand[];
+  onChange: (bands: EQBand[]) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const GAIN_RANGE = 18;
+const Q_RANGE = [0.1, 18];
+const HANDLE_RADIUS = 7;
+const RESPONSE_POINTS = 256;
+
+const BAND_TYPES: { type: EQBandType; label: string }[] = [
+  { type: 'peaking', label: 'Bell' },
+  { type: 'lowshelf', label: 'Low Shelf' },
+  { type: 'highshelf', label: 'High Shelf' },
+  { type: 'highpass', label: 'High Pass' },
+  { type: 'lowpass', label: 'Low Pass' },
+  { type: 'notch', label: 'Notch' },
+];
+
+// Pass and notch filters have no gain, so their handle only moves sideways
+const hasGain = (type: EQBandType) => type === 'peaking' || type === 'lowshelf' || type === 'highshelf';
+
+const LOG_SPAN = Math.log10(EQ_MAX_FREQUENCY / EQ_MIN_FREQUENCY);
+const freqToX = (f: number) => (Math.log10(f / EQ_MIN_FREQUENCY) / LOG_SPAN) * WIDTH;
+const xToFreq = (x: number) => EQ_MIN_FREQUENCY * Math.pow(10, (x / WIDTH) * LOG_SPAN);
+const gainToY = (g: number) => HEIGHT / 2 - (g / GAIN_RANGE) * (HEIGHT / 2);
+const yToGain = (y: number) => ((HEIGHT / 2 - y) / (HEIGHT / 2)) * GAIN_RANGE;
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+const formatFrequency = (f: number) => f >= 1000 ? `${(f / 1000).toFixed(f >= 10000 ? 1 : 2)}k` : `${Math.round(f)}`;
+
+export const EqCurve: React.FC<EqCurveProps> = ({ bands, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(bands[0]?.id ?? null);
+  const dragRef = useRef<string | null>(null);
+  const bandsRef = useRef(bands);
+  bandsRef.current = bands;
+
+  const frequencies = useMemo(
+    () => Float32Array.from({ length: RESPONSE_POINTS }, (_, i) => xToFreq((i / (RESPONSE_POINTS - 1)) * WIDTH)),
+    []
+  );
+
+  const selected = bands.find(b => b.id === selectedId) ?? null;
+
+  const updateBand = (id: string, patch: Partial<EQBand>) => {
+    onChange(bandsRef.current.map(b => b.id === id ? { ...b, ...patch } : b));
+  };
+
+  // Redrawn every frame because the engine applies new bands after this component renders
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    let animationId: number;
+
+    const render = () => {
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
+      ctx.lineWidth = 1;
+      [50, 100, 200, 500, 1000, 2000, 5000, 10000].forEach(f => {
+        ctx.beginPath();
+        ctx.moveTo(freqToX(f), 0);
+        ctx.lineTo(freqToX(f), HEIGHT);
+        ctx.stroke();
+      });
+      [-12, -6, 0, 6, 12].forEach(g => {
+        ctx.strokeStyle = g === 0 ? 'rgba(255, 255, 255, 0.15)' : 'rgba(255, 255, 255, 0.05)';
+        ctx.beginPath();
+        ctx.moveTo(0, gainToY(g));
+        ctx.lineTo(WIDTH, gainToY(g));
+        ctx.stroke();
+      });
+
+      const response = audioEngine.getEqResponse(frequencies);
+      if (response) {
+        ctx.beginPath();
+        response.forEach((db, i) => {
+          const x = (i / (RESPONSE_POINTS - 1)) * WIDTH;
+          const y = gainToY(clamp(db, -GAIN_RANGE * 1.5, GAIN_RANGE * 1.5));
+          if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+        });
+        ctx.strokeStyle = '#60a5fa';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.lineTo(WIDTH, HEIGHT / 2);
+        ctx.lineTo(0, HEIGHT / 2);
+        ctx.fillStyle = 'rgba(59, 130, 246, 0.08)';
+        ctx.fill();
+      }
+
+      bandsRef.current.forEach(band => {
+        const x = freqToX(band.frequency);
+        const y = gainToY(hasGain(band.type) ? band.gain : 0);
+        ctx.beginPath();
+        ctx.arc(x, y, HANDLE_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = !band.enabled ? 'rgba(100, 116, 139, 0.6)' : band.id === dragRef.current ? '#ffffff' : '#3b82f6';
+        ctx.fill();
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = band.id === selectedId ? 2 : 0;
+        if (band.id === selectedId) ctx.stroke();
+      });
+
+      animationId = requestAnimationFrame(render);
+    };
+
+    render();
+    return () => cancelAnimationFrame(animationId);
+  }, [frequencies, selectedId]);
+
+  // Wheel adjusts Q; attached natively so the page doesn't scroll
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      const band = bandsRef.current.find(b => b.id === selectedId);
+      if (!band) return;
+      e.preventDefault();
+      const q = clamp(band.q * Math.pow(1.1, -Math.sign(e.deltaY)), Q_RANGE[0], Q_RANGE[1]);
+      updateBand(band.id, { q });
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [selectedId, onChange]);
+
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * HEIGHT,
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toCanvas(e);
+    let nearest: EQBand | null = null;
+    let nearestDist = HANDLE_RADIUS * 3;
+    bands.forEach(band => {
+      const dist = Math.hypot(freqToX(band.frequency) - x, gainToY(hasGain(band.type) ? band.gain : 0) - y);
+      if (dist < nearestDist) {
+        nearest = band;
+        nearestDist = dist;
+      }
+    });
+    if (!nearest) return;
+    const id = (nearest as EQBand).id;
+    setSelectedId(id);
+    dragRef.current = id;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const id = dragRef.current;
+    const band = bands.find(b => b.id === id);
+    if (!band) return;
+    const { x, y } = toCanvas(e);
+    const frequency = Math.round(clamp(xToFreq(x), EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY));
+    const gain = hasGain(band.type) ? Math.round(clamp(yToGain(y), -GAIN_RANGE, GAIN_RANGE) * 10) / 10 : band.gain;
+    updateBand(band.id, { frequency, gain });
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const addBand = () => {
+    if (bands.length >= MAX_EQ_BANDS) return;
+    const band: EQBand = { id: `eq_${Date.now()}`, type: 'peaking', frequency: 1000, gain: 0, q: 1, enabled: true };
+    onChange([...bands, band]);
+    setSelectedId(band.id);
+  };
+
+  const removeBand = (id: string) => {
+    const remaining = bands.filter(b => b.id !== id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="w-full h-40 bg-black/40 rounded-2xl overflow-hidden border border-white/5">
+        <canvas ref={canvasRef} width={WIDTH} height={HEIGHT}
+                onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp}
+                className="w-full h-full cursor-crosshair touch-none" />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {bands.map((band, i) => (
+          <button key={band.id} onClick={() => setSelectedId(band.id)}
+                  className={`w-10 py-2 rounded-lg border font-black text-[10px] transition-all ${band.id === selectedId ? 'bg-blue-600 text-white border-blue-500' : band.enabled ? 'bg-white/5 border-white/5 text-slate-400 hover:bg-white/10' : 'bg-white/5 border-white/5 text-slate-700'}`}>
+            {i + 1}
+          </button>
+        ))}
+        <button onClick={addBand} disabled={bands.length >= MAX_EQ_BANDS}
+                className="px-4 py-2 rounded-lg border border-white/5 bg-white/5 text-slate-400 font-black text-[10px] uppercase tracking-widest hover:bg-white/10 disabled:opacity-30 transition-all">
+          + Band
+        </button>
+      </div>
+
+      {selected && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {BAND_TYPES.map(({ type, label }) => (
+              <button key={type} onClick={() => updateBand(selected.id, { type })}
+                      className={`py-3 rounded-xl border font-black text-[9px] uppercase tracking-widest transition-all ${selected.type === type ? 'bg-blue-600 text-white border-blue-500' : 'bg-white/5 border-white/5 text-slate-500 hover:bg-white/10'}`}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between items-center text-[11px] font-mono font-black text-blue-400">
+            <span>{formatFrequency(selected.frequency)}Hz</span>
+            <span>{hasGain(selected.type) ? `${selected.gain > 0 ? '+' : ''}${selected.gain.toFixed(1)}db` : '--'}</span>
+            <span>Q {selected.q.toFixed(2)}</span>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => updateBand(selected.id, { enabled: !selected.enabled })}
+                    className={`py-3 rounded-xl border font-black text-[9px] uppercase tracking-widest transition-all ${selected.enabled ? 'bg-white/5 border-white/5 text-slate-400 hover:bg-white/10' : 'bg-amber-500/10 border-amber-500/20 text-amber-400'}`}>
+              {selected.enabled ? 'Bypass' : 'Bypassed'}
+            </button>
+            <button onClick={() => removeBand(selected.id)}
+                    className="py-3 rounded-xl border border-white/5 bg-white/5 text-slate-500 font-black text-[9px] uppercase tracking-widest hover:bg-red-500/10 hover:text-red-400 transition-all">
+              Remove
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
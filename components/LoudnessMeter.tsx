@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { audioEngine } from '../services/audioEngine';
+import { LoudnessReading } from '../services/dsp/loudness';
+
+interface LoudnessMeterProps {
+  target: number; // LUFS
+}
+
+// The worklet reports every 100 ms, so there is nothing to gain from polling faster
+const POLL_MS = 100;
+const SCALE_MIN = -40;
+const SCALE_MAX = 0;
+const GR_RANGE = 12; // dB shown on the gain-reduction bar
+
+const formatLufs = (value: number) => Number.isFinite(value) ? value.toFixed(1) : '—';
+const toPercent = (value: number) =>
+  Number.isFinite(value) ? Math.max(0, Math.min(100, ((value - SCALE_MIN) / (SCALE_MAX - SCALE_MIN)) * 100)) : 0;
+
+export const LoudnessMeter: React.FC<LoudnessMeterProps> = ({ target }) => {
+  const [reading, setReading] = useState<LoudnessReading | null>(null);
+  const [gainReduction, setGainReduction] = useState(0);
+
+  useEffect(() => {
+    const id = window.setInterval(() => {
+      setReading(audioEngine.getLoudness());
+      setGainReduction(audioEngine.getGainReduction());
+    }, POLL_MS);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const cells: { label: string; value: string; unit: string; warn?: boolean }[] = [
+    { label: 'Momentary', value: formatLufs(reading?.momentary ?? -Infinity), unit: 'LUFS' },
+    { label: 'Short-Term', value: formatLufs(reading?.shortTerm ?? -Infinity), unit: 'LUFS' },
+    { label: 'Integrated', value: formatLufs(reading?.integrated ?? -Infinity), unit: 'LUFS' },
+    { label: 'Range', value: reading ? reading.range.toFixed(1) : '—', unit: 'LU' },
+    { label: 'True Peak', value: formatLufs(reading?.truePeak ?? -Infinity), unit: 'dBTP', warn: (reading?.truePeak ?? -Infinity) > -1 },
+  ];
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="relative h-2 w-full bg-white/10 rounded-full overflow-hidden">
+        <div className="absolute inset-y-0 left-0 bg-blue-600/40 transition-all duration-100" style={{ width: `${toPercent(reading?.shortTerm ?? -Infinity)}%` }}></div>
+        <div className="absolute inset-y-0 left-0 bg-blue-400 transition-all duration-100" style={{ width: `${toPercent(reading?.momentary ?? -Infinity)}%`, opacity: 0.6 }}></div>
+        <div className="absolute inset-y-0 w-0.5 bg-amber-400" style={{ left: `${toPercent(target)}%` }} title={`Target ${target} LUFS`}></div>
+      </div>
+      <div className="flex items-center gap-3">
+        <span className="text-[8px] font-black uppercase tracking-widest text-slate-500 shrink-0">Limiter GR</span>
+        <div className="relative h-1.5 flex-1 bg-white/10 rounded-full overflow-hidden">
+          <div className="absolute inset-y-0 right-0 bg-red-500/70 transition-all duration-100" style={{ width: `${Math.min(100, (-gainReduction / GR_RANGE) * 100)}%` }}></div>
+        </div>
+        <span className="text-[10px] font-mono font-bold text-slate-400 w-12 text-right">{gainReduction < -0.05 ? gainReduction.toFixed(1) : '0.0'} dB</span>
+      </div>
+      <div className="grid grid-cols-5 gap-2">
+        {cells.map(cell => (
+          <div key={cell.label} className="flex flex-col items-center gap-1">
+            <span className="text-[8px] font-black uppercase tracking-widest text-slate-500">{cell.label}</span>
+            <span className={`text-sm font-mono font-bold ${cell.warn ? 'text-red-400' : 'text-white'}`}>{cell.value}</span>
+            <span className="text-[8px] font-bold uppercase tracking-widest text-slate-600">{cell.unit}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { RestoreMode } from '../services/vaultBackup';
+
+interface RestoreDialogProps {
+  fileName: string;
+  onClose: () => void;
+  onRestore: (mode: RestoreMode) => void;
+}
+
+const choiceClass = 'w-full text-left px-6 py-5 rounded-2xl border transition-all';
+
+export const RestoreDialog: React.FC<RestoreDialogProps> = ({ fileName, onClose, onRestore }) => (
+  <div className="fixed inset-0 z-[300] flex items-center justify-center p-6">
+    <div className="absolute inset-0 bg-black/95" onClick={onClose}></div>
+    <div className="relative w-full max-w-lg bg-black border border-white/10 rounded-[2.5rem] p-10 shadow-3xl space-y-8">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-black italic tracking-tighter uppercase text-white">Restore <span className="text-blue-500">Vault</span></h2>
+        <p className="text-[9px] font-bold uppercase tracking-widest text-slate-600 truncate">{fileName}</p>
+      </div>
+
+      <div className="space-y-3">
+        <button onClick={() => onRestore('merge')} className={`${choiceClass} border-blue-500/20 bg-blue-600/10 hover:bg-blue-600/20`}>
+          <span className="block text-[10px] font-black uppercase tracking-widest text-blue-400">Merge</span>
+          <span className="block mt-1 text-[9px] font-bold uppercase tracking-widest text-slate-500">Add what the Vault is missing; songs already in it are skipped</span>
+        </button>
+        <button onClick={() => onRestore('replace')} className={`${choiceClass} border-red-500/20 bg-red-600/10 hover:bg-red-600/20`}>
+          <span className="block text-[10px] font-black uppercase tracking-widest text-red-400">Replace</span>
+          <span className="block mt-1 text-[9px] font-bold uppercase tracking-widest text-slate-500">Empty the Vault and take the backup's rack; presets are merged either way</span>
+        </button>
+      </div>
+
+      <button onClick={onClose} className="w-full py-4 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 transition-all">Cancel</button>
+    </div>
+  </div>
+);
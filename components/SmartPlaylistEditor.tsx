@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { SmartRule, VaultPlaylist } from '../types';
+import { SMART_PLAYLIST_FORMATS } from '../services/vaultDb';
+
+interface SmartPlaylistEditorProps {
+  playlist?: VaultPlaylist; // edited in place when given
+  onClose: () => void;
+  onSave: (name: string, rules: SmartRule[]) => void;
+}
+
+type RuleDrafts = {
+  addedWithin: { on: boolean; days: number };
+  format: { on: boolean; format: string };
+  longerThan: { on: boolean; minutes: number };
+  hasProfile: { on: boolean };
+};
+
+function draftsFrom(rules: SmartRule[]): RuleDrafts {
+  const find = <K extends SmartRule['kind']>(kind: K) => rules.find(r => r.kind === kind) as Extract<SmartRule, { kind: K }> | undefined;
+  const added = find('addedWithin');
+  const format = find('format');
+  const longer = find('longerThan');
+  return {
+    addedWithin: { on: !!added, days: added?.days ?? 30 },
+    format: { on: !!format, format: format?.format ?? 'flac' },
+    longerThan: { on: !!longer, minutes: longer?.minutes ?? 5 },
+    hasProfile: { on: !!find('hasProfile') },
+  };
+}
+
+function rulesFrom(drafts: RuleDrafts): SmartRule[] {
+  const rules: SmartRule[] = [];
+  if (drafts.addedWithin.on) rules.push({ kind: 'addedWithin', days: drafts.addedWithin.days });
+  if (drafts.format.on) rules.push({ kind: 'format', format: drafts.format.format });
+  if (drafts.longerThan.on) rules.push({ kind: 'longerThan', minutes: drafts.longerThan.minutes });
+  if (drafts.hasProfile.on) rules.push({ kind: 'hasProfile' });
+  return rules;
+}
+
+const inputClass = 'w-20 bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-[10px] font-mono font-bold text-slate-200 outline-none';
+
+export const SmartPlaylistEditor: React.FC<SmartPlaylistEditorProps> = ({ playlist, onClose, onSave }) => {
+  const [name, setName] = useState(playlist?.name ?? 'Smart Playlist');
+  const [drafts, setDrafts] = useState<RuleDrafts>(() => draftsFrom(playlist?.rules ?? []));
+  const rules = rulesFrom(drafts);
+
+  const update = <K extends keyof RuleDrafts>(kind: K, patch: Partial<RuleDrafts[K]>) =>
+    setDrafts(d => ({ ...d, [kind]: { ...d[kind], ...patch } }));
+
+  const Row = ({ kind, label, children }: { kind: keyof RuleDrafts, label: string, children?: React.ReactNode }) => (
+    <div className="flex items-center gap-4">
+      <button onClick={() => update(kind, { on: !drafts[kind].on })}
+              className={`w-5 h-5 shrink-0 rounded-md border flex items-center justify-center transition-all ${drafts[kind].on ? 'bg-blue-600 border-blue-500 text-white' : 'border-white/20 bg-black/40'}`}>
+        {drafts[kind].on && <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7"/></svg>}
+      </button>
+      <span className="flex-1 text-[10px] font-black uppercase tracking-widest text-slate-400">{label}</span>
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/95" onClick={onClose}></div>
+      <div className="relative w-full max-w-lg bg-black border border-white/10 rounded-[2.5rem] p-10 shadow-3xl space-y-8">
+        <h2 className="text-2xl font-black italic tracking-tighter uppercase text-white">Smart <span className="text-blue-500">Playlist</span></h2>
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="Playlist name"
+               className="w-full bg-white/5 border border-white/5 rounded-xl px-4 py-3 text-[11px] font-black uppercase tracking-widest text-slate-200 outline-none" />
+
+        <div className="space-y-4">
+          <p className="text-[9px] font-bold uppercase tracking-widest text-slate-600">Songs matching every checked rule</p>
+          {Row({ kind: 'addedWithin', label: 'Added in the last', children: (
+            <>
+              <input type="number" min={1} value={drafts.addedWithin.days} onChange={e => update('addedWithin', { days: Math.max(1, Number(e.target.value) || 1) })} className={inputClass} />
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 w-10">Days</span>
+            </>
+          ) })}
+          {Row({ kind: 'format', label: 'Format is', children: (
+            <select value={drafts.format.format} onChange={e => update('format', { format: e.target.value })}
+                    className="w-32 bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-200 outline-none">
+              {Object.keys(SMART_PLAYLIST_FORMATS).map(format => <option key={format} value={format}>{format}</option>)}
+            </select>
+          ) })}
+          {Row({ kind: 'longerThan', label: 'Longer than', children: (
+            <>
+              <input type="number" min={0} step={0.5} value={drafts.longerThan.minutes} onChange={e => update('longerThan', { minutes: Math.max(0, Number(e.target.value) || 0) })} className={inputClass} />
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 w-10">Min</span>
+            </>
+          ) })}
+          {Row({ kind: 'hasProfile', label: 'Has a pinned DSP profile' })}
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={onClose} className="flex-1 py-4 rounded-xl border border-white/5 bg-white/5 text-slate-400 font-black text-[9px] uppercase tracking-widest hover:bg-white/10 transition-all">Cancel</button>
+          <button onClick={() => onSave(name.trim() || 'Smart Playlist', rules)} disabled={rules.length === 0}
+                  className="flex-1 py-4 rounded-xl bg-blue-600 text-white font-black text-[9px] uppercase tracking-widest hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,24 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { SpeakerPosition } from '../types';
+import { SpatialPreset, SpeakerPosition } from '../types';
 
 interface SpatialGridProps {
   onToggleSpeaker: (id: string) => void;
   onSpeakerMove: (id: string, x: number, z: number) => void;
   speakers: SpeakerPosition[];
+  listenerPos?: SpatialPreset['listenerPos'];
+  onListenerMove?: (x: number, y: number) => void;
 }
 
+// Drag id used for the listener so it can share the speaker drag handling
+const LISTENER_ID = '__listener';
+
 export const SpatialGrid: React.FC<SpatialGridProps> = ({ 
   onToggleSpeaker, 
   onSpeakerMove, 
-  speakers 
+  speakers,
+  listenerPos = { x: 0, y: 0 },
+  onListenerMove
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [draggingId, setDraggingId] = useState<string | null>(null);
@@ -27,7 +34,10 @@ export const SpatialGrid: React.FC<SpatialGridProps> = ({
       const rect = containerRef.current.getBoundingClientRect();
       const x = ((clientX - rect.left) / rect.width) * 4 - 2;
       const z = ((clientY - rect.top) / rect.height) * -4 + 2;
-      onSpeakerMove(draggingId, Math.max(-2, Math.min(2, x)), Math.max(-2, Math.min(2, z)));
+      const clampedX = Math.max(-2, Math.min(2, x));
+      const clampedZ = Math.max(-2, Math.min(2, z));
+      if (draggingId === LISTENER_ID) onListenerMove?.(clampedX, clampedZ);
+      else onSpeakerMove(draggingId, clampedX, clampedZ);
     };
 
     const handleMouseMove = (e: MouseEvent) => handleMove(e.clientX, e.clientY);
@@ -52,7 +62,7 @@ export const SpatialGrid: React.FC<SpatialGridProps> = ({
       window.removeEventListener('touchmove', handleTouchMove);
       window.removeEventListener('touchend', handleEnd);
     };
-  }, [draggingId, onSpeakerMove]);
+  }, [draggingId, onSpeakerMove, onListenerMove]);
 
   return (
     <div 
@@ -93,8 +103,17 @@ export const SpatialGrid: React.FC<SpatialGridProps> = ({
         </div>
       ))}
 
-      {/* Listener (Center) */}
-      <div className="absolute w-8 h-8 flex items-center justify-center pointer-events-none">
+      {/* Listener */}
+      <div 
+        className={`absolute w-8 h-8 flex items-center justify-center ${onListenerMove ? 'cursor-grab active:cursor-grabbing z-20' : 'pointer-events-none'}`}
+        style={{
+          left: `${(listenerPos.x + 2) * 25}%`,
+          top: `${(listenerPos.y * -1 + 2) * 25}%`,
+          transform: 'translate(-50%, -50%)',
+        }}
+        onMouseDown={(e) => onListenerMove && handleDragStart(LISTENER_ID, e)}
+        onTouchStart={(e) => onListenerMove && handleDragStart(LISTENER_ID, e)}
+      >
         <div className="w-2.5 h-2.5 rounded-full bg-white shadow-[0_0_15px_white] animate-pulse" />
       </div>
     </div>
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { songTitle, VaultSong } from '../services/vaultDb';
+
+interface UpNextPanelProps {
+  // One entry per queued id; songs missing from the Vault are undefined
+  songs: (VaultSong | undefined)[];
+  onPlay: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+  onClear: () => void;
+}
+
+// Up Next list; rows are dragged to reorder and clicked to jump ahead
+export const UpNextPanel: React.FC<UpNextPanelProps> = ({ songs, onPlay, onMove, onRemove, onClear }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">Up Next</h4>
+        {songs.length > 0 && (
+          <button onClick={onClear} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 transition-all">Clear</button>
+        )}
+      </div>
+      {songs.length === 0 ? (
+        <p className="text-[9px] font-bold uppercase tracking-widest text-slate-600">Queue is empty</p>
+      ) : (
+        <div className="space-y-1 max-h-72 overflow-y-auto custom-scroll">
+          {songs.map((song, i) => song && (
+            <div key={`${song.id}_${i}`}
+                 draggable
+                 onDragStart={() => setDragIndex(i)}
+                 onDragOver={e => { e.preventDefault(); setDropIndex(i); }}
+                 onDrop={e => { e.preventDefault(); if (dragIndex !== null && dragIndex !== i) onMove(dragIndex, i); endDrag(); }}
+                 onDragEnd={endDrag}
+                 onClick={() => onPlay(i)}
+                 className={`group flex items-center gap-4 px-4 py-3 rounded-xl border cursor-pointer transition-all ${dropIndex === i && dragIndex !== i ? 'border-blue-500/50 bg-blue-600/10' : 'border-transparent bg-white/5 hover:bg-white/10'} ${dragIndex === i ? 'opacity-40' : ''}`}>
+              <span className="text-slate-600 cursor-grab">
+                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M4 8h16v2H4zm0 6h16v2H4z"/></svg>
+              </span>
+              <span className="text-[9px] font-mono text-slate-600 w-5">{i + 1}</span>
+              <span className="flex-1 text-[10px] font-black uppercase tracking-widest text-slate-300 truncate">{songTitle(song)}</span>
+              <button onClick={e => { e.stopPropagation(); onRemove(i); }}
+                      className="p-1.5 rounded-lg text-slate-600 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all">
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 
-import { SpeakerPosition } from './types';
+import { AudioPreset, AudioSettings, BassManagementSettings, DynamicsBand, DynamicsSettings, EQBand, LimiterSettings, PresetParams, ReverbRoom, RoomModel, SpeakerPosition } from './types';
 
 export const SPEAKER_LAYOUTS: Record<string, SpeakerPosition[]> = {
   'Stereo 2.0': [
@@ -51,12 +51,150 @@ export const SPEAKER_LAYOUTS: Record<string, SpeakerPosition[]> = {
 
 export const DEFAULT_SPEAKERS = SPEAKER_LAYOUTS['Atmos 7.1.4'];
 
-export const AUDIO_PRESETS = [
-  'Pure Direct',
-  'IMAX Enhanced',
-  'THX Reference',
-  'Dolby Atmos Music',
-  'Concert Auditorium',
-  'Small Studio',
-  'Vintage Cinema'
+export const DEFAULT_EQ_BANDS: EQBand[] = [
+  { id: 'eq_low', type: 'lowshelf', frequency: 100, gain: 0, q: 0.7, enabled: true },
+  { id: 'eq_lowmid', type: 'peaking', frequency: 400, gain: 0, q: 1.0, enabled: true },
+  { id: 'eq_highmid', type: 'peaking', frequency: 2500, gain: 0, q: 1.0, enabled: true },
+  { id: 'eq_high', type: 'highshelf', frequency: 8000, gain: 0, q: 0.7, enabled: true },
 ];
+
+export const DEFAULT_REVERB_ROOM: ReverbRoom = {
+  irId: null,
+  duration: 1.2,
+  decay: 3.0,
+  seed: 1,
+  preDelay: 0,
+  trimStart: 0,
+  trimLength: 0,
+  lowCut: 20,
+  highCut: 20000,
+};
+
+export const DEFAULT_ROOM_MODEL: RoomModel = {
+  width: 6,
+  depth: 8,
+  height: 3,
+  absorption: 0.35,
+  listenerPos: { x: 0, y: 0 },
+};
+
+export const DEFAULT_LIMITER: LimiterSettings = {
+  ceiling: -1,
+  release: 100,
+  lookahead: 5,
+};
+
+export const DEFAULT_BASS_MANAGEMENT: BassManagementSettings = {
+  slope: 24,
+  lfeGain: 0,
+  lfePhase: 0,
+};
+
+// Multiband settings for a DRC amount (0-1). Low bands get slower time
+// constants; in dialogue priority the 1-4 kHz band is barely touched and lifted
+// slightly while everything around it is held down harder.
+export function drcDynamics(drc: number, dialoguePriority: boolean): DynamicsSettings {
+  const band = (depth: number, ratio: number, attack: number, release: number, makeup = 0): DynamicsBand => ({
+    threshold: Math.round(-6 - drc * depth),
+    ratio: Math.round((1 + drc * ratio) * 10) / 10,
+    attack,
+    release,
+    makeup: Math.round(drc * makeup * 10) / 10,
+  });
+  const bands = dialoguePriority
+    ? [band(30, 7, 30, 250), band(28, 6, 15, 180), band(8, 1.5, 10, 150, 3), band(28, 6, 5, 100)]
+    : [band(26, 5, 30, 250), band(24, 4, 15, 180), band(24, 4, 10, 150), band(22, 4, 5, 100)];
+  return { dialoguePriority, bands };
+}
+
+const DIRECT_PARAMS: PresetParams = {
+  bass: 0,
+  treble: 0,
+  vocalClarity: 5,
+  reverbLevel: 0,
+  reverbRoom: DEFAULT_REVERB_ROOM,
+  reverbEngine: 'convolution',
+  roomModel: DEFAULT_ROOM_MODEL,
+  xCurve: 0,
+  isTheaterMode: false,
+  isHdAudioEnabled: false,
+  drc: 0.1,
+  dynamics: drcDynamics(0.1, false),
+  surroundLevel: 0.7,
+  heightLevel: 0.5,
+  lfeCrossover: 80,
+  centerSpread: 0.4,
+  upmixAlgorithm: 'spectral',
+  eqBands: DEFAULT_EQ_BANDS,
+  layout: 'Atmos 7.1.4',
+};
+
+const builtIn = (id: string, name: string, params: Partial<PresetParams>): AudioPreset => ({
+  id,
+  name,
+  builtIn: true,
+  params: { ...DIRECT_PARAMS, dynamics: drcDynamics(params.drc ?? DIRECT_PARAMS.drc, false), ...params },
+});
+
+export const BUILT_IN_PRESETS: AudioPreset[] = [
+  builtIn('pure-direct', 'Pure Direct', {}),
+  builtIn('imax-enhanced', 'IMAX Enhanced', {
+    bass: 8, treble: 2, vocalClarity: 6.5, reverbLevel: 0.25,
+    reverbRoom: { ...DEFAULT_REVERB_ROOM, duration: 2.5, decay: 1.5, preDelay: 20 }, drc: 0.3, layout: 'IMAX 12.0 (Sim)',
+  }),
+  builtIn('thx-reference', 'THX Reference', {
+    vocalClarity: 5.5, drc: 0, layout: 'Cinema 5.1',
+  }),
+  builtIn('atmos-music', 'Dolby Atmos Music', {
+    treble: 1, reverbLevel: 0.15, surroundLevel: 0.8, heightLevel: 0.8, centerSpread: 0.6,
+  }),
+  builtIn('concert-auditorium', 'Concert Auditorium', {
+    treble: 1, reverbLevel: 0.45, reverbRoom: { ...DEFAULT_REVERB_ROOM, duration: 3.5, decay: 2.0, preDelay: 35, highCut: 9000 }, surroundLevel: 0.9, centerSpread: 0.7,
+    reverbEngine: 'algorithmic', roomModel: { ...DEFAULT_ROOM_MODEL, width: 30, depth: 45, height: 15, absorption: 0.25, listenerPos: { x: 0, y: -0.5 } },
+  }),
+  builtIn('small-studio', 'Small Studio', {
+    reverbLevel: 0.15, reverbRoom: { ...DEFAULT_REVERB_ROOM, duration: 0.4, decay: 4.0, lowCut: 150 }, surroundLevel: 0.3, heightLevel: 0.2,
+    upmixAlgorithm: 'matrix', layout: 'Studio 2.1',
+  }),
+  builtIn('vintage-cinema', 'Vintage Cinema', {
+    vocalClarity: 7.5, xCurve: -4, drc: 0.4, dynamics: drcDynamics(0.4, true), surroundLevel: 0.5, layout: 'Cinema 5.1',
+    eqBands: [
+      { id: 'eq_rumble', type: 'highpass', frequency: 50, gain: 0, q: 0.7, enabled: true },
+      { id: 'eq_horn', type: 'peaking', frequency: 1800, gain: 2, q: 0.8, enabled: true },
+      { id: 'eq_rolloff', type: 'lowpass', frequency: 9000, gain: 0, q: 0.7, enabled: true },
+    ],
+  }),
+];
+
+export const DEFAULT_LAYOUT = 'Atmos 7.1.4';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volume: 1.8,
+  bass: 0,
+  treble: 2,
+  vocalClarity: 5,
+  spatiality: 0.8,
+  reverbLevel: 0,
+  reverbRoom: DEFAULT_REVERB_ROOM,
+  reverbEngine: 'convolution',
+  roomModel: DEFAULT_ROOM_MODEL,
+  xCurve: 0,
+  isAtmosEnabled: true, selectedPreset: 'pure-direct', isTheaterMode: false,
+  isHdAudioEnabled: false,
+  isHeadTrackingEnabled: false, isDolbyVisionEnabled: false, surroundLevel: 0.7,
+  heightLevel: 0.5, drc: 0.1, lfeCrossover: 80, centerSpread: 0.4,
+  bassManagement: DEFAULT_BASS_MANAGEMENT,
+  dynamics: drcDynamics(0.1, false),
+  upmixAlgorithm: 'spectral',
+  ambisonicOrder: 2,
+  hrtfId: null,
+  eqBands: DEFAULT_EQ_BANDS,
+  loudnessNormalization: false,
+  loudnessTarget: -14,
+  crossfade: 0,
+  limiter: DEFAULT_LIMITER,
+  calibrationId: null,
+  bitDepth: 16,
+  sampleRate: 48000,
+  exportMode: 'binaural'
+};
@@ -0,0 +1,173 @@
+import { ListenerOrientation, SpeakerPosition } from '../types';
+import { isLfeSpeaker, speakerDirection, SPATIAL_SCALE } from './speakerBed';
+import { ambisonicChannels, decoderMatrix, identityMatrix, multiplyMatrices, rotationMatrix, toWebAudio, virtualSpeakerDirections } from './dsp/ambisonics';
+
+// Where the bus goes: to headphones through virtual loudspeakers, to one
+// output channel per speaker of a layout, or out unchanged as AmbiX.
+export type AmbisonicDecode =
+  | { kind: 'binaural' }
+  | { kind: 'speakers'; speakers: SpeakerPosition[] }
+  | { kind: 'ambix' };
+
+interface MatrixStage {
+  input: AudioNode;
+  output: AudioNode;
+  setMatrix(matrix: Float64Array[], immediate: boolean): void;
+  nodes: AudioNode[];
+}
+
+// 'stagepov-matrix' worklet, one message per update
+function workletMatrix(ctx: BaseAudioContext, inputs: number, outputs: number): MatrixStage {
+  const node = new AudioWorkletNode(ctx, 'stagepov-matrix', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [outputs],
+    channelCount: inputs,
+    channelCountMode: 'explicit',
+    channelInterpretation: 'discrete',
+    processorOptions: { inputs, outputs },
+  });
+  return {
+    input: node,
+    output: node,
+    setMatrix: matrix => {
+      const flat = new Float32Array(inputs * outputs);
+      matrix.forEach((row, o) => row.forEach((v, i) => flat[o * inputs + i] = v));
+      node.port.postMessage(flat);
+    },
+    nodes: [node],
+  };
+}
+
+// Without worklets: one GainNode per matrix entry
+function gainMatrix(ctx: BaseAudioContext, inputs: number, outputs: number): MatrixStage {
+  const splitter = ctx.createChannelSplitter(inputs);
+  const merger = ctx.createChannelMerger(outputs);
+  const gains = Array.from({ length: outputs }, (_, o) => Array.from({ length: inputs }, (_, i) => {
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    splitter.connect(gain, i).connect(merger, 0, o);
+    return gain;
+  }));
+  return {
+    input: splitter,
+    output: merger,
+    setMatrix: (matrix, immediate) => gains.forEach((row, o) => row.forEach((gain, i) => {
+      if (immediate) gain.gain.value = matrix[o][i];
+      else gain.gain.setTargetAtTime(matrix[o][i], ctx.currentTime, 0.02);
+    })),
+    nodes: [splitter, merger, ...gains.flat()],
+  };
+}
+
+// B-format (ACN/SN3D) bus of a fixed order. Head rotation and decoding are
+// folded into a single matrix, so following the head only means sending a
+// new matrix.
+export class AmbisonicBus {
+  readonly input: GainNode;
+  readonly channels: number;
+  private stage: MatrixStage;
+  private decoder: Float64Array[];
+  // Binaural only: the decoded virtual speakers and what renders them
+  private speakerSplitter: ChannelSplitterNode | null = null;
+  private virtualSpeakers: AudioNode[] = [];
+  private hrirs: AudioBuffer[] | null = null;
+  private orientation: ListenerOrientation = { yaw: 0, pitch: 0, roll: 0 };
+
+  constructor(
+    private ctx: BaseAudioContext,
+    readonly order: number,
+    decode: AmbisonicDecode,
+    private output: AudioNode,
+    workletsReady: boolean
+  ) {
+    this.channels = ambisonicChannels(order);
+    this.input = ctx.createGain();
+    this.input.channelCount = this.channels;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'discrete';
+
+    this.decoder = this.buildDecoder(decode);
+    const outputs = this.decoder.length;
+    this.stage = workletsReady ? workletMatrix(ctx, this.channels, outputs) : gainMatrix(ctx, this.channels, outputs);
+    this.input.connect(this.stage.input);
+    this.applyMatrix(true);
+
+    if (decode.kind !== 'binaural') {
+      this.stage.output.connect(output);
+      return;
+    }
+
+    // Virtual loudspeakers stay fixed around the head; the rotation happens on the bus
+    this.speakerSplitter = ctx.createChannelSplitter(outputs);
+    this.stage.output.connect(this.speakerSplitter);
+    this.stage.nodes.push(this.speakerSplitter);
+    this.renderVirtualSpeakers();
+  }
+
+  // Convolves each virtual speaker with its own HRIR (a stereo buffer per
+  // speaker, in virtualSpeakerDirections order); null goes back to the
+  // browser's HRTF panners
+  setHrirs(hrirs: AudioBuffer[] | null) {
+    if (!this.speakerSplitter || hrirs === this.hrirs) return;
+    this.hrirs = hrirs;
+    this.virtualSpeakers.forEach(node => {
+      this.speakerSplitter!.disconnect(node);
+      node.disconnect();
+    });
+    this.renderVirtualSpeakers();
+  }
+
+  setOrientation(orientation: ListenerOrientation, immediate = false) {
+    this.orientation = orientation;
+    this.applyMatrix(immediate);
+  }
+
+  disconnect() {
+    [this.input, ...this.stage.nodes, ...this.virtualSpeakers].forEach(node => {
+      try { node.disconnect(); } catch (e) { console.warn(e); }
+    });
+  }
+
+  private renderVirtualSpeakers() {
+    const splitter = this.speakerSplitter!;
+    this.virtualSpeakers = virtualSpeakerDirections(this.order).map((direction, i) => {
+      const hrir = this.hrirs?.[i];
+      if (hrir) {
+        const convolver = this.ctx.createConvolver();
+        convolver.normalize = false;
+        convolver.buffer = hrir;
+        splitter.connect(convolver, i).connect(this.output);
+        return convolver;
+      }
+      const [x, y, z] = toWebAudio(direction);
+      const panner = this.ctx.createPanner();
+      panner.panningModel = 'HRTF';
+      panner.distanceModel = 'inverse';
+      panner.refDistance = SPATIAL_SCALE;
+      panner.positionX.value = x * SPATIAL_SCALE;
+      panner.positionY.value = y * SPATIAL_SCALE;
+      panner.positionZ.value = z * SPATIAL_SCALE;
+      splitter.connect(panner, i).connect(this.output);
+      return panner;
+    });
+  }
+
+  private buildDecoder(decode: AmbisonicDecode): Float64Array[] {
+    if (decode.kind === 'ambix') return identityMatrix(this.channels);
+    if (decode.kind === 'binaural') return decoderMatrix(this.order, virtualSpeakerDirections(this.order));
+
+    // AmbiX scenes carry no LFE, so subwoofers get nothing from the bus
+    const mains = decode.speakers.filter(s => !isLfeSpeaker(s));
+    const rows = decoderMatrix(this.order, mains.map(speakerDirection));
+    return decode.speakers.map(s => isLfeSpeaker(s) ? new Float64Array(this.channels) : rows[mains.indexOf(s)]);
+  }
+
+  private applyMatrix(immediate: boolean) {
+    const { yaw, pitch, roll } = this.orientation;
+    const rotated = yaw === 0 && pitch === 0 && roll === 0
+      ? this.decoder
+      : multiplyMatrices(this.decoder, rotationMatrix(this.order, this.orientation));
+    this.stage.setMatrix(rotated, immediate);
+  }
+}
@@ -0,0 +1,33 @@
+import { MAX_AMBISONIC_ORDER } from './dsp/ambisonics';
+
+// Enough of the file to find the fmt chunk behind any leading metadata
+const HEADER_BYTES = 64 * 1024;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// Reads a WAV header and returns the Ambisonic order when the file looks like
+// AmbiX: a full (N+1)^2 channel count for N = 1..3 and, for extensible
+// headers, no speaker mask (a 4-channel file with a mask is quad, not FOA).
+export async function detectAmbisonicOrder(blob: Blob): Promise<number | null> {
+  try {
+    const view = new DataView(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+    const tag = (offset: number) => String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+    if (view.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+      const size = view.getUint32(offset + 4, true);
+      if (tag(offset) === 'fmt ') {
+        const format = view.getUint16(offset + 8, true);
+        const channels = view.getUint16(offset + 10, true);
+        if (format === WAVE_FORMAT_EXTENSIBLE && size >= 24 && view.getUint32(offset + 28, true) !== 0) return null;
+        const order = Math.sqrt(channels) - 1;
+        return Number.isInteger(order) && order >= 1 && order <= MAX_AMBISONIC_ORDER ? order : null;
+      }
+      offset += 8 + size + (size % 2);
+    }
+    return null;
+  } catch (e) {
+    console.warn('Could not read WAV header', e);
+    return null;
+  }
+}
@@ -1,38 +1,121 @@
 
-import { AudioSettings } from '../types';
+import { AudioSettings, BassManagementSettings, CalibrationProfile, DynamicsSettings, EQBand, LimiterSettings, ListenerOrientation, ReverbEngine, ReverbRoom, RoomModel, SpeakerPosition, UpmixAlgorithm } from '../types';
+import { DEFAULT_AUDIO_SETTINGS, DEFAULT_BASS_MANAGEMENT, DEFAULT_LIMITER, DEFAULT_REVERB_ROOM, DEFAULT_ROOM_MODEL, SPEAKER_LAYOUTS } from '../constants';
+import { SpeakerBed } from './speakerBed';
+import { Upmixer } from './upmixer';
+import { ParametricEq } from './parametricEq';
+import { MultibandDynamics } from './multibandDynamics';
+import { CalibrationStage } from './roomCalibration';
+import { roomLibrary } from './roomLibrary';
+import { hrtfLibrary } from './hrtfLibrary';
+import { buildRoomImpulse } from './roomSimulator';
+import { computeSpeakerAlignment } from './speakerAlignment';
+import { loadWorklets } from './worklets';
+import { AmbisonicBus } from './ambisonicBus';
+import { PlaybackEvents, PlayerSnapshot, TrackPlayer } from './trackPlayer';
+import { ambisonicChannels, MAX_AMBISONIC_ORDER, virtualSpeakerDirections } from './dsp/ambisonics';
+import { LoudnessReading, normalizationGainDb } from './dsp/loudness';
+import { channelWeightsForSpeakers, measureBuffer } from './loudnessScanner';
+import { audioBufferToWav, ChannelLayout, resolveChannelLayout } from './wavEncoder';
+
+// Tone controls share their filters with Theater Mode, which is applied as an
+// offset so neither overwrites the other. Vocal Clarity above neutral drives
+// the dialogue enhancer when it is available; the presence filter then only
+// handles cuts below neutral.
+type ToneState = Pick<AudioSettings, 'bass' | 'vocalClarity' | 'xCurve' | 'isTheaterMode'>;
+
+// What setupGraph renders to: binaural stereo, one channel per speaker of a
+// layout, or the B-format bus itself
+type RenderTarget =
+  | { kind: 'binaural' }
+  | { kind: 'speakers'; layout: ChannelLayout }
+  | { kind: 'ambix' };
+
+const toneGains = (tone: ToneState, dialogueEnhancer: boolean) => {
+  const clarity = (tone.vocalClarity - 5) * 2;
+  return {
+    bass: tone.bass + (tone.isTheaterMode ? 4 : 0),
+    mid: (dialogueEnhancer ? Math.min(0, clarity) : clarity) + (tone.isTheaterMode ? 3 : 0),
+    xCurve: tone.xCurve + (tone.isTheaterMode ? -1.5 : 0),
+    dialogue: dialogueEnhancer ? Math.max(0, Math.min(1, (tone.vocalClarity - 5) / 5)) : 0,
+  };
+};
 
 export class AudioEngine {
   private context: AudioContext | null = null;
-  private source: MediaElementAudioSourceNode | null = null;
-  private panner: PannerNode | null = null;
+  private player: TrackPlayer | null = null;
+  // Playback requested before the first context exists
+  private pendingPlayback: PlayerSnapshot | null = null;
+  private playbackEvents: PlaybackEvents | null = null;
   private gainNode: GainNode | null = null;
   private analyser: AnalyserNode | null = null;
-  private compressor: DynamicsCompressorNode | null = null;
+  private normalizationGain: GainNode | null = null;
+  private normalizationDb = 0;
+  // AmbiX sources bypass the stereo chain and feed the bus directly
+  private stereoSelect: GainNode | null = null;
+  private ambixSelect: GainNode | null = null;
+  private sourceOrder: number | null = null;
+  private dialogueNode: AudioWorkletNode | null = null;
+  private speechActivity = 0;
+  private loudnessMeter: AudioWorkletNode | null = null;
+  private loudness: LoudnessReading | null = null;
+  private compressors: DynamicsCompressorNode[] = [];
+  private limiterNode: AudioWorkletNode | null = null;
+  private limiter: LimiterSettings = DEFAULT_LIMITER;
+  private gainReduction = 0;
+  private calibration: CalibrationStage | null = null;
+  private calibrationProfile: CalibrationProfile | null = null;
   
   private bassFilter: BiquadFilterNode | null = null;
   private trebleFilter: BiquadFilterNode | null = null;
   private midFilter: BiquadFilterNode | null = null; 
   private xCurveFilter: BiquadFilterNode | null = null; 
   private heightFilter: BiquadFilterNode | null = null;
-  private lfeCrossover: BiquadFilterNode | null = null;
-  private delayNode: DelayNode | null = null;
+  private tone: ToneState = { bass: 0, vocalClarity: 5, xCurve: 0, isTheaterMode: false };
 
   // HD Audio Nodes
   private hdLowFilter: BiquadFilterNode | null = null;
   private hdHighFilter: BiquadFilterNode | null = null;
   private hdMidDip: BiquadFilterNode | null = null;
 
+  // User parametric EQ
+  private parametricEq: ParametricEq | null = null;
+  private eqBands: EQBand[] = [];
+  private multiband: MultibandDynamics | null = null;
+  private dynamics: DynamicsSettings = DEFAULT_AUDIO_SETTINGS.dynamics;
+
   // Cinematic Space nodes
   private reverbNode: ConvolverNode | null = null;
   private dryGain: GainNode | null = null;
   private wetGain: GainNode | null = null;
-
-  async init(element: HTMLMediaElement, sampleRate: number = 48000, bitDepth: number = 16) {
+  private reverbRoom: ReverbRoom = DEFAULT_REVERB_ROOM;
+  private reverbEngine: ReverbEngine = 'convolution';
+  private roomModel: RoomModel = DEFAULT_ROOM_MODEL;
+  private reverbKey = '';
+  private reverbRequest = 0;
+
+  // Stereo-to-surround decomposition feeding the per-speaker object renderer
+  private upmixer: Upmixer | null = null;
+  private speakerBed: SpeakerBed | null = null;
+  private speakers: SpeakerPosition[] = SPEAKER_LAYOUTS['Atmos 7.1.4'];
+  private crossover = DEFAULT_AUDIO_SETTINGS.lfeCrossover;
+  private ambisonicBus: AmbisonicBus | null = null;
+  private ambisonicOrder: number = DEFAULT_AUDIO_SETTINGS.ambisonicOrder;
+  private hrtfId: string | null = DEFAULT_AUDIO_SETTINGS.hrtfId;
+  private hrtfRequest = 0;
+  private bassManagement: BassManagementSettings = DEFAULT_BASS_MANAGEMENT;
+
+  // Head tracking: raw tracker pose and the pose captured on recenter
+  private headPose: ListenerOrientation = { yaw: 0, pitch: 0, roll: 0 };
+  private headReference: ListenerOrientation = { yaw: 0, pitch: 0, roll: 0 };
+
+  async init(sampleRate: number = 48000, bitDepth: number = 16, ambisonicOrder: number = DEFAULT_AUDIO_SETTINGS.ambisonicOrder) {
+    this.ambisonicOrder = ambisonicOrder;
+    const playback = this.player?.snapshot() ?? this.pendingPlayback;
+    this.pendingPlayback = null;
     if (this.context) {
-      if (this.source) {
-        try { this.source.disconnect(); } catch (e) { console.warn(e); }
-        this.source = null;
-      }
+      this.player?.dispose();
+      this.player = null;
       if (this.context.state !== 'closed') {
         await this.context.close();
       }
@@ -43,34 +126,38 @@ export class AudioEngine {
       latencyHint: 'playback',
       sampleRate: sampleRate
     });
+    this.player = new TrackPlayer(this.context, {
+      onTrackStart: (track, duration) => this.playbackEvents?.onTrackStart(track, duration),
+      onPlayStateChange: playing => this.playbackEvents?.onPlayStateChange(playing),
+      onEnded: () => this.playbackEvents?.onEnded(),
+      onError: (track, error) => this.playbackEvents?.onError(track, error),
+    });
 
-    try {
-      this.source = this.context.createMediaElementSource(element);
-    } catch (err) {
-      console.error("Failed to create MediaElementSource:", err);
-      return;
-    }
-
-    this.setupGraph(this.context, this.source, this.context.destination);
+    const workletsReady = await loadWorklets(this.context);
+    this.setupGraph(this.context, this.player.output, this.context.destination, workletsReady, { kind: 'binaural' });
+    if (playback) this.player.restore(playback);
+    this.reverbKey = '';
+    this.refreshReverb();
+    this.loadHrtf();
   }
 
-  // Abstracted graph setup to support both Realtime and Offline contexts
-  private setupGraph(ctx: BaseAudioContext, source: AudioNode, destination: AudioNode) {
+  // Abstracted graph setup to support both Realtime and Offline contexts.
+  private setupGraph(
+    ctx: BaseAudioContext,
+    source: AudioNode,
+    destination: AudioNode,
+    workletsReady: boolean,
+    target: RenderTarget
+  ) {
+    const layout = target.kind === 'speakers' ? target.layout : undefined;
     this.analyser = ctx.createAnalyser();
     this.analyser.fftSize = 2048;
 
     this.gainNode = ctx.createGain();
     this.gainNode.gain.value = 1.0; 
 
-    this.compressor = ctx.createDynamicsCompressor();
-    this.compressor.threshold.value = -0.5;
-    this.compressor.knee.value = 0;
-    this.compressor.ratio.value = 20;
-    this.compressor.attack.value = 0.001;
-    this.compressor.release.value = 0.1;
-
-    this.delayNode = ctx.createDelay(1.0);
-    this.delayNode.delayTime.value = 0;
+    this.normalizationGain = ctx.createGain();
+    this.normalizationGain.gain.value = Math.pow(10, this.normalizationDb / 20);
 
     // EQ STACK
     this.midFilter = ctx.createBiquadFilter();
@@ -96,11 +183,6 @@ export class AudioEngine {
     this.heightFilter.type = 'peaking';
     this.heightFilter.frequency.value = 12000; 
 
-    this.lfeCrossover = ctx.createBiquadFilter();
-    this.lfeCrossover.type = 'lowshelf';
-    this.lfeCrossover.frequency.value = 80;
-    this.lfeCrossover.gain.value = 0;
-
     this.hdLowFilter = ctx.createBiquadFilter();
     this.hdLowFilter.type = 'lowshelf';
     this.hdLowFilter.frequency.value = 60;
@@ -117,52 +199,168 @@ export class AudioEngine {
     this.hdHighFilter.frequency.value = 12000; 
     this.hdHighFilter.gain.value = 0;
 
+    this.parametricEq = new ParametricEq(ctx);
+    this.parametricEq.setBands(this.eqBands, true);
+
+    this.dialogueNode = null;
+    this.speechActivity = 0;
+    if (workletsReady) {
+      this.dialogueNode = new AudioWorkletNode(ctx, 'stagepov-dialogue', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+        channelCount: 2,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers',
+      });
+      this.dialogueNode.port.onmessage = event => this.speechActivity = event.data;
+    }
+
+    this.multiband = new MultibandDynamics(ctx);
+    this.multiband.setBands(this.dynamics.bands, true);
+
     this.reverbNode = ctx.createConvolver();
-    // Default IR
-    this.reverbNode.buffer = this.createImpulseResponse(ctx, 1.2, 3.0);
     
     this.dryGain = ctx.createGain();
     this.wetGain = ctx.createGain();
     this.dryGain.gain.value = 1.2; 
     this.wetGain.gain.value = 0.0; 
 
-    this.panner = ctx.createPanner();
-    this.panner.panningModel = 'HRTF';
-    this.panner.distanceModel = 'inverse';
-    this.panner.refDistance = 3;
-    this.panner.maxDistance = 10000;
-    this.panner.rolloffFactor = 0.5;
+    this.stereoSelect = ctx.createGain();
+    this.ambixSelect = ctx.createGain();
+    this.ambixSelect.channelCount = ambisonicChannels(MAX_AMBISONIC_ORDER);
+    this.ambixSelect.channelCountMode = 'explicit';
+    this.ambixSelect.channelInterpretation = 'discrete';
+    this.applySourceSelect();
 
     // Connect Nodes
-    source
+    source.connect(this.normalizationGain);
+    this.normalizationGain.connect(this.stereoSelect);
+    this.normalizationGain.connect(this.ambixSelect);
+    const toneInput = this.dialogueNode ? this.stereoSelect.connect(this.dialogueNode) : this.stereoSelect;
+    toneInput
       .connect(this.midFilter)
       .connect(this.bassFilter)
       .connect(this.trebleFilter)
       .connect(this.xCurveFilter)
       .connect(this.heightFilter)
-      .connect(this.lfeCrossover)
       .connect(this.hdLowFilter)
       .connect(this.hdMidDip)
-      .connect(this.hdHighFilter);
+      .connect(this.hdHighFilter)
+      .connect(this.parametricEq.input);
 
-    this.hdHighFilter.connect(this.dryGain);
-    this.hdHighFilter.connect(this.reverbNode);
+    this.parametricEq.output.connect(this.multiband.input);
+    this.multiband.output.connect(this.dryGain);
+    this.multiband.output.connect(this.reverbNode);
     this.reverbNode.connect(this.wetGain);
 
-    this.dryGain.connect(this.delayNode);
-    this.wetGain.connect(this.delayNode);
+    const mix = ctx.createGain();
+    this.dryGain.connect(mix);
+    this.wetGain.connect(mix);
+
+    this.ambisonicBus = new AmbisonicBus(
+      ctx,
+      this.ambisonicOrder,
+      target.kind === 'speakers' ? { kind: 'speakers', speakers: target.layout.speakers } : { kind: target.kind },
+      this.gainNode,
+      workletsReady
+    );
+    // Files of a different order are padded or truncated to the bus order
+    this.ambixSelect.connect(this.ambisonicBus.input);
+
+    this.upmixer = new Upmixer(ctx, mix, workletsReady);
+    this.speakerBed = new SpeakerBed(
+      ctx,
+      this.upmixer.output,
+      layout ? this.gainNode : this.ambisonicBus.input,
+      layout ? 'discrete' : 'ambisonic',
+      this.ambisonicOrder
+    );
+    this.speakerBed.setAlignment(computeSpeakerAlignment(this.speakers, this.roomModel), true);
+    this.speakerBed.setBassManagement(this.crossover, this.bassManagement, true);
+    this.speakerBed.setLayout(layout ? layout.speakers : this.speakers);
 
-    this.delayNode
-      .connect(this.panner)
-      .connect(this.gainNode) 
-      .connect(this.compressor);
+    const channels = layout ? layout.speakers.length : target.kind === 'ambix' ? this.ambisonicBus.channels : 2;
+    const safety = this.createSafetyStage(ctx, channels, workletsReady);
+
+    // Room correction belongs to the listening room, so exports are rendered without it
+    if (ctx instanceof AudioContext) {
+      this.calibration = new CalibrationStage(ctx, channels);
+      this.calibration.setProfile(this.calibrationProfile, true);
+      this.gainNode.connect(this.calibration.input);
+      this.calibration.output.connect(safety.input);
+    } else {
+      this.gainNode.connect(safety.input);
+    }
 
-    // Only connect analyser if realtime context
+    // Only connect analyser (and follow the listener's head) if realtime context
     if (ctx instanceof AudioContext) {
-      this.compressor.connect(this.analyser!).connect(destination);
+      safety.output.connect(this.analyser!).connect(destination);
+      this.applyListenerOrientation(true);
+      this.loudness = null;
+      this.loudnessMeter = null;
+      if (workletsReady) {
+        this.loudnessMeter = new AudioWorkletNode(ctx, 'stagepov-loudness-meter', { numberOfOutputs: 0 });
+        this.loudnessMeter.port.onmessage = event => this.loudness = event.data;
+        safety.output.connect(this.loudnessMeter);
+      }
     } else {
-      this.compressor.connect(destination);
+      safety.output.connect(destination);
+    }
+  }
+
+  // True-peak look-ahead limiter on every output channel, linked. Without
+  // worklets we fall back to brick-wall compressors; DynamicsCompressorNode is
+  // limited to two channels, so multichannel graphs get one (unlinked)
+  // compressor per speaker channel.
+  private createSafetyStage(ctx: BaseAudioContext, channels: number, workletsReady: boolean): { input: AudioNode, output: AudioNode } {
+    this.gainReduction = 0;
+    this.limiterNode = null;
+    this.compressors = [];
+
+    if (workletsReady) {
+      const limiter = new AudioWorkletNode(ctx, 'stagepov-limiter', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [channels],
+        channelCount: channels,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'discrete',
+        processorOptions: { channels },
+      });
+      limiter.port.onmessage = event => this.gainReduction = event.data;
+      this.limiterNode = limiter;
+      this.applyLimiter(true);
+      return { input: limiter, output: limiter };
+    }
+
+    const createCompressor = () => {
+      const compressor = ctx.createDynamicsCompressor();
+      compressor.threshold.value = -0.5;
+      compressor.knee.value = 0;
+      compressor.ratio.value = 20;
+      compressor.attack.value = 0.001;
+      compressor.release.value = 0.1;
+      return compressor;
+    };
+
+    if (channels <= 2) {
+      const compressor = createCompressor();
+      this.compressors = [compressor];
+      return { input: compressor, output: compressor };
+    }
+
+    const splitter = ctx.createChannelSplitter(channels);
+    const merger = ctx.createChannelMerger(channels);
+    for (let i = 0; i < channels; i++) {
+      const compressor = createCompressor();
+      compressor.channelCount = 1;
+      compressor.channelCountMode = 'explicit';
+      splitter.connect(compressor, i);
+      compressor.connect(merger, 0, i);
+      this.compressors.push(compressor);
     }
+    return { input: splitter, output: merger };
   }
 
   // --- OFFLINE RENDERING LOGIC ---
@@ -170,7 +368,9 @@ export class AudioEngine {
   async renderOffline(
     fileBlob: Blob, 
     settings: AudioSettings, 
-    onProgress: (p: number) => void
+    speakers: SpeakerPosition[],
+    onProgress: (p: number) => void,
+    sourceOrder: number | null = null
   ): Promise<Blob> {
     const arrayBuffer = await fileBlob.arrayBuffer();
     
@@ -179,8 +379,10 @@ export class AudioEngine {
     const audioBuffer = await tempCtx.decodeAudioData(arrayBuffer);
     tempCtx.close();
 
+    const layout = settings.exportMode === 'multichannel' ? resolveChannelLayout(speakers) : undefined;
+    const target: RenderTarget = layout ? { kind: 'speakers', layout } : { kind: settings.exportMode === 'ambix' ? 'ambix' : 'binaural' };
     const offlineCtx = new OfflineAudioContext(
-      2, 
+      layout ? layout.speakers.length : target.kind === 'ambix' ? ambisonicChannels(settings.ambisonicOrder) : 2,
       audioBuffer.length, 
       settings.sampleRate
     );
@@ -188,152 +390,109 @@ export class AudioEngine {
     const source = offlineCtx.createBufferSource();
     source.buffer = audioBuffer;
 
-    // Set up the exact processing chain on the offline context
-    this.setupGraph(offlineCtx, source, offlineCtx.destination);
-    
-    // Apply Settings to Offline Nodes
-    // Note: We access the nodes we just created in setupGraph. 
-    // Since setupGraph overwrites the class properties, we are manipulating the offline nodes now.
-    // This is safe because renderOffline shouldn't be called during active playback initialization.
-    
+    // The offline graph is built on an engine of its own, so the live graph
+    // and the state the controls drive are left as they are
+    const engine = new AudioEngine();
+    engine.speakers = speakers;
+    engine.roomModel = settings.roomModel;
+    engine.ambisonicOrder = settings.ambisonicOrder;
+    engine.sourceOrder = sourceOrder;
+    engine.crossover = settings.lfeCrossover;
+    engine.bassManagement = settings.bassManagement;
+    engine.limiter = settings.limiter;
+    const workletsReady = await loadWorklets(offlineCtx);
+    engine.setupGraph(offlineCtx, source, offlineCtx.destination, workletsReady, target);
+
     // Apply EQ
-    this.bassFilter!.gain.value = settings.bass;
-    this.trebleFilter!.gain.value = settings.treble;
-    this.midFilter!.gain.value = (settings.vocalClarity - 5) * 2;
-    this.heightFilter!.gain.value = settings.heightLevel * 6;
+    const tone = toneGains(settings, !!engine.dialogueNode);
+    const dialogueAmount = engine.dialogueNode?.parameters.get('amount');
+    if (dialogueAmount) dialogueAmount.value = tone.dialogue;
+    engine.bassFilter!.gain.value = tone.bass;
+    engine.trebleFilter!.gain.value = settings.treble;
+    engine.midFilter!.gain.value = tone.mid;
+    engine.xCurveFilter!.gain.value = tone.xCurve;
+    engine.heightFilter!.gain.value = settings.heightLevel * 6;
+    engine.parametricEq!.setBands(settings.eqBands, true);
+    engine.multiband!.setBands(settings.dynamics.bands, true);
+
+    // Apply Upmix
+    engine.upmixer!.setAlgorithm(settings.upmixAlgorithm, true);
+    engine.upmixer!.setCenterSpread(settings.centerSpread, true);
+    engine.upmixer!.setSurroundLevel(settings.surroundLevel, true);
+    engine.upmixer!.setHeightLevel(settings.heightLevel, true);
+    engine.upmixer!.setLfeCrossover(settings.lfeCrossover, true);
+    engine.speakerBed!.setBassManagement(settings.lfeCrossover, settings.bassManagement, true);
     
     // Apply Modes
-    if (settings.isTheaterMode) {
-       this.xCurveFilter!.gain.value = -1.5;
-       this.bassFilter!.gain.value = (settings.bass || 0) + 4;
-       this.midFilter!.gain.value = ((settings.vocalClarity - 5) * 2) + 3;
-    }
-    
     if (settings.isHdAudioEnabled) {
-       this.hdLowFilter!.gain.value = 4;
-       this.hdMidDip!.gain.value = -3;
-       this.hdHighFilter!.gain.value = 6;
+       engine.hdLowFilter!.gain.value = 4;
+       engine.hdMidDip!.gain.value = -3;
+       engine.hdHighFilter!.gain.value = 6;
     }
 
-    // Apply Reverb
-    this.wetGain!.gain.value = settings.reverbLevel;
-    
-    // Apply Preset specific IR modifications if needed
-    if (settings.selectedPreset === 'IMAX Enhanced') {
-       this.reverbNode!.buffer = this.createImpulseResponse(offlineCtx, 2.5, 1.5);
+    // Apply the HRTF set
+    if (target.kind === 'binaural') {
+      engine.ambisonicBus!.setHrirs(await hrtfLibrary.buildHrirs(offlineCtx, settings.hrtfId, virtualSpeakerDirections(settings.ambisonicOrder)));
     }
 
-    // Apply Volume
-    this.gainNode!.gain.value = settings.volume;
+    // Apply Reverb
+    engine.wetGain!.gain.value = settings.reverbLevel;
+    engine.reverbNode!.buffer = await engine.buildReverb(offlineCtx, settings.reverbEngine, settings.reverbRoom, settings.roomModel, speakers);
+
+    // Apply Volume (the export is normalized as a whole below, not per song)
+    engine.gainNode!.gain.value = settings.volume;
+    engine.normalizationGain!.gain.value = 1;
 
-    // Apply DRC
-    this.compressor!.threshold.value = -0.5 - (settings.drc * 12);
+    // Apply the output limiter
+    engine.applyLimiter(true);
 
     source.start(0);
 
     // Render
     const renderedBuffer = await offlineCtx.startRendering();
-    
-    // Re-init live engine to restore state for playback
-    // (User will need to press play again, which re-inits automatically in App.tsx)
-    
-    // Convert to WAV
-    return this.audioBufferToWav(renderedBuffer, settings.bitDepth);
-  }
-
-  private audioBufferToWav(buffer: AudioBuffer, bitDepth: number): Blob {
-    const numOfChan = buffer.numberOfChannels;
-    const length = buffer.length * numOfChan * (bitDepth / 8);
-    const bufferLength = 44 + length;
-    const arrayBuffer = new ArrayBuffer(bufferLength);
-    const view = new DataView(arrayBuffer);
-    const channels = [];
-    let sample = 0;
-    let offset = 0;
-    let pos = 0;
-
-    // write WAVE header
-    setUint32(0x46464952); // "RIFF"
-    setUint32(bufferLength - 8); // file length - 8
-    setUint32(0x45564157); // "WAVE"
-
-    setUint32(0x20746d66); // "fmt " chunk
-    setUint32(16); // length = 16
-    setUint16(1); // PCM (uncompressed)
-    setUint16(numOfChan);
-    setUint32(buffer.sampleRate);
-    setUint32(buffer.sampleRate * numOfChan * (bitDepth / 8)); // avg. bytes/sec
-    setUint16(numOfChan * (bitDepth / 8)); // block-align
-    setUint16(bitDepth); // 16-bit or 32-bit (handled below)
-
-    setUint32(0x61746164); // "data" - chunk
-    setUint32(length); // chunk length
-
-    // write interleaved data
-    for(let i = 0; i < buffer.numberOfChannels; i++)
-      channels.push(buffer.getChannelData(i));
-
-    pos = 44;
-    
-    // Helper
-    function setUint16(data: number) {
-      view.setUint16(pos, data, true);
-      pos += 2;
-    }
-    function setUint32(data: number) {
-      view.setUint32(pos, data, true);
-      pos += 4;
-    }
 
-    while(pos < bufferLength) {
-      for(let i = 0; i < numOfChan; i++) {
-        sample = Math.max(-1, Math.min(1, channels[i][offset])); // clamp
-        
-        if (bitDepth === 16) {
-           sample = (sample < 0 ? sample * 0x8000 : sample * 0x7FFF) | 0;
-           view.setInt16(pos, sample, true);
-           pos += 2;
-        } else if (bitDepth === 32) {
-           view.setFloat32(pos, sample, true);
-           pos += 4;
-        } else {
-           // 24-bit
-           sample = (sample < 0 ? sample * 0x800000 : sample * 0x7FFFFF) | 0;
-           view.setUint8(pos, (sample) & 0xFF);
-           pos += 1;
-           view.setUint8(pos, (sample >> 8) & 0xFF);
-           pos += 1;
-           view.setUint8(pos, (sample >> 16) & 0xFF);
-           pos += 1;
-        }
+    if (settings.loudnessNormalization) {
+      // An AmbiX master is measured on its omni channel alone
+      const weights = layout ? channelWeightsForSpeakers(layout.speakers)
+        : target.kind === 'ambix' ? Array.from({ length: renderedBuffer.numberOfChannels }, (_, c) => c === 0 ? 1 : 0)
+        : undefined;
+      const { integrated, truePeak } = await measureBuffer(renderedBuffer, weights);
+      const gain = Math.pow(10, normalizationGainDb(integrated, truePeak, settings.loudnessTarget) / 20);
+      for (let c = 0; c < renderedBuffer.numberOfChannels; c++) {
+        const data = renderedBuffer.getChannelData(c);
+        for (let i = 0; i < data.length; i++) data[i] *= gain;
       }
-      offset++;
     }
 
-    return new Blob([arrayBuffer], { type: 'audio/wav' });
+    // Convert to WAV
+    return audioBufferToWav(renderedBuffer, settings.bitDepth, layout?.channelMask);
   }
 
-  private createImpulseResponse(ctx: BaseAudioContext, duration: number, decay: number): AudioBuffer {
-    const sampleRate = ctx.sampleRate;
-    const length = sampleRate * duration;
-    const impulse = ctx.createBuffer(2, length, sampleRate);
-    
-    for (let channel = 0; channel < 2; channel++) {
-      const channelData = impulse.getChannelData(channel);
-      for (let i = 0; i < length; i++) {
-        const noise = (Math.random() * 2 - 1);
-        channelData[i] = noise * Math.pow(1 - i / length, decay);
-      }
+  setVolume(value: number) {
+    if (this.gainNode && this.context) this.gainNode.gain.setTargetAtTime(value, this.context.currentTime, 0.05);
+  }
+
+  // Per-song gain that brings the track to the loudness target
+  setNormalizationGain(db: number) {
+    this.normalizationDb = db;
+    if (this.normalizationGain && this.context) {
+      this.normalizationGain.gain.setTargetAtTime(Math.pow(10, db / 20), this.context.currentTime, 0.1);
     }
-    return impulse;
   }
 
-  setVolume(value: number) {
-    if (this.gainNode && this.context) this.gainNode.gain.setTargetAtTime(value, this.context.currentTime, 0.05);
+  // Latest reading from the output meter; null until the first report
+  getLoudness(): LoudnessReading | null {
+    return this.loudness;
+  }
+
+  resetLoudness() {
+    this.loudness = null;
+    this.loudnessMeter?.port.postMessage({ type: 'reset' });
   }
 
   setBass(value: number) {
-    if (this.bassFilter && this.context) this.bassFilter.gain.setTargetAtTime(value, this.context.currentTime, 0.1);
+    this.tone.bass = value;
+    this.applyTone();
   }
 
   setTreble(value: number) {
@@ -341,10 +500,28 @@ export class AudioEngine {
   }
 
   setVocalClarity(value: number) {
-    if (this.midFilter && this.context) {
-      const gain = (value - 5) * 2; 
-      this.midFilter.gain.setTargetAtTime(gain, this.context.currentTime, 0.1);
-    }
+    this.tone.vocalClarity = value;
+    this.applyTone();
+  }
+
+  setXCurve(db: number) {
+    this.tone.xCurve = db;
+    this.applyTone();
+  }
+
+  private applyTone() {
+    if (!this.context) return;
+    const time = this.context.currentTime;
+    const gains = toneGains(this.tone, !!this.dialogueNode);
+    this.dialogueNode?.parameters.get('amount')?.setTargetAtTime(gains.dialogue, time, 0.1);
+    this.bassFilter?.gain.setTargetAtTime(gains.bass, time, 0.1);
+    this.midFilter?.gain.setTargetAtTime(gains.mid, time, 0.1);
+    this.xCurveFilter?.gain.setTargetAtTime(gains.xCurve, time, 0.1);
+  }
+
+  // Smoothed probability (0-1) that the programme currently contains speech
+  getSpeechActivity() {
+    return this.dialogueNode ? this.speechActivity : 0;
   }
 
   setReverb(value: number) {
@@ -353,13 +530,125 @@ export class AudioEngine {
     }
   }
 
-  setDRC(value: number) {
-    if (this.compressor && this.context) {
-      const threshold = -0.5 - (value * 12); 
-      this.compressor.threshold.setTargetAtTime(threshold, this.context.currentTime, 0.1);
+  setReverbRoom(room: ReverbRoom) {
+    this.reverbRoom = room;
+    this.refreshReverb();
+  }
+
+  setReverbEngine(engine: ReverbEngine) {
+    this.reverbEngine = engine;
+    this.refreshReverb();
+  }
+
+  setRoomModel(model: RoomModel) {
+    this.roomModel = model;
+    this.speakerBed?.setAlignment(computeSpeakerAlignment(this.speakers, model));
+    this.refreshReverb();
+  }
+
+  private buildReverb(
+    ctx: BaseAudioContext,
+    engine: ReverbEngine,
+    room: ReverbRoom,
+    model: RoomModel,
+    speakers: SpeakerPosition[]
+  ): Promise<AudioBuffer> {
+    if (engine === 'algorithmic') return Promise.resolve(buildRoomImpulse(ctx, model, speakers));
+    return roomLibrary.buildImpulse(ctx, room);
+  }
+
+  // Rebuilds the impulse response only when its inputs actually change. The
+  // room simulator also depends on where the speakers are (but not on their
+  // delay and trim).
+  private refreshReverb() {
+    const key = this.reverbEngine === 'algorithmic'
+      ? JSON.stringify([this.roomModel, this.speakers.map(({ id, x, y, z, isActive }) => [id, x, y, z, isActive])])
+      : JSON.stringify(this.reverbRoom);
+    if (key === this.reverbKey) return;
+    this.reverbKey = key;
+    this.loadReverb();
+  }
+
+  // IRs are built asynchronously; a slower, older request never replaces the
+  // buffer of a newer one.
+  private async loadReverb() {
+    const request = ++this.reverbRequest;
+    const ctx = this.context;
+    const convolver = this.reverbNode;
+    if (!ctx || !convolver) return;
+    try {
+      const buffer = await this.buildReverb(ctx, this.reverbEngine, this.reverbRoom, this.roomModel, this.speakers);
+      if (request === this.reverbRequest && convolver === this.reverbNode) convolver.buffer = buffer;
+    } catch (e) {
+      console.error("Failed to build impulse response", e);
+    }
+  }
+
+  setHrtf(id: string | null) {
+    if (id === this.hrtfId) return;
+    this.hrtfId = id;
+    this.loadHrtf();
+  }
+
+  // Built like IRs: asynchronously, and only the newest request lands
+  private async loadHrtf() {
+    const request = ++this.hrtfRequest;
+    const ctx = this.context;
+    const bus = this.ambisonicBus;
+    if (!ctx || !bus) return;
+    try {
+      const hrirs = await hrtfLibrary.buildHrirs(ctx, this.hrtfId, virtualSpeakerDirections(bus.order));
+      if (request === this.hrtfRequest && bus === this.ambisonicBus) bus.setHrirs(hrirs);
+    } catch (e) {
+      console.error("Failed to build HRTF set", e);
     }
   }
 
+  setDynamics(dynamics: DynamicsSettings) {
+    this.dynamics = dynamics;
+    this.multiband?.setBands(dynamics.bands);
+  }
+
+  // Per-band gain reduction of the multiband compressor in dB
+  getDynamicsReduction(): number[] {
+    return this.multiband?.getGainReduction() ?? [];
+  }
+
+  setCalibration(profile: CalibrationProfile | null) {
+    this.calibrationProfile = profile;
+    this.calibration?.setProfile(profile);
+  }
+
+  setLimiter(settings: LimiterSettings) {
+    this.limiter = settings;
+    this.applyLimiter(false);
+  }
+
+  private applyLimiter(immediate: boolean) {
+    const ceiling = this.limiter.ceiling;
+    const limiter = this.limiterNode;
+    const ctx = limiter?.context ?? this.compressors[0]?.context;
+    if (!ctx) return;
+    const set = (param: AudioParam | undefined, value: number) => {
+      if (!param) return;
+      if (immediate) param.value = value;
+      else param.setTargetAtTime(value, ctx.currentTime, 0.1);
+    };
+    if (limiter) {
+      set(limiter.parameters.get('ceiling'), ceiling);
+      set(limiter.parameters.get('release'), this.limiter.release);
+      // A gliding look-ahead would reset the delay line on every quantum
+      limiter.parameters.get('lookahead')?.setValueAtTime(this.limiter.lookahead, ctx.currentTime);
+    }
+    this.compressors.forEach(c => set(c.threshold, ceiling + 0.5));
+  }
+
+  // Current output gain reduction in dB (<= 0)
+  getGainReduction() {
+    if (this.limiterNode) return this.gainReduction;
+    return this.compressors.reduce((min, c) => Math.min(min, c.reduction), 0);
+  }
+
   setHdMode(enabled: boolean) {
     if (!this.context) return;
     const time = this.context.currentTime;
@@ -376,47 +665,8 @@ export class AudioEngine {
   }
 
   setTheaterMode(enabled: boolean) {
-    if (!this.context) return;
-    const time = this.context.currentTime;
-    
-    if (enabled) {
-      this.xCurveFilter?.gain.setTargetAtTime(-1.5, time, 0.5); 
-      this.bassFilter?.gain.setTargetAtTime(4, time, 0.5); 
-      this.midFilter?.gain.setTargetAtTime(3, time, 0.5); 
-    } else {
-      this.xCurveFilter?.gain.setTargetAtTime(0, time, 0.5);
-      this.bassFilter?.gain.setTargetAtTime(0, time, 0.5);
-      this.midFilter?.gain.setTargetAtTime(0, time, 0.5);
-    }
-  }
-
-  applyPreset(name: string) {
-    if (!this.context) return;
-    const time = this.context.currentTime;
-    
-    this.bassFilter?.gain.setTargetAtTime(0, time, 0.2);
-    this.trebleFilter?.gain.setTargetAtTime(0, time, 0.2);
-    this.midFilter?.gain.setTargetAtTime(0, time, 0.2);
-
-    switch(name) {
-      case 'IMAX Enhanced':
-        this.bassFilter?.gain.setTargetAtTime(8, time, 0.2);
-        this.midFilter?.gain.setTargetAtTime(3, time, 0.2);
-        this.trebleFilter?.gain.setTargetAtTime(2, time, 0.2);
-        this.reverbNode!.buffer = this.createImpulseResponse(this.context, 2.5, 1.5);
-        break;
-      case 'THX Reference':
-        this.midFilter?.gain.setTargetAtTime(1, time, 0.2);
-        break;
-      case 'Concert Auditorium':
-        this.trebleFilter?.gain.setTargetAtTime(1, time, 0.2);
-        this.reverbNode!.buffer = this.createImpulseResponse(this.context, 3.5, 2.0);
-        break;
-      case 'Vintage Cinema':
-        this.midFilter?.gain.setTargetAtTime(5, time, 0.2);
-        this.xCurveFilter?.gain.setTargetAtTime(-4, time, 0.2);
-        break;
-    }
+    this.tone.isTheaterMode = enabled;
+    this.applyTone();
   }
 
   setHeightLevel(value: number) {
@@ -424,28 +674,90 @@ export class AudioEngine {
       const gain = value * 6;
       this.heightFilter.gain.setTargetAtTime(gain, this.context.currentTime, 0.2);
     }
+    this.upmixer?.setHeightLevel(value);
   }
 
   setLfeCrossover(hz: number) {
-    if (this.lfeCrossover && this.context) {
-      this.lfeCrossover.frequency.setTargetAtTime(hz, this.context.currentTime, 0.1);
-    }
+    this.crossover = hz;
+    this.upmixer?.setLfeCrossover(hz);
+    this.speakerBed?.setBassManagement(hz, this.bassManagement);
   }
 
-  setSpeakerCalibration(delayMs: number, phaseMs: number) {
-    if (this.delayNode && this.context) {
-      const totalDelaySeconds = (delayMs + phaseMs) / 1000;
-      this.delayNode.delayTime.setTargetAtTime(totalDelaySeconds, this.context.currentTime, 0.1);
-    }
+  setBassManagement(settings: BassManagementSettings) {
+    this.bassManagement = settings;
+    this.speakerBed?.setBassManagement(this.crossover, settings);
   }
 
-  setSpatialPosition(x: number, y: number, z: number) {
-    if (this.panner && this.context) {
-      const time = this.context.currentTime;
-      this.panner.positionX.setTargetAtTime(x * 5, time, 0.2);
-      this.panner.positionY.setTargetAtTime(y * 5, time, 0.2);
-      this.panner.positionZ.setTargetAtTime(z * 5, time, 0.2);
-    }
+  setEqBands(bands: EQBand[]) {
+    this.eqBands = bands;
+    this.parametricEq?.setBands(bands);
+  }
+
+  // Combined parametric EQ response in dB, or null before the engine is running
+  getEqResponse(frequencies: Float32Array): Float32Array | null {
+    return this.parametricEq ? this.parametricEq.getResponse(frequencies) : null;
+  }
+
+  setUpmixAlgorithm(algorithm: UpmixAlgorithm) {
+    this.upmixer?.setAlgorithm(algorithm);
+  }
+
+  setCenterSpread(value: number) {
+    this.upmixer?.setCenterSpread(value);
+  }
+
+  setSurroundLevel(value: number) {
+    this.upmixer?.setSurroundLevel(value);
+  }
+
+  // Order of the source's Ambisonic stream, or null for stereo sources
+  setAmbisonicSource(order: number | null) {
+    this.sourceOrder = order;
+    this.applySourceSelect();
+  }
+
+  private applySourceSelect() {
+    if (!this.stereoSelect || !this.ambixSelect) return;
+    const ambix = this.sourceOrder !== null;
+    this.stereoSelect.gain.value = ambix ? 0 : 1;
+    this.ambixSelect.gain.value = ambix ? 1 : 0;
+  }
+
+  setSpeakerLayout(speakers: SpeakerPosition[]) {
+    this.speakers = speakers;
+    this.speakerBed?.setAlignment(computeSpeakerAlignment(speakers, this.roomModel));
+    this.speakerBed?.setLayout(speakers);
+    this.refreshReverb();
+  }
+
+  setListenerOrientation(yaw: number, pitch: number = 0, roll: number = 0) {
+    this.headPose = { yaw, pitch, roll };
+    this.applyListenerOrientation(false);
+  }
+
+  // Treat the current head pose as facing the front speakers
+  recenterListener() {
+    this.headReference = { ...this.headPose };
+    this.applyListenerOrientation(false);
+  }
+
+  resetListenerOrientation() {
+    this.headPose = { yaw: 0, pitch: 0, roll: 0 };
+    this.headReference = { yaw: 0, pitch: 0, roll: 0 };
+    this.applyListenerOrientation(false);
+  }
+
+  getListenerOrientation(): ListenerOrientation {
+    return {
+      yaw: this.headPose.yaw - this.headReference.yaw,
+      pitch: this.headPose.pitch - this.headReference.pitch,
+      roll: this.headPose.roll - this.headReference.roll,
+    };
+  }
+
+  // Rotating the bus against the head keeps the scene fixed in the room
+  private applyListenerOrientation(immediate: boolean) {
+    this.ambisonicBus?.setOrientation(this.getListenerOrientation(), immediate);
   }
 
   getAnalyserData() {
@@ -455,8 +767,51 @@ export class AudioEngine {
     return dataArray;
   }
 
-  resume() {
-    this.context?.resume();
+  setPlaybackEvents(events: PlaybackEvents) {
+    this.playbackEvents = events;
+  }
+
+  // Does nothing when the track is already the current one, e.g. after the
+  // player moved on to it by itself
+  loadTrack(track: Blob | null, position = 0, play = false) {
+    if (this.player) {
+      this.player.load(track, position, play).catch(err => console.error("Track load failed:", err));
+    } else {
+      this.pendingPlayback = { track, buffer: null, position, playing: play, nextTrack: null, nextBuffer: null, crossfade: 0 };
+    }
+  }
+
+  // Crossfade in seconds into the track that follows, 0 for gapless
+  setNextTrack(track: Blob | null, crossfade: number) {
+    if (this.player) {
+      this.player.setNext(track, crossfade);
+    } else if (this.pendingPlayback) {
+      this.pendingPlayback = { ...this.pendingPlayback, nextTrack: track, crossfade };
+    }
+  }
+
+  play() {
+    this.player?.play();
+  }
+
+  pause() {
+    this.player?.pause();
+  }
+
+  seek(seconds: number) {
+    this.player?.seek(seconds);
+  }
+
+  isPlaying() {
+    return this.player?.isPlaying() ?? false;
+  }
+
+  getPlaybackPosition() {
+    return this.player?.position() ?? 0;
+  }
+
+  getTrackDuration() {
+    return this.player?.duration() ?? 0;
   }
 
   isActive() {
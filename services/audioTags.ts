@@ -0,0 +1,630 @@
+import { VaultSong } from './vaultDb';
+
+// Local tag and stream-info reader for the files the Vault takes in: ID3v2
+// and ID3v1 on MPEG audio, FLAC and Ogg Vorbis/Opus comments, MP4 (M4A/ALAC)
+// atoms and RIFF WAVE INFO chunks. Only headers and metadata are read, never
+// the audio itself; anything a file doesn't carry is left undefined.
+
+export type AudioTags = Pick<VaultSong,
+  'title' | 'artist' | 'album' | 'trackNumber' | 'year' | 'genre' | 'duration' | 'sampleRate' | 'bitDepth' | 'channels' | 'artwork' | 'format'>;
+
+// Text fields as stored, before numbers and genres are interpreted
+interface TextTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  track?: string;
+  year?: string;
+  genre?: string;
+}
+
+interface Picture {
+  type: number; // ID3/FLAC picture type, 3 is the front cover
+  blob: Blob;
+}
+
+const FRONT_COVER = 3;
+
+// ID3v1 genre numbers, also used by ID3v2 "(17)" references and MP4 gnre atoms
+const GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+
+// kbps by [MPEG-1, MPEG-2/2.5][layer - 1][bitrate index]
+const MPEG_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+const MPEG_SAMPLE_RATES = [44100, 48000, 32000];
+// How far past the ID3 tag to look for the first MPEG frame
+const MPEG_SYNC_WINDOW = 16 * 1024;
+// Tail of an Ogg file searched for the last page's granule position
+const OGG_TAIL_BYTES = 64 * 1024;
+const OPUS_RATE = 48000;
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+const read = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+const bytesOf = (view: DataView, start = 0, end = view.byteLength) =>
+  new Uint8Array(view.buffer, view.byteOffset + start, Math.max(0, end - start));
+const fourCC = (view: DataView, offset: number) => latin1.decode(bytesOf(view, offset, offset + 4));
+const syncsafe = (view: DataView, offset: number) =>
+  (view.getUint8(offset) << 21) | (view.getUint8(offset + 1) << 14) | (view.getUint8(offset + 2) << 7) | view.getUint8(offset + 3);
+
+// Multi-value fields keep their first value
+const clean = (text?: string) => text?.split('\0').map(t => t.trim()).find(t => t) || undefined;
+
+function positive(value: number) {
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// "(17)", "17" and "(17)Rock" are ID3v1 genre references
+function genreName(text?: string) {
+  const genre = clean(text);
+  const reference = genre?.match(/^\((\d+)\)(.*)$/) ?? genre?.match(/^(\d+)()$/);
+  if (!reference) return genre;
+  return GENRES[Number(reference[1])] ?? (reference[2].trim() || genre);
+}
+
+function fromText(text: TextTags): AudioTags {
+  return {
+    title: clean(text.title),
+    artist: clean(text.artist),
+    album: clean(text.album),
+    trackNumber: positive(parseInt(clean(text.track) ?? '', 10)), // "3/12" is track 3
+    year: positive(Number(clean(text.year)?.match(/\d{4}/)?.[0])),
+    genre: genreName(text.genre),
+  };
+}
+
+const defined = (tags: AudioTags) =>
+  Object.fromEntries(Object.entries(tags).filter(([, value]) => value !== undefined)) as AudioTags;
+
+// Fields from the first source win
+const merge = (...sources: AudioTags[]) =>
+  sources.reduceRight<AudioTags>((out, tags) => ({ ...out, ...defined(tags) }), {});
+
+// A front cover beats any other picture; otherwise the first one found is kept
+const pickPicture = (current: Picture | undefined, next: Picture) =>
+  !current || (current.type !== FRONT_COVER && next.type === FRONT_COVER) ? next : current;
+
+// Trusts the image's own signature over the declared MIME type, which is often
+// missing or just "jpg"
+function pictureBlob(data: Uint8Array, declared: string) {
+  let type = declared.toLowerCase();
+  if (data[0] === 0xff && data[1] === 0xd8) type = 'image/jpeg';
+  else if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) type = 'image/png';
+  else if (!type.includes('/')) type = `image/${type === 'jpg' || !type ? 'jpeg' : type}`;
+  return new Blob([data.slice()], { type });
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+}
+
+// --- ID3 ---
+
+// Undoes unsynchronisation: each 0xFF 0x00 pair was written for a plain 0xFF
+function resync(data: Uint8Array) {
+  const out = new Uint8Array(data.length);
+  let n = 0;
+  for (let i = 0; i < data.length; i++) {
+    out[n++] = data[i];
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, n);
+}
+
+const ID3_WIDE = (encoding: number) => encoding === 1 || encoding === 2;
+
+function id3Text(encoding: number, data: Uint8Array) {
+  if (encoding === 3) return utf8.decode(data);
+  if (encoding === 2) return new TextDecoder('utf-16be').decode(data);
+  // UTF-16 with a byte order mark, little-endian when it's missing
+  if (encoding === 1) return new TextDecoder(data[0] === 0xfe && data[1] === 0xff ? 'utf-16be' : 'utf-16le').decode(data);
+  return latin1.decode(data);
+}
+
+function terminator(data: Uint8Array, start: number, wide: boolean) {
+  for (let i = start; i < data.length; i += wide ? 2 : 1) {
+    if (data[i] === 0 && (!wide || data[i + 1] === 0)) return i;
+  }
+  return data.length;
+}
+
+const ID3_TEXT_FRAMES: Record<string, keyof TextTags> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TRCK: 'track', TRK: 'track',
+  TYER: 'year', TYE: 'year', TDRC: 'year',
+  TCON: 'genre', TCO: 'genre',
+};
+
+// Parses an ID3v2 tag at the start of the blob; `end` is where the tag stops
+// and the audio (or a FLAC stream) begins
+async function readId3v2(blob: Blob): Promise<{ tags: AudioTags, end: number }> {
+  const header = await read(blob, 0, 10);
+  const version = header.getUint8(3);
+  const flags = header.getUint8(5);
+  const size = syncsafe(header, 6);
+  const end = 10 + size + (version === 4 && flags & 0x10 ? 10 : 0);
+  if (version < 2 || version > 4) return { tags: {}, end };
+
+  let data = new Uint8Array(await blob.slice(10, 10 + size).arrayBuffer());
+  if (version < 4 && flags & 0x80) data = resync(data);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let pos = 0;
+  if (version > 2 && flags & 0x40) pos = version === 3 ? 4 + view.getUint32(0) : syncsafe(view, 0);
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const text: TextTags = {};
+  let length: number | undefined;
+  let picture: Picture | undefined;
+  while (pos + headerLength <= data.length) {
+    const id = latin1.decode(data.subarray(pos, pos + idLength));
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+    const frameSize = version === 2 ? (view.getUint8(pos + 3) << 16) | view.getUint16(pos + 4)
+      : version === 3 ? view.getUint32(pos + 4) : syncsafe(view, pos + 4);
+    const frameFlags = version === 2 ? 0 : view.getUint16(pos + 8);
+    let body = data.subarray(pos + headerLength, pos + headerLength + frameSize);
+    pos += headerLength + frameSize;
+
+    // Compressed and encrypted frames are skipped
+    if (version === 3) {
+      if (frameFlags & 0x00c0) continue;
+      if (frameFlags & 0x0020) body = body.subarray(1);
+    } else if (version === 4) {
+      if (frameFlags & 0x000c) continue;
+      if (frameFlags & 0x0040) body = body.subarray(1);
+      if (frameFlags & 0x0001) body = body.subarray(4);
+      if (frameFlags & 0x0002) body = resync(body);
+    }
+    if (body.length < 2) continue;
+
+    const encoding = body[0];
+    if (ID3_TEXT_FRAMES[id]) {
+      text[ID3_TEXT_FRAMES[id]] ??= id3Text(encoding, body.subarray(1));
+    } else if (id === 'TLEN' || id === 'TLE') {
+      length = positive(Number(clean(id3Text(encoding, body.subarray(1)))) / 1000);
+    } else if (id === 'APIC') {
+      const mimeEnd = terminator(body, 1, false);
+      const descriptionEnd = terminator(body, mimeEnd + 2, ID3_WIDE(encoding));
+      const image = body.subarray(descriptionEnd + (ID3_WIDE(encoding) ? 2 : 1));
+      if (image.length > 0) picture = pickPicture(picture, { type: body[mimeEnd + 1], blob: pictureBlob(image, latin1.decode(body.subarray(1, mimeEnd))) });
+    } else if (id === 'PIC') {
+      const descriptionEnd = terminator(body, 5, ID3_WIDE(encoding));
+      const image = body.subarray(descriptionEnd + (ID3_WIDE(encoding) ? 2 : 1));
+      if (image.length > 0) picture = pickPicture(picture, { type: body[4], blob: pictureBlob(image, latin1.decode(body.subarray(1, 4))) });
+    }
+  }
+  return { tags: { ...fromText(text), duration: length, artwork: picture?.blob }, end };
+}
+
+// The fixed 128-byte tag some encoders still append after the audio
+async function readId3v1(blob: Blob): Promise<AudioTags> {
+  if (blob.size < 128) return {};
+  const view = await read(blob, blob.size - 128, blob.size);
+  if (latin1.decode(bytesOf(view, 0, 3)) !== 'TAG') return {};
+  const field = (start: number, length: number) => latin1.decode(bytesOf(view, start, start + length));
+  // ID3v1.1 keeps the track number in the last byte of the comment
+  const track = view.getUint8(125) === 0 ? view.getUint8(126) : 0;
+  return fromText({
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: field(93, 4),
+    track: track ? String(track) : undefined,
+    genre: view.getUint8(127) < GENRES.length ? `(${view.getUint8(127)})` : undefined,
+  });
+}
+
+// Stream info from the first frame header. Durations come from a Xing/Info or
+// VBRI frame count when the encoder wrote one, otherwise from the bitrate.
+async function readMpegInfo(blob: Blob, start: number): Promise<AudioTags> {
+  const view = await read(blob, start, start + MPEG_SYNC_WINDOW);
+  for (let i = 0; i + 4 <= view.byteLength; i++) {
+    const header = view.getUint32(i);
+    if ((header & 0xffe00000) >>> 0 !== 0xffe00000) continue;
+    const versionBits = (header >>> 19) & 3;
+    const layerBits = (header >>> 17) & 3;
+    const bitrateIndex = (header >>> 12) & 15;
+    const rateIndex = (header >>> 10) & 3;
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) continue;
+
+    const mpeg1 = versionBits === 3;
+    const layer = 4 - layerBits;
+    const sampleRate = MPEG_SAMPLE_RATES[rateIndex] / (mpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+    const channels = ((header >>> 6) & 3) === 3 ? 1 : 2;
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+    const bitrate = MPEG_BITRATES[mpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+
+    let frames: number | undefined;
+    const xing = i + 4 + (mpeg1 ? (channels === 1 ? 17 : 32) : (channels === 1 ? 9 : 17));
+    if (xing + 12 <= view.byteLength && ['Xing', 'Info'].includes(fourCC(view, xing)) && view.getUint32(xing + 4) & 1) {
+      frames = view.getUint32(xing + 8);
+    } else if (i + 54 <= view.byteLength && fourCC(view, i + 36) === 'VBRI') {
+      frames = view.getUint32(i + 50);
+    }
+    const duration = frames ? frames * samplesPerFrame / sampleRate : (blob.size - start - i) * 8 / bitrate;
+    return { sampleRate, channels, duration: positive(duration) };
+  }
+  return {};
+}
+
+// --- FLAC and Ogg ---
+
+const VORBIS_FIELDS: Record<string, keyof TextTags> = {
+  TITLE: 'title', ARTIST: 'artist', ALBUM: 'album', TRACKNUMBER: 'track', DATE: 'year', YEAR: 'year', GENRE: 'genre',
+};
+
+function readFlacPicture(view: DataView): Picture | undefined {
+  let pos = 0;
+  const type = view.getUint32(pos);
+  const mimeLength = view.getUint32(pos + 4);
+  const mime = latin1.decode(bytesOf(view, pos + 8, pos + 8 + mimeLength));
+  pos += 8 + mimeLength;
+  pos += 4 + view.getUint32(pos) + 16; // description, then width, height, depth and palette size
+  const length = view.getUint32(pos);
+  const image = bytesOf(view, pos + 4, pos + 4 + length);
+  return image.length > 0 ? { type, blob: pictureBlob(image, mime) } : undefined;
+}
+
+// Vorbis comment list (little-endian, unlike the FLAC blocks around it)
+function readVorbisComments(view: DataView, offset: number): { tags: AudioTags, picture?: Picture } {
+  let pos = offset + 4 + view.getUint32(offset, true); // vendor string
+  const count = view.getUint32(pos, true);
+  pos += 4;
+  const text: TextTags = {};
+  let albumArtist: string | undefined;
+  let picture: Picture | undefined;
+  for (let i = 0; i < count && pos + 4 <= view.byteLength; i++) {
+    const length = view.getUint32(pos, true);
+    const comment = utf8.decode(bytesOf(view, pos + 4, pos + 4 + length));
+    pos += 4 + length;
+    const split = comment.indexOf('=');
+    if (split < 0) continue;
+    const key = comment.slice(0, split).toUpperCase();
+    const value = comment.slice(split + 1);
+    if (VORBIS_FIELDS[key]) text[VORBIS_FIELDS[key]] ??= value;
+    else if (key === 'ALBUMARTIST') albumArtist ??= value;
+    else if (key === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const block = Uint8Array.from(atob(value.trim()), c => c.charCodeAt(0));
+        const next = readFlacPicture(new DataView(block.buffer));
+        if (next) picture = pickPicture(picture, next);
+      } catch (e) {
+        console.warn('Skipping unreadable embedded picture', e);
+      }
+    }
+  }
+  // ALBUMARTIST only stands in for a missing ARTIST
+  return { tags: fromText({ ...text, artist: text.artist ?? albumArtist }), picture };
+}
+
+async function readFlac(blob: Blob, start: number): Promise<AudioTags> {
+  let info: AudioTags = {};
+  let comments: AudioTags = {};
+  let picture: Picture | undefined;
+  let pos = start + 4;
+  for (;;) {
+    const header = await read(blob, pos, pos + 4);
+    if (header.byteLength < 4) break;
+    const type = header.getUint8(0) & 0x7f;
+    const length = header.getUint32(0) & 0xffffff;
+    pos += 4;
+    if (type === 0 || type === 4 || type === 6) {
+      const block = await read(blob, pos, pos + length);
+      if (type === 0) {
+        const sampleRate = block.getUint32(10) >>> 12;
+        const totalSamples = (block.getUint8(13) & 0x0f) * 2 ** 32 + block.getUint32(14);
+        info = {
+          sampleRate,
+          channels: ((block.getUint8(12) >> 1) & 7) + 1,
+          bitDepth: (((block.getUint8(12) & 1) << 4) | (block.getUint8(13) >> 4)) + 1,
+          duration: sampleRate > 0 ? positive(totalSamples / sampleRate) : undefined,
+        };
+      } else if (type === 4) {
+        const parsed = readVorbisComments(block, 0);
+        comments = parsed.tags;
+        if (parsed.picture) picture = pickPicture(picture, parsed.picture);
+      } else {
+        const next = readFlacPicture(block);
+        if (next) picture = pickPicture(picture, next);
+      }
+    }
+    pos += length;
+    if (header.getUint8(0) & 0x80) break; // last metadata block
+  }
+  return { ...comments, ...defined(info), artwork: picture?.blob };
+}
+
+// Reassembles the first two packets (identification and comments) of the
+// first logical stream; the comment packet can span several pages
+async function readOgg(blob: Blob): Promise<AudioTags> {
+  const packets: Uint8Array[] = [];
+  let partial: Uint8Array[] = [];
+  let pos = 0;
+  while (packets.length < 2 && pos + 27 <= blob.size) {
+    const page = await read(blob, pos, pos + 27);
+    if (fourCC(page, 0) !== 'OggS') break;
+    const lacing = new Uint8Array(await blob.slice(pos + 27, pos + 27 + page.getUint8(26)).arrayBuffer());
+    const bodyStart = pos + 27 + lacing.length;
+    const bodySize = lacing.reduce((sum, n) => sum + n, 0);
+    const body = new Uint8Array(await blob.slice(bodyStart, bodyStart + bodySize).arrayBuffer());
+    let offset = 0;
+    for (const lace of lacing) {
+      partial.push(body.subarray(offset, offset + lace));
+      offset += lace;
+      if (lace < 255) {
+        packets.push(concat(partial));
+        partial = [];
+        if (packets.length === 2) break;
+      }
+    }
+    pos = bodyStart + bodySize;
+  }
+  if (packets.length === 0) return {};
+
+  const [head, tags] = packets.map(p => new DataView(p.buffer, p.byteOffset, p.byteLength));
+  const magic = (view: DataView | undefined, text: string, offset = 0) =>
+    !!view && view.byteLength >= offset + text.length && latin1.decode(bytesOf(view, offset, offset + text.length)) === text;
+  let info: AudioTags;
+  let preSkip = 0;
+  let comments: ReturnType<typeof readVorbisComments> | undefined;
+  if (magic(head, '\x01vorbis')) {
+    info = { channels: head.getUint8(11), sampleRate: head.getUint32(12, true) };
+    if (magic(tags, '\x03vorbis')) comments = readVorbisComments(tags, 7);
+  } else if (magic(head, 'OpusHead')) {
+    // Opus always decodes at 48 kHz, whatever rate the source had
+    info = { channels: head.getUint8(9), sampleRate: OPUS_RATE };
+    preSkip = head.getUint16(10, true);
+    if (magic(tags, 'OpusTags')) comments = readVorbisComments(tags, 8);
+  } else {
+    return {};
+  }
+
+  // The last page's granule position is the stream length in samples
+  const tailStart = Math.max(0, blob.size - OGG_TAIL_BYTES);
+  const tail = await read(blob, tailStart, blob.size);
+  for (let i = tail.byteLength - 27; i >= 0; i--) {
+    if (fourCC(tail, i) !== 'OggS') continue;
+    const granule = tail.getUint32(i + 6, true) + tail.getUint32(i + 10, true) * 2 ** 32;
+    if (info.sampleRate) info.duration = positive((granule - preSkip) / info.sampleRate);
+    break;
+  }
+  return { ...comments?.tags, ...info, artwork: comments?.picture?.blob };
+}
+
+// --- MP4 ---
+
+interface Atom {
+  type: string;
+  start: number; // payload
+  end: number;
+}
+
+function childAtoms(view: DataView, start: number, end: number): Atom[] {
+  const atoms: Atom[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = view.getUint32(pos);
+    let header = 8;
+    if (size === 1 && pos + 16 <= end) {
+      size = view.getUint32(pos + 8) * 2 ** 32 + view.getUint32(pos + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < header || pos + size > end) break;
+    atoms.push({ type: fourCC(view, pos + 4), start: pos + header, end: pos + size });
+    pos += size;
+  }
+  return atoms;
+}
+
+const findAtom = (view: DataView, parent: Atom, path: string[]): Atom | undefined =>
+  path.reduce<Atom | undefined>((atom, type) => atom && childAtoms(view, atom.start, atom.end).find(a => a.type === type), parent);
+
+const MP4_TEXT_ATOMS: Record<string, keyof TextTags> = {
+  '©nam': 'title', '©ART': 'artist', '©alb': 'album', '©day': 'year', '©gen': 'genre',
+};
+const MP4_DATA_UTF8 = 1;
+const MP4_DATA_JPEG = 13;
+const MP4_DATA_PNG = 14;
+
+// Walks the top-level atoms by their headers so a large mdat is never loaded
+async function findMoov(blob: Blob): Promise<DataView | null> {
+  let pos = 0;
+  while (pos + 8 <= blob.size) {
+    const header = await read(blob, pos, pos + 16);
+    let size = header.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = header.getUint32(8) * 2 ** 32 + header.getUint32(12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = blob.size - pos;
+    }
+    if (size < headerSize) return null;
+    if (fourCC(header, 4) === 'moov') return read(blob, pos, pos + size);
+    pos += size;
+  }
+  return null;
+}
+
+async function readMp4(blob: Blob): Promise<AudioTags> {
+  const view = await findMoov(blob);
+  if (!view) return {};
+  const moov = childAtoms(view, 0, view.byteLength)[0];
+  const info: AudioTags = {};
+
+  const mvhd = findAtom(view, moov, ['mvhd']);
+  if (mvhd) {
+    const v1 = view.getUint8(mvhd.start) === 1;
+    const timescale = view.getUint32(mvhd.start + (v1 ? 20 : 12));
+    const duration = v1 ? view.getUint32(mvhd.start + 24) * 2 ** 32 + view.getUint32(mvhd.start + 28) : view.getUint32(mvhd.start + 16);
+    if (timescale > 0) info.duration = positive(duration / timescale);
+  }
+
+  for (const trak of childAtoms(view, moov.start, moov.end).filter(a => a.type === 'trak')) {
+    const hdlr = findAtom(view, trak, ['mdia', 'hdlr']);
+    if (!hdlr || fourCC(view, hdlr.start + 8) !== 'soun') continue;
+    const stsd = findAtom(view, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+    if (!stsd) break;
+    // First sample entry: 8 bytes of entry header, then the audio sample entry fields
+    const entry = childAtoms(view, stsd.start + 8, stsd.end)[0];
+    if (!entry || entry.end - entry.start < 28) break;
+    info.channels = view.getUint16(entry.start + 16);
+    info.sampleRate = view.getUint32(entry.start + 24) >>> 16;
+    // The ftyp brand says nothing about the codec; M4A holds AAC and ALAC alike
+    if (entry.type === 'mp4a') info.format = 'aac';
+    // Only ALAC has a meaningful bit depth; its magic cookie holds the real format
+    if (entry.type === 'alac') {
+      info.format = 'alac';
+      info.bitDepth = view.getUint16(entry.start + 18);
+      const cookie = childAtoms(view, entry.start + 28, entry.end).find(a => a.type === 'alac');
+      if (cookie && cookie.end - cookie.start >= 28) {
+        info.bitDepth = view.getUint8(cookie.start + 9);
+        info.channels = view.getUint8(cookie.start + 13);
+        info.sampleRate = view.getUint32(cookie.start + 24);
+      }
+    }
+    break;
+  }
+
+  // iTunes metadata; meta is a full atom there, with 4 bytes of version and flags
+  const meta = findAtom(view, moov, ['udta', 'meta']);
+  const text: TextTags = {};
+  let artwork: Blob | undefined;
+  let albumArtist: string | undefined;
+  let genreIndex: number | undefined;
+  if (meta) {
+    const metaChildren = view.getUint32(meta.start) === 0 ? meta.start + 4 : meta.start;
+    const ilst = childAtoms(view, metaChildren, meta.end).find(a => a.type === 'ilst');
+    for (const item of ilst ? childAtoms(view, ilst.start, ilst.end) : []) {
+      const data = childAtoms(view, item.start, item.end).find(a => a.type === 'data');
+      if (!data || data.end - data.start < 8) continue;
+      const kind = view.getUint32(data.start) & 0xffffff;
+      const value = bytesOf(view, data.start + 8, data.end);
+      if (MP4_TEXT_ATOMS[item.type] && kind === MP4_DATA_UTF8) text[MP4_TEXT_ATOMS[item.type]] = utf8.decode(value);
+      else if (item.type === 'aART' && kind === MP4_DATA_UTF8) albumArtist = utf8.decode(value);
+      else if (item.type === 'trkn' && value.length >= 4) text.track = String((value[2] << 8) | value[3]);
+      else if (item.type === 'gnre' && value.length >= 2) genreIndex = ((value[0] << 8) | value[1]) - 1;
+      else if (item.type === 'covr' && !artwork && value.length > 0) {
+        artwork = pictureBlob(value, kind === MP4_DATA_PNG ? 'image/png' : kind === MP4_DATA_JPEG ? 'image/jpeg' : '');
+      }
+    }
+  }
+  text.artist ??= albumArtist;
+  if (genreIndex !== undefined && genreIndex >= 0) text.genre ??= `(${genreIndex})`;
+  return { ...fromText(text), ...info, artwork };
+}
+
+// --- RIFF WAVE ---
+
+const RIFF_INFO_FIELDS: Record<string, keyof TextTags> = {
+  INAM: 'title', IART: 'artist', IPRD: 'album', IPRT: 'track', ITRK: 'track', ICRD: 'year', IGNR: 'genre',
+};
+
+// INFO text is nominally ASCII; writers that use UTF-8 are handled too
+function riffText(data: Uint8Array) {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch (e) {
+    return latin1.decode(data);
+  }
+}
+
+async function readRiff(blob: Blob): Promise<AudioTags> {
+  const info: AudioTags = {};
+  const text: TextTags = {};
+  let id3: AudioTags = {};
+  let blockAlign = 0;
+  let dataSize = 0;
+  let pos = 12;
+  while (pos + 8 <= blob.size) {
+    const header = await read(blob, pos, pos + 8);
+    const id = fourCC(header, 0);
+    const size = header.getUint32(4, true);
+    const start = pos + 8;
+    if (id === 'fmt ' && size >= 16) {
+      const fmt = await read(blob, start, start + Math.min(size, 40));
+      info.channels = fmt.getUint16(2, true);
+      info.sampleRate = fmt.getUint32(4, true);
+      blockAlign = fmt.getUint16(12, true);
+      // WAVE_FORMAT_EXTENSIBLE can declare fewer valid bits than the container
+      const validBits = size >= 20 && fmt.getUint16(0, true) === 0xfffe ? fmt.getUint16(18, true) : 0;
+      info.bitDepth = validBits || fmt.getUint16(14, true);
+    } else if (id === 'data') {
+      dataSize = Math.min(size, blob.size - start);
+    } else if (id === 'LIST') {
+      const list = await read(blob, start, start + size);
+      if (list.byteLength >= 4 && fourCC(list, 0) === 'INFO') {
+        let at = 4;
+        while (at + 8 <= list.byteLength) {
+          const field = RIFF_INFO_FIELDS[fourCC(list, at)];
+          const length = list.getUint32(at + 4, true);
+          if (field) text[field] ??= riffText(bytesOf(list, at + 8, Math.min(list.byteLength, at + 8 + length)));
+          at += 8 + length + (length % 2);
+        }
+      }
+    } else if ((id === 'id3 ' || id === 'ID3 ') && size >= 10) {
+      id3 = (await readId3v2(blob.slice(start, start + size))).tags;
+    }
+    // Streamed files leave the data size unset, so nothing past it can be found
+    if (size === 0xffffffff) break;
+    pos = start + size + (size % 2);
+  }
+  if (dataSize > 0 && blockAlign > 0 && info.sampleRate) info.duration = dataSize / blockAlign / info.sampleRate;
+  return merge(info, fromText(text), id3);
+}
+
+export async function readAudioTags(blob: Blob): Promise<AudioTags> {
+  try {
+    const head = await read(blob, 0, 12);
+    if (head.byteLength < 12) return {};
+    if (fourCC(head, 0) === 'fLaC') return { ...defined(await readFlac(blob, 0)), format: 'flac' };
+    if (fourCC(head, 0) === 'OggS') return { ...defined(await readOgg(blob)), format: 'ogg' };
+    if (fourCC(head, 0) === 'RIFF' && fourCC(head, 8) === 'WAVE') return { ...defined(await readRiff(blob)), format: 'wav' };
+    if (fourCC(head, 4) === 'ftyp') return defined(await readMp4(blob));
+
+    // MPEG audio, or a FLAC stream that some taggers prefix with ID3v2
+    let id3: AudioTags = {};
+    let audioStart = 0;
+    if (latin1.decode(bytesOf(head, 0, 3)) === 'ID3') {
+      ({ tags: id3, end: audioStart } = await readId3v2(blob));
+      const next = await read(blob, audioStart, audioStart + 4);
+      if (next.byteLength === 4 && fourCC(next, 0) === 'fLaC') return { ...merge(await readFlac(blob, audioStart), id3), format: 'flac' };
+    } else if ((head.getUint16(0) & 0xffe0) !== 0xffe0) {
+      return {};
+    }
+    const stream = await readMpegInfo(blob, audioStart);
+    // A length frame in the tag beats a bitrate estimate
+    return { ...merge({ ...stream, duration: id3.duration ?? stream.duration }, id3, await readId3v1(blob)), format: 'mp3' };
+  } catch (e) {
+    console.warn('Could not read audio tags', e);
+    return {};
+  }
+}
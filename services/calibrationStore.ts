@@ -0,0 +1,45 @@
+import { CalibrationProfile } from '../types';
+
+// Room calibration profiles live in localStorage; they describe the listening
+// room, not the music, so they stay out of presets and song profiles.
+class CalibrationStore {
+  private storageKey = 'stagepov_calibrations';
+
+  getProfiles(): CalibrationProfile[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return [];
+      const profiles: CalibrationProfile[] = JSON.parse(stored);
+      return profiles.filter(p => typeof p?.id === 'string' && Array.isArray(p.channels) && Array.isArray(p.eqBands));
+    } catch (e) {
+      console.warn('Failed to load calibration profiles', e);
+      return [];
+    }
+  }
+
+  getProfile(id: string): CalibrationProfile | undefined {
+    return this.getProfiles().find(p => p.id === id);
+  }
+
+  saveProfile(profile: CalibrationProfile) {
+    this.store([...this.getProfiles().filter(p => p.id !== profile.id), profile]);
+  }
+
+  renameProfile(id: string, name: string) {
+    this.store(this.getProfiles().map(p => p.id === id ? { ...p, name } : p));
+  }
+
+  deleteProfile(id: string) {
+    this.store(this.getProfiles().filter(p => p.id !== id));
+  }
+
+  private store(profiles: CalibrationProfile[]) {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(profiles));
+    } catch (e) {
+      console.error('Failed to save calibration profiles', e);
+    }
+  }
+}
+
+export const calibrationStore = new CalibrationStore();
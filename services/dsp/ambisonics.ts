@@ -0,0 +1,194 @@
+import { ListenerOrientation } from '../../types';
+import { rotateToRoom, Vec3 } from './orientation';
+
+// Higher-order Ambisonics in the AmbiX convention: ACN channel order, SN3D
+// normalisation, azimuth counter-clockwise from the front and elevation up.
+// Directions are unit vectors in Ambisonic axes (+x front, +y left, +z up).
+
+export const MAX_AMBISONIC_ORDER = 3;
+
+export const ambisonicChannels = (order: number) => (order + 1) * (order + 1);
+const acnDegree = (acn: number) => Math.floor(Math.sqrt(acn));
+
+export function directionVector(azimuth: number, elevation: number): Vec3 {
+  return [Math.cos(azimuth) * Math.cos(elevation), Math.sin(azimuth) * Math.cos(elevation), Math.sin(elevation)];
+}
+
+// Web Audio axes: +x right, +y up, -z ahead
+export const fromWebAudio = ([x, y, z]: Vec3): Vec3 => [-z, -x, y];
+export const toWebAudio = ([x, y, z]: Vec3): Vec3 => [-y, z, -x];
+
+const factorial = (n: number) => {
+  let f = 1;
+  for (let i = 2; i <= n; i++) f *= i;
+  return f;
+};
+
+// Associated Legendre P_l^m(x) for m >= 0, without the Condon-Shortley phase
+function legendre(l: number, m: number, x: number) {
+  let pmm = 1;
+  const s = Math.sqrt(Math.max(0, 1 - x * x));
+  for (let i = 1; i <= m; i++) pmm *= (2 * i - 1) * s;
+  if (l === m) return pmm;
+  let pmm1 = x * (2 * m + 1) * pmm;
+  for (let ll = m + 2; ll <= l; ll++) {
+    const next = ((2 * ll - 1) * x * pmm1 - (ll + m - 1) * pmm) / (ll - m);
+    pmm = pmm1;
+    pmm1 = next;
+  }
+  return pmm1;
+}
+
+// Real SN3D spherical harmonics of `direction` in ACN order; these are also
+// the encoding gains of a plane wave from that direction (W = 1).
+export function sphericalHarmonics(order: number, [x, y, z]: Vec3): Float64Array {
+  const azimuth = Math.atan2(y, x);
+  const sinElevation = Math.max(-1, Math.min(1, z));
+  const result = new Float64Array(ambisonicChannels(order));
+  for (let l = 0; l <= order; l++) {
+    for (let m = -l; m <= l; m++) {
+      const am = Math.abs(m);
+      const norm = Math.sqrt(((m === 0 ? 1 : 2) * factorial(l - am)) / factorial(l + am));
+      const trig = m > 0 ? Math.cos(am * azimuth) : m < 0 ? Math.sin(am * azimuth) : 1;
+      result[l * l + l + m] = norm * legendre(l, am, sinElevation) * trig;
+    }
+  }
+  return result;
+}
+
+// Roughly even points on the sphere, for fitting and normalising matrices
+function fibonacciSphere(count: number): Vec3[] {
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  return Array.from({ length: count }, (_, i) => {
+    const z = 1 - (2 * (i + 0.5)) / count;
+    const r = Math.sqrt(1 - z * z);
+    return [r * Math.cos(golden * i), r * Math.sin(golden * i), z] as Vec3;
+  });
+}
+const FIT_POINTS = fibonacciSphere(64);
+
+// Solves G X = B for symmetric positive definite G (n x n), B (n x k), in place
+function solve(G: number[][], B: number[][]) {
+  const n = G.length;
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(G[r][c]) > Math.abs(G[pivot][c])) pivot = r;
+    [G[c], G[pivot]] = [G[pivot], G[c]];
+    [B[c], B[pivot]] = [B[pivot], B[c]];
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const f = G[r][c] / G[c][c];
+      for (let k = c; k < n; k++) G[r][k] -= f * G[c][k];
+      for (let k = 0; k < B[r].length; k++) B[r][k] -= f * B[c][k];
+    }
+  }
+  return B.map((row, r) => row.map(v => v / G[r][r]));
+}
+
+// Matrix (channels x channels, row-major) that re-expresses a sound field in
+// the listener's head frame: rotating the field against the head's turn keeps
+// sources fixed in the room. Rotations never mix degrees, so each degree's
+// block is fitted separately from harmonics sampled around the sphere.
+export function rotationMatrix(order: number, orientation: ListenerOrientation): Float64Array[] {
+  const channels = ambisonicChannels(order);
+  const toHead = (d: Vec3): Vec3 => {
+    const v = toWebAudio(d);
+    const axes = [rotateToRoom([1, 0, 0], orientation), rotateToRoom([0, 1, 0], orientation), rotateToRoom([0, 0, 1], orientation)];
+    return fromWebAudio(axes.map(a => a[0] * v[0] + a[1] * v[1] + a[2] * v[2]) as Vec3);
+  };
+  const roomHarmonics = FIT_POINTS.map(d => sphericalHarmonics(order, d));
+  const headHarmonics = FIT_POINTS.map(d => sphericalHarmonics(order, toHead(d)));
+
+  const matrix = Array.from({ length: channels }, () => new Float64Array(channels));
+  for (let l = 0; l <= order; l++) {
+    const first = l * l;
+    const size = 2 * l + 1;
+    // Least squares: M (A A^T) = B A^T with A the room and B the head harmonics
+    const AAt = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) =>
+      roomHarmonics.reduce((sum, a) => sum + a[first + i] * a[first + j], 0)));
+    const ABt = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) =>
+      roomHarmonics.reduce((sum, a, p) => sum + a[first + i] * headHarmonics[p][first + j], 0)));
+    // (A A^T) M^T = A B^T
+    const Mt = solve(AAt, ABt);
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) matrix[first + i][first + j] = Mt[j][i];
+    }
+  }
+  return matrix;
+}
+
+// Max-rE weights per degree, which trade a little localisation sharpness for
+// much smaller side lobes on sparse loudspeaker sets
+function maxReWeights(order: number) {
+  const rE = Math.cos((137.9 * Math.PI) / 180 / (order + 1.51));
+  return Array.from({ length: order + 1 }, (_, l) => legendre(l, 0, rE));
+}
+
+// Sampling decoder with max-rE weighting: one row of channel gains per
+// loudspeaker direction, scaled so a plane wave keeps unit energy on average.
+export function decoderMatrix(order: number, speakers: Vec3[]): Float64Array[] {
+  const channels = ambisonicChannels(order);
+  const weights = maxReWeights(order);
+  const decoder = speakers.map(d => {
+    const harmonics = sphericalHarmonics(order, d);
+    return harmonics.map((y, acn) => {
+      const l = acnDegree(acn);
+      return (weights[l] * (2 * l + 1) * y) / speakers.length;
+    });
+  });
+
+  let energy = 0;
+  FIT_POINTS.forEach(d => {
+    const encoded = sphericalHarmonics(order, d);
+    decoder.forEach(row => {
+      let gain = 0;
+      for (let n = 0; n < channels; n++) gain += row[n] * encoded[n];
+      energy += gain * gain;
+    });
+  });
+  const scale = 1 / Math.sqrt(energy / FIT_POINTS.length);
+  decoder.forEach(row => row.forEach((v, n) => row[n] = v * scale));
+  return decoder;
+}
+
+// (A x B), both row-major arrays of rows
+export function multiplyMatrices(a: Float64Array[], b: Float64Array[]): Float64Array[] {
+  return a.map(row => {
+    const out = new Float64Array(b[0].length);
+    row.forEach((v, k) => {
+      if (v === 0) return;
+      for (let j = 0; j < out.length; j++) out[j] += v * b[k][j];
+    });
+    return out;
+  });
+}
+
+export const identityMatrix = (size: number) =>
+  Array.from({ length: size }, (_, i) => { const row = new Float64Array(size); row[i] = 1; return row; });
+
+// Virtual loudspeakers for binaural decoding: the smallest regular solid with
+// at least as many vertices as the order has channels
+export function virtualSpeakerDirections(order: number): Vec3[] {
+  const phi = (1 + Math.sqrt(5)) / 2;
+  const signs = [1, -1];
+  let points: Vec3[];
+  if (order <= 1) {
+    points = [];
+    signs.forEach(x => signs.forEach(y => signs.forEach(z => points.push([x, y, z]))));
+  } else if (order === 2) {
+    points = [];
+    signs.forEach(a => signs.forEach(b => {
+      points.push([0, a, b * phi], [a, b * phi, 0], [b * phi, 0, a]);
+    }));
+  } else {
+    points = [];
+    signs.forEach(x => signs.forEach(y => signs.forEach(z => points.push([x, y, z]))));
+    signs.forEach(a => signs.forEach(b => {
+      points.push([0, a / phi, b * phi], [a / phi, b * phi, 0], [b * phi, 0, a / phi]);
+    }));
+  }
+  return points.map(p => {
+    const length = Math.hypot(...p);
+    return p.map(v => v / length) as Vec3;
+  });
+}
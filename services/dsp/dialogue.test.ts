@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { DialogueEnhancer } from './dialogue';
+
+const RATE = 48000;
+const BLOCK = 128;
+// The enhancer's STFT frame, which is also its latency
+const FRAME_SIZE = 1024;
+
+// Small seeded generator so the noise is the same on every run
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 31 - 1;
+  };
+}
+
+// A 180 Hz voice whose harmonics run up through the formants, its level
+// swinging between syllables four times a second
+function voice(length: number) {
+  return Float32Array.from({ length }, (_, i) => {
+    const t = i / RATE;
+    let sample = 0;
+    for (let h = 1; 180 * h < 3400; h++) sample += Math.sin(2 * Math.PI * 180 * h * t) * (h === 1 ? 0.3 : 1 / Math.sqrt(h));
+    const syllable = 0.1 + 0.9 * Math.sin(2 * Math.PI * 4 * t) ** 2;
+    return 0.1 * syllable * sample;
+  });
+}
+
+function run(enhancer: DialogueEnhancer, left: Float32Array, right: Float32Array) {
+  const outLeft = new Float32Array(left.length);
+  const outRight = new Float32Array(left.length);
+  const probability: number[] = [];
+  for (let i = 0; i < left.length; i += BLOCK) {
+    enhancer.process(left.subarray(i, i + BLOCK), right.subarray(i, i + BLOCK), outLeft.subarray(i, i + BLOCK), outRight.subarray(i, i + BLOCK), BLOCK);
+    probability.push(enhancer.speechProbability);
+  }
+  return { outLeft, outRight, probability };
+}
+
+// Mid or side energy over [from, to), in dB
+function energyDb(left: Float32Array, right: Float32Array, sign: 1 | -1, from: number, to: number) {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += (0.5 * (left[i] + sign * right[i])) ** 2;
+  return 10 * Math.log10(sum + 1e-20);
+}
+
+describe('DialogueEnhancer', () => {
+  it('hears a centered voice, lifts it and ducks the side noise', () => {
+    const length = 4 * RATE;
+    const speech = voice(length);
+    const random = noise(1);
+    const side = Float32Array.from({ length }, () => 0.05 * random());
+    const left = speech.map((s, i) => s + side[i]);
+    const right = speech.map((s, i) => s - side[i]);
+
+    const enhancer = new DialogueEnhancer(RATE);
+    enhancer.setAmount(1);
+    const { outLeft, outRight, probability } = run(enhancer, left, right);
+
+    // Once it has heard a few syllables; compare the last two seconds, output shifted back by the latency
+    const settled = probability.slice(probability.length / 2);
+    expect(Math.min(...settled)).toBeGreaterThan(0.5);
+    const from = 2 * RATE;
+    const to = length - FRAME_SIZE;
+    const lift = energyDb(outLeft.subarray(FRAME_SIZE), outRight.subarray(FRAME_SIZE), 1, from, to) - energyDb(left, right, 1, from, to);
+    const duck = energyDb(outLeft.subarray(FRAME_SIZE), outRight.subarray(FRAME_SIZE), -1, from, to) - energyDb(left, right, -1, from, to);
+    expect(lift).toBeGreaterThan(6);
+    expect(duck).toBeLessThan(-6);
+  });
+
+  it.each([
+    ['a steady tone', (length: number) => Float32Array.from({ length }, (_, i) => 0.3 * Math.sin(2 * Math.PI * 1000 * i / RATE))],
+    ['broadband noise', (length: number) => {
+      const random = noise(2);
+      return Float32Array.from({ length }, () => 0.3 * random());
+    }],
+  ])('does not take %s for speech', (_, signal) => {
+    const mono = signal(4 * RATE);
+    const enhancer = new DialogueEnhancer(RATE);
+    enhancer.setAmount(1);
+    const { probability } = run(enhancer, mono, mono);
+    // The onset moves the level once; it must not get past the enhancer's speech gate
+    expect(Math.max(...probability)).toBeLessThan(0.5);
+    expect(Math.max(...probability.slice(probability.length / 2))).toBeLessThan(0.05);
+  });
+
+  it('passes the input through, delayed by one frame, at amount 0', () => {
+    const length = RATE / 2;
+    const random = noise(3);
+    const left = voice(length).map(s => s + 0.1 * random());
+    const right = Float32Array.from({ length }, () => 0.2 * random());
+
+    const { outLeft, outRight } = run(new DialogueEnhancer(RATE), left, right);
+
+    let error = 0;
+    for (let i = 0; i < length; i++) {
+      const inLeft = i < FRAME_SIZE ? 0 : left[i - FRAME_SIZE];
+      const inRight = i < FRAME_SIZE ? 0 : right[i - FRAME_SIZE];
+      error = Math.max(error, Math.abs(outLeft[i] - inLeft), Math.abs(outRight[i] - inRight));
+    }
+    expect(error).toBeLessThan(1e-5);
+  });
+});
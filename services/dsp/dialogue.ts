@@ -0,0 +1,258 @@
+import { FFT, sqrtHannWindow } from './fft';
+
+// Dialogue enhancement on a stereo programme. Dialogue is almost always
+// mixed to the center, so the signal is split into mid and side; a speech
+// detector watches the mid spectrum, and while it hears speech the centered
+// bins of the speech band are lifted (and levelled around their running
+// average) while the side and the rest of the mid are ducked. Everything here
+// is plain arithmetic so it runs the same in the worklet and in node.
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = FRAME_SIZE / 2;
+const BINS = FRAME_SIZE / 2 + 1;
+
+// Fundamental plus formants; what the detector listens to and what gets lifted
+const SPEECH_BAND: [number, number] = [300, 3400];
+const DIALOGUE_BAND: [number, number] = [150, 5000];
+const ANALYSIS_BAND: [number, number] = [60, 8000];
+
+const MAX_BOOST_DB = 9;
+const MAX_DUCK_DB = 8;
+const MAX_LEVELLING_DB = 6;
+// Syllables come 3-8 times a second; this much history covers a few
+const MODULATION_SECONDS = 0.5;
+const DETECTOR_ATTACK = 0.05;
+const DETECTOR_RELEASE = 0.3;
+const LEVEL_AVERAGE_SECONDS = 3;
+const CENTER_SMOOTHING_SECONDS = 0.05;
+const GAIN_SMOOTHING_SECONDS = 0.03;
+
+// Below this (roughly dBFS) the speech band counts as silent
+const SILENCE_DB = -60;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const powerDb = (power: number) => 10 * Math.log10(power + 1e-12);
+// Spectrum power of a full-scale sine through the sqrt-Hann window, so band
+// levels read approximately in dBFS
+const FULL_SCALE_POWER = (FRAME_SIZE / Math.PI) ** 2;
+
+// Frame-by-frame speech activity from a power spectrum. Three cues: how much
+// of the energy sits in the speech band, how tonal (harmonic) that band is,
+// and how strongly its level moves at syllable rate. A steady tone scores on
+// the first two but not the third; broadband noise fails all three.
+export class SpeechDetector {
+  private lowBin: number;
+  private highBin: number;
+  private analysisLow: number;
+  private analysisHigh: number;
+  private history: Float64Array;
+  private historyPos = 0;
+  private historyCount = 0;
+  private attack: number;
+  private release: number;
+  probability = 0;
+
+  constructor(rate: number, fftSize: number, framesPerSecond: number) {
+    const bin = (hz: number) => Math.min(fftSize / 2, Math.max(1, Math.round((hz / rate) * fftSize)));
+    this.lowBin = bin(SPEECH_BAND[0]);
+    this.highBin = bin(SPEECH_BAND[1]);
+    this.analysisLow = bin(ANALYSIS_BAND[0]);
+    this.analysisHigh = bin(ANALYSIS_BAND[1]);
+    this.history = new Float64Array(Math.max(4, Math.round(MODULATION_SECONDS * framesPerSecond)));
+    this.attack = 1 - Math.exp(-1 / (DETECTOR_ATTACK * framesPerSecond));
+    this.release = 1 - Math.exp(-1 / (DETECTOR_RELEASE * framesPerSecond));
+  }
+
+  // `power` is |X[k]|^2 for k = 0..fftSize/2; returns the smoothed probability
+  process(power: Float64Array) {
+    let band = 0, total = 0, logSum = 0;
+    for (let k = this.analysisLow; k <= this.analysisHigh; k++) total += power[k];
+    for (let k = this.lowBin; k <= this.highBin; k++) {
+      band += power[k];
+      logSum += Math.log(power[k] + 1e-12);
+    }
+    const bins = this.highBin - this.lowBin + 1;
+    const ratio = total > 0 ? band / total : 0;
+    const flatness = band > 0 ? Math.exp(logSum / bins) / (band / bins) : 1;
+
+    const level = Math.max(SILENCE_DB, powerDb(band / FULL_SCALE_POWER));
+    this.history[this.historyPos] = level;
+    this.historyPos = (this.historyPos + 1) % this.history.length;
+    this.historyCount = Math.min(this.history.length, this.historyCount + 1);
+    let mean = 0;
+    for (let i = 0; i < this.historyCount; i++) mean += this.history[i];
+    mean /= this.historyCount;
+    let variance = 0;
+    for (let i = 0; i < this.historyCount; i++) variance += (this.history[i] - mean) ** 2;
+    const modulation = Math.sqrt(variance / this.historyCount);
+
+    // Silence is not speech, however it scores otherwise
+    const audible = level > SILENCE_DB ? 1 : 0;
+    // Weighted so a level that never moves outvotes even a perfectly harmonic speech band
+    const score = 4 * (ratio - 0.5) + 3 * (0.5 - flatness) + 1.5 * (modulation - 4);
+    const target = audible / (1 + Math.exp(-2 * score));
+
+    const coef = target > this.probability ? this.attack : this.release;
+    this.probability += (target - this.probability) * coef;
+    return this.probability;
+  }
+
+  reset() {
+    this.history.fill(0);
+    this.historyPos = 0;
+    this.historyCount = 0;
+    this.probability = 0;
+  }
+}
+
+export class DialogueEnhancer {
+  private fft = new FFT(FRAME_SIZE);
+  private window = sqrtHannWindow(FRAME_SIZE);
+  private detector: SpeechDetector;
+  private amount = 0;
+
+  private inM = new Float32Array(FRAME_SIZE);
+  private inS = new Float32Array(FRAME_SIZE);
+  private accM = new Float32Array(FRAME_SIZE);
+  private accS = new Float32Array(FRAME_SIZE);
+  private fifoM = new Float32Array(HOP_SIZE);
+  private fifoS = new Float32Array(HOP_SIZE);
+  private fifoPos = 0;
+
+  private reM = new Float64Array(FRAME_SIZE);
+  private imM = new Float64Array(FRAME_SIZE);
+  private reS = new Float64Array(FRAME_SIZE);
+  private imS = new Float64Array(FRAME_SIZE);
+  private power = new Float64Array(BINS);
+
+  // Per-bin weight of the dialogue band and the smoothed mid/side powers
+  private bandWeight = new Float64Array(BINS);
+  private pM = new Float64Array(BINS);
+  private pS = new Float64Array(BINS);
+  private midGains = new Float64Array(BINS).fill(1);
+  private sideGain = 1;
+  private centerAlpha: number;
+  private gainAlpha: number;
+  private levelAlpha: number;
+  // Running level of the centered speech band while speech is present
+  private dialogueLevel: number | null = null;
+
+  constructor(rate: number) {
+    const framesPerSecond = rate / HOP_SIZE;
+    this.detector = new SpeechDetector(rate, FRAME_SIZE, framesPerSecond);
+    this.centerAlpha = Math.exp(-1 / (CENTER_SMOOTHING_SECONDS * framesPerSecond));
+    this.gainAlpha = Math.exp(-1 / (GAIN_SMOOTHING_SECONDS * framesPerSecond));
+    this.levelAlpha = Math.exp(-1 / (LEVEL_AVERAGE_SECONDS * framesPerSecond));
+    // Raised-cosine edges so the lifted region has no hard spectral steps
+    for (let k = 0; k < BINS; k++) {
+      const hz = (k * rate) / FRAME_SIZE;
+      const [low, high] = DIALOGUE_BAND;
+      if (hz < low / 2 || hz > high * 2) continue;
+      if (hz < low) this.bandWeight[k] = 0.5 - 0.5 * Math.cos(Math.PI * (hz - low / 2) / (low / 2));
+      else if (hz > high) this.bandWeight[k] = 0.5 + 0.5 * Math.cos(Math.PI * (hz - high) / high);
+      else this.bandWeight[k] = 1;
+    }
+  }
+
+  // 0 is transparent, 1 is the strongest lift and duck
+  setAmount(amount: number) {
+    this.amount = Math.max(0, Math.min(1, amount));
+  }
+
+  get speechProbability() {
+    return this.detector.probability;
+  }
+
+  // Output lags the input by FRAME_SIZE samples
+  process(left: Float32Array | undefined, right: Float32Array | undefined, outLeft: Float32Array, outRight: Float32Array, length: number) {
+    for (let i = 0; i < length; i++) {
+      const l = left ? left[i] : 0;
+      const r = right ? right[i] : l;
+      this.inM[HOP_SIZE + this.fifoPos] = 0.5 * (l + r);
+      this.inS[HOP_SIZE + this.fifoPos] = 0.5 * (l - r);
+      const m = this.fifoM[this.fifoPos];
+      const s = this.fifoS[this.fifoPos];
+      outLeft[i] = m + s;
+      outRight[i] = m - s;
+
+      this.fifoPos++;
+      if (this.fifoPos === HOP_SIZE) {
+        this.fifoPos = 0;
+        this.processFrame();
+        this.inM.copyWithin(0, HOP_SIZE);
+        this.inS.copyWithin(0, HOP_SIZE);
+      }
+    }
+  }
+
+  private processFrame() {
+    const { reM, imM, reS, imS, window, power } = this;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      reM[i] = this.inM[i] * window[i];
+      reS[i] = this.inS[i] * window[i];
+      imM[i] = 0;
+      imS[i] = 0;
+    }
+    this.fft.forward(reM, imM);
+    this.fft.forward(reS, imS);
+
+    for (let k = 0; k < BINS; k++) power[k] = reM[k] * reM[k] + imM[k] * imM[k];
+    const speech = this.detector.process(power);
+
+    // How centered each bin is, and the level of the centered speech band
+    const a = this.centerAlpha;
+    let dialoguePower = 0;
+    for (let k = 0; k < BINS; k++) {
+      this.pM[k] = a * this.pM[k] + (1 - a) * power[k];
+      this.pS[k] = a * this.pS[k] + (1 - a) * (reS[k] * reS[k] + imS[k] * imS[k]);
+      dialoguePower += this.bandWeight[k] * this.centerness(k) * power[k];
+    }
+    const level = powerDb(dialoguePower / FULL_SCALE_POWER);
+    if (speech > 0.5) {
+      this.dialogueLevel = this.dialogueLevel === null ? level : this.levelAlpha * this.dialogueLevel + (1 - this.levelAlpha) * level;
+    }
+
+    // Lift dialogue, pulling it 2:1 towards its running level, and duck the rest
+    const levelling = this.dialogueLevel === null ? 0
+      : Math.max(-MAX_LEVELLING_DB, Math.min(MAX_LEVELLING_DB, 0.5 * (this.dialogueLevel - level)));
+    const liftDb = this.amount * speech * (MAX_BOOST_DB + levelling);
+    const duckDb = -this.amount * speech * MAX_DUCK_DB;
+
+    const g = this.gainAlpha;
+    this.sideGain = g * this.sideGain + (1 - g) * dbToGain(duckDb);
+    for (let k = 0; k < BINS; k++) {
+      const mask = this.bandWeight[k] * this.centerness(k);
+      const target = dbToGain(mask * liftDb + (1 - mask) * duckDb);
+      this.midGains[k] = g * this.midGains[k] + (1 - g) * target;
+      this.setBin(reM, imM, k, reM[k] * this.midGains[k], imM[k] * this.midGains[k]);
+      this.setBin(reS, imS, k, reS[k] * this.sideGain, imS[k] * this.sideGain);
+    }
+
+    this.overlapAdd(reM, imM, this.accM, this.fifoM);
+    this.overlapAdd(reS, imS, this.accS, this.fifoS);
+  }
+
+  // 1 when a bin is all mid, 0 when it is all side
+  private centerness(k: number) {
+    const total = this.pM[k] + this.pS[k];
+    return total > 0 ? this.pM[k] / total : 0;
+  }
+
+  // Writes bin k and its conjugate mirror so the inverse transform is real
+  private setBin(re: Float64Array, im: Float64Array, k: number, valueRe: number, valueIm: number) {
+    re[k] = valueRe;
+    im[k] = valueIm;
+    if (k > 0 && k < FRAME_SIZE / 2) {
+      re[FRAME_SIZE - k] = valueRe;
+      im[FRAME_SIZE - k] = -valueIm;
+    }
+  }
+
+  private overlapAdd(re: Float64Array, im: Float64Array, acc: Float32Array, fifo: Float32Array) {
+    this.fft.inverse(re, im);
+    for (let i = 0; i < FRAME_SIZE; i++) acc[i] += re[i] * this.window[i];
+    fifo.set(acc.subarray(0, HOP_SIZE));
+    acc.copyWithin(0, HOP_SIZE);
+    acc.fill(0, FRAME_SIZE - HOP_SIZE);
+  }
+}
@@ -0,0 +1,84 @@
+// In-place iterative radix-2 complex FFT. Sizes must be a power of two.
+// Shared by the AudioWorklet processors and the offline analysis code.
+export class FFT {
+  readonly size: number;
+  private cosTable: Float32Array;
+  private sinTable: Float32Array;
+  private reverse: Uint32Array;
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${size}`);
+    }
+    this.size = size;
+    this.cosTable = new Float32Array(size / 2);
+    this.sinTable = new Float32Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / size);
+    }
+
+    const bits = Math.log2(size);
+    this.reverse = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+      this.reverse[i] = r;
+    }
+  }
+
+  forward(re: Float32Array | Float64Array, im: Float32Array | Float64Array) {
+    this.transform(re, im, false);
+  }
+
+  // Scaled by 1/N so that inverse(forward(x)) === x
+  inverse(re: Float32Array | Float64Array, im: Float32Array | Float64Array) {
+    this.transform(re, im, true);
+    const scale = 1 / this.size;
+    for (let i = 0; i < this.size; i++) {
+      re[i] *= scale;
+      im[i] *= scale;
+    }
+  }
+
+  private transform(re: Float32Array | Float64Array, im: Float32Array | Float64Array, inverse: boolean) {
+    const n = this.size;
+    for (let i = 0; i < n; i++) {
+      const j = this.reverse[i];
+      if (j > i) {
+        let t = re[i]; re[i] = re[j]; re[j] = t;
+        t = im[i]; im[i] = im[j]; im[j] = t;
+      }
+    }
+
+    const sign = inverse ? 1 : -1;
+    for (let len = 2; len <= n; len <<= 1) {
+      const half = len >> 1;
+      const step = n / len;
+      for (let start = 0; start < n; start += len) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cosTable[k * step];
+          const wi = sign * this.sinTable[k * step];
+          const a = start + k;
+          const b = a + half;
+          const xr = re[b] * wr - im[b] * wi;
+          const xi = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - xr;
+          im[b] = im[a] - xi;
+          re[a] += xr;
+          im[a] += xi;
+        }
+      }
+    }
+  }
+}
+
+// Periodic sqrt-Hann window: applied at both analysis and synthesis it
+// reconstructs perfectly at 50% overlap.
+export function sqrtHannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = Math.sqrt(0.5 * (1 - Math.cos((2 * Math.PI * i) / size)));
+  }
+  return window;
+}
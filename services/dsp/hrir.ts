@@ -0,0 +1,137 @@
+import { HrirSet } from '../../types';
+import { Vec3 } from './orientation';
+
+// Head-related impulse responses for the convolution binaural renderer:
+// interpolation between measured directions, resampling to the engine rate,
+// and a spherical head model (Brown & Duda) that needs no measurements.
+// Directions use SOFA axes: +x ahead, +y left, +z up.
+
+export interface Hrir {
+  left: Float32Array;
+  right: Float32Array;
+}
+
+const DEG = Math.PI / 180;
+const NEIGHBOURS = 3;
+// A response starts where it first comes within 20 dB of its peak
+const ONSET_THRESHOLD = 0.1;
+const SINC_HALF_WIDTH = 16; // zero crossings each side
+
+const HEAD_RADIUS = 0.0875; // in meters
+const SPEED_OF_SOUND = 343;
+const EAR_AZIMUTH = 100 * DEG; // ears sit slightly behind the centre of the head
+const MIN_SHADOW = 0.1; // head shadow gain at high frequencies, fully shadowed
+const SHADOW_ANGLE = 150 * DEG; // angle from the ear where the shadow is deepest
+const MODEL_LENGTH_SECONDS = 0.005;
+const MODEL_PRE_DELAY = 8; // samples, room for the fractional delay kernel
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const angleBetween = (a: Vec3, b: Vec3) => Math.acos(Math.max(-1, Math.min(1, dot(a, b))));
+const sinc = (x: number) => x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+
+function onset(ir: Float32Array) {
+  let peak = 0;
+  ir.forEach(v => peak = Math.max(peak, Math.abs(v)));
+  const index = ir.findIndex(v => Math.abs(v) >= peak * ONSET_THRESHOLD);
+  return Math.max(0, index);
+}
+
+// Lines responses up by onset before mixing them and then delays the mix by
+// the weighted onset, so the interaural delay is interpolated rather than
+// smeared into a comb filter
+function blend(irs: Float32Array[], weights: number[]): Float32Array {
+  const onsets = irs.map(onset);
+  const target = Math.round(onsets.reduce((sum, o, k) => sum + o * weights[k], 0));
+  const out = new Float32Array(Math.max(...irs.map(ir => ir.length)));
+  irs.forEach((ir, k) => {
+    const shift = target - onsets[k];
+    for (let n = 0; n < ir.length; n++) {
+      const at = n + shift;
+      if (at >= 0 && at < out.length) out[at] += weights[k] * ir[n];
+    }
+  });
+  return out;
+}
+
+// Inverse-angle weighting of the nearest measured directions
+export function interpolateHrir(set: HrirSet, direction: Vec3): Hrir {
+  const nearest = set.directions
+    .map((d, index) => ({ index, angle: angleBetween(d, direction) }))
+    .sort((a, b) => a.angle - b.angle)
+    .slice(0, NEIGHBOURS);
+  if (nearest[0].angle < 1e-6) {
+    const { index } = nearest[0];
+    return { left: set.left[index].slice(), right: set.right[index].slice() };
+  }
+  const inverse = nearest.map(n => 1 / n.angle);
+  const total = inverse.reduce((a, b) => a + b, 0);
+  const weights = inverse.map(w => w / total);
+  return {
+    left: blend(nearest.map(n => set.left[n.index]), weights),
+    right: blend(nearest.map(n => set.right[n.index]), weights),
+  };
+}
+
+// Windowed-sinc resampling. Scaling by from/to keeps the frequency response
+// (not the sample values) the same, and going down the kernel also low-passes
+// below the new Nyquist.
+export function resampleHrir(ir: Float32Array, from: number, to: number): Float32Array {
+  if (from === to) return ir.slice();
+  const ratio = to / from;
+  const cutoff = Math.min(1, ratio);
+  const half = SINC_HALF_WIDTH / cutoff;
+  const out = new Float32Array(Math.ceil(ir.length * ratio));
+  for (let n = 0; n < out.length; n++) {
+    const center = n / ratio;
+    let sum = 0;
+    for (let k = Math.max(0, Math.ceil(center - half)); k <= Math.min(ir.length - 1, Math.floor(center + half)); k++) {
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * (k - center)) / half);
+      sum += ir[k] * sinc((k - center) * cutoff) * window;
+    }
+    out[n] = (sum * cutoff) / ratio;
+  }
+  return out;
+}
+
+// Scale that brings the set's diffuse-field power gain (the response energy
+// averaged over every direction and both ears) to unity, so sets measured at
+// different levels play back at the same loudness
+export function diffuseFieldScale(set: HrirSet) {
+  let energy = 0;
+  [...set.left, ...set.right].forEach(ir => ir.forEach(v => energy += v * v));
+  const mean = energy / (set.left.length + set.right.length);
+  return mean > 0 ? 1 / Math.sqrt(mean) : 1;
+}
+
+// Spherical head: Woodworth's delay around the sphere to each ear, and a
+// one-pole, one-zero head shadow that lifts the highs up to 6 dB facing the
+// ear and cuts them to MIN_SHADOW behind it
+export function sphericalHeadHrir(direction: Vec3, sampleRate: number): Hrir {
+  const length = Math.ceil(MODEL_LENGTH_SECONDS * sampleRate);
+  const ear = (side: 1 | -1) => {
+    const theta = angleBetween([Math.cos(EAR_AZIMUTH), side * Math.sin(EAR_AZIMUTH), 0], direction);
+    const alpha = 1 + MIN_SHADOW / 2 + (1 - MIN_SHADOW / 2) * Math.cos((theta / SHADOW_ANGLE) * Math.PI);
+    const path = theta < Math.PI / 2 ? -Math.cos(theta) : theta - Math.PI / 2;
+    const delay = MODEL_PRE_DELAY + ((path + 1) * HEAD_RADIUS * sampleRate) / SPEED_OF_SOUND;
+
+    // Fractionally delayed impulse through the bilinear-transformed shadow filter
+    const k = (sampleRate * HEAD_RADIUS) / SPEED_OF_SOUND;
+    const b0 = (alpha * k + 1) / (k + 1);
+    const b1 = (1 - alpha * k) / (k + 1);
+    const a1 = (1 - k) / (k + 1);
+    const out = new Float32Array(length);
+    let previousIn = 0;
+    let previousOut = 0;
+    for (let n = 0; n < length; n++) {
+      const offset = n - delay;
+      const input = Math.abs(offset) < MODEL_PRE_DELAY
+        ? sinc(offset) * (0.5 + 0.5 * Math.cos((Math.PI * offset) / MODEL_PRE_DELAY))
+        : 0;
+      previousOut = b0 * input + b1 * previousIn - a1 * previousOut;
+      previousIn = input;
+      out[n] = previousOut;
+    }
+    return out;
+  };
+  return { left: ear(1), right: ear(-1) };
+}
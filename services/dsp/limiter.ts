@@ -0,0 +1,119 @@
+import { LimiterSettings } from '../../types';
+import { TruePeakDetector, TRUE_PEAK_LATENCY } from './truePeak';
+
+export const MAX_LOOKAHEAD_MS = 20;
+
+// Linked look-ahead limiter. Every input frame's true peak (across all
+// channels) sets the gain it needs; a sliding minimum holds that gain until
+// the peak has passed, a release follower lets it recover, and a moving
+// average over the look-ahead turns the steps into ramps. The hold is longer
+// than the average by the detector's latency and the audio is delayed to
+// match, so whenever a peak leaves, the average only spans gains at or below
+// the one it needs.
+export class TruePeakLimiter {
+  private channels: number;
+  private rate: number;
+  private detectors: TruePeakDetector[];
+  private delay: Float32Array[];
+  private capacity: number;
+  private writePos = 0;
+  private smoothingLength = 0;
+  private holdLength = 0;
+  private delayFrames = 0;
+
+  // Sliding-window minimum as a monotonic deque of (frame, gain) pairs
+  private minFrames: Float64Array;
+  private minGains: Float64Array;
+  private minHead = 0;
+  private minTail = 0;
+  private frame = 0;
+
+  private released = 1;
+  private releaseCoef = 0;
+  private smoothing: Float64Array;
+  private smoothingPos = 0;
+  private smoothingSum = 0;
+
+  private ceiling = 1;
+  private minGain = 1;
+
+  constructor(rate: number, channels: number, params: LimiterSettings) {
+    this.rate = rate;
+    this.channels = channels;
+    this.capacity = Math.ceil((MAX_LOOKAHEAD_MS / 1000) * rate) + TRUE_PEAK_LATENCY + 1;
+    this.detectors = Array.from({ length: channels }, () => new TruePeakDetector(rate));
+    this.delay = Array.from({ length: channels }, () => new Float32Array(this.capacity));
+    this.minFrames = new Float64Array(this.capacity);
+    this.minGains = new Float64Array(this.capacity);
+    this.smoothing = new Float64Array(this.capacity).fill(1);
+    this.setParams(params);
+  }
+
+  setParams({ ceiling, release, lookahead }: LimiterSettings) {
+    this.ceiling = Math.pow(10, Math.min(0, ceiling) / 20);
+    this.releaseCoef = Math.exp(-1 / (Math.max(1, release) / 1000 * this.rate));
+    const frames = Math.max(1, Math.round((Math.max(0, Math.min(MAX_LOOKAHEAD_MS, lookahead)) / 1000) * this.rate));
+    if (frames !== this.smoothingLength) {
+      this.smoothingLength = frames;
+      this.holdLength = frames + TRUE_PEAK_LATENCY;
+      this.delayFrames = frames - 1 + TRUE_PEAK_LATENCY;
+      this.resetWindow();
+    }
+  }
+
+  // Lowest gain applied since the last call, in dB (0 when idle)
+  takeGainReduction() {
+    const reduction = 20 * Math.log10(this.minGain);
+    this.minGain = 1;
+    return reduction;
+  }
+
+  process(input: Float32Array[], output: Float32Array[], length: number) {
+    const { smoothingLength, holdLength } = this;
+    for (let i = 0; i < length; i++) {
+      let peak = 0;
+      for (let c = 0; c < this.channels; c++) {
+        const x = input[c]?.[i] ?? 0;
+        this.delay[c][this.writePos] = x;
+        const p = this.detectors[c].process(x);
+        if (p > peak) peak = p;
+      }
+      const required = peak > this.ceiling ? this.ceiling / peak : 1;
+
+      // Sliding minimum of the required gain over the hold window
+      while (this.minTail > this.minHead && this.minGains[(this.minTail - 1) % this.capacity] >= required) this.minTail--;
+      this.minFrames[this.minTail % this.capacity] = this.frame;
+      this.minGains[this.minTail % this.capacity] = required;
+      this.minTail++;
+      while (this.minFrames[this.minHead % this.capacity] <= this.frame - holdLength) this.minHead++;
+      const held = this.minGains[this.minHead % this.capacity];
+
+      this.released = held < this.released ? held : held + (this.released - held) * this.releaseCoef;
+
+      this.smoothingSum += this.released - this.smoothing[this.smoothingPos];
+      this.smoothing[this.smoothingPos] = this.released;
+      this.smoothingPos = (this.smoothingPos + 1) % smoothingLength;
+      const gain = Math.min(1, this.smoothingSum / smoothingLength);
+      if (gain < this.minGain) this.minGain = gain;
+
+      const readPos = (this.writePos - this.delayFrames + this.capacity) % this.capacity;
+      for (let c = 0; c < this.channels; c++) {
+        const out = output[c];
+        if (!out) continue;
+        const y = this.delay[c][readPos] * gain;
+        // Last-resort sample clip in case the running sum drifts
+        out[i] = y > this.ceiling ? this.ceiling : y < -this.ceiling ? -this.ceiling : y;
+      }
+      this.writePos = (this.writePos + 1) % this.capacity;
+      this.frame++;
+    }
+  }
+
+  private resetWindow() {
+    this.minHead = 0;
+    this.minTail = 0;
+    this.smoothing.fill(this.released);
+    this.smoothingSum = this.released * this.smoothingLength;
+    this.smoothingPos = 0;
+  }
+}
@@ -0,0 +1,196 @@
+// ITU-R BS.1770-4 / EBU R128 loudness measurement. Shared by the realtime
+// meter worklet, the Vault loudness scan and offline export normalization, so
+// all three agree to the decimal.
+
+import { TruePeakDetector } from './truePeak';
+
+export interface LoudnessReading {
+  momentary: number; // LUFS, 400 ms window
+  shortTerm: number; // LUFS, 3 s window
+  integrated: number; // LUFS, gated over the whole programme
+  range: number; // LU (EBU Tech 3342)
+  truePeak: number; // dBTP, maximum so far
+}
+
+const BLOCK_SECONDS = 0.1;
+const MOMENTARY_BLOCKS = 4;
+const SHORT_TERM_BLOCKS = 30;
+const ABSOLUTE_GATE = -70;
+const INTEGRATED_RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+
+// Gated statistics are kept as 0.1 LU histograms so long programmes cost the
+// same as short ones.
+const HISTOGRAM_MIN = ABSOLUTE_GATE;
+const HISTOGRAM_MAX = 10;
+const HISTOGRAM_STEP = 0.1;
+const HISTOGRAM_BINS = Math.round((HISTOGRAM_MAX - HISTOGRAM_MIN) / HISTOGRAM_STEP);
+
+export const powerToLufs = (power: number) => power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+const lufsToPower = (lufs: number) => Math.pow(10, (lufs + 0.691) / 10);
+
+class Biquad {
+  private z1 = 0;
+  private z2 = 0;
+  constructor(private b: number[], private a: number[]) {}
+
+  process(x: number) {
+    const y = this.b[0] * x + this.z1;
+    this.z1 = this.b[1] * x - this.a[1] * y + this.z2;
+    this.z2 = this.b[2] * x - this.a[2] * y;
+    return y;
+  }
+}
+
+// Pre-filter (high shelf) and RLB high-pass, derived for any sample rate
+function kWeighting(rate: number): [Biquad, Biquad] {
+  let K = Math.tan(Math.PI * 1681.974450955533 / rate);
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let Q = 0.7071752369554196;
+  let a0 = 1 + K / Q + K * K;
+  const shelf = new Biquad(
+    [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+    [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+  );
+
+  K = Math.tan(Math.PI * 38.13547087602444 / rate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highpass = new Biquad([1, -2, 1], [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]);
+  return [shelf, highpass];
+}
+
+class GatedHistogram {
+  private counts = new Uint32Array(HISTOGRAM_BINS);
+
+  add(lufs: number) {
+    if (!(lufs > HISTOGRAM_MIN)) return;
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((lufs - HISTOGRAM_MIN) / HISTOGRAM_STEP));
+    this.counts[bin]++;
+  }
+
+  reset() {
+    this.counts.fill(0);
+  }
+
+  private binLufs(bin: number) {
+    return HISTOGRAM_MIN + (bin + 0.5) * HISTOGRAM_STEP;
+  }
+
+  // Mean power of everything at or above `gate`, as LUFS
+  meanAbove(gate: number) {
+    let power = 0, count = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      if (!this.counts[bin] || this.binLufs(bin) < gate) continue;
+      power += this.counts[bin] * lufsToPower(this.binLufs(bin));
+      count += this.counts[bin];
+    }
+    return count ? powerToLufs(power / count) : -Infinity;
+  }
+
+  percentile(gate: number, fraction: number) {
+    let total = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) if (this.binLufs(bin) >= gate) total += this.counts[bin];
+    if (!total) return -Infinity;
+    const target = fraction * (total - 1);
+    let seen = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      if (this.binLufs(bin) < gate) continue;
+      seen += this.counts[bin];
+      if (seen > target) return this.binLufs(bin);
+    }
+    return this.binLufs(HISTOGRAM_BINS - 1);
+  }
+}
+
+// Streaming meter. Feed it planar channel data in any block size. Channel
+// weights default to 1; pass 1.41 for surround channels and 0 for LFE when
+// the channel layout is known.
+export class LoudnessMeter {
+  private filters: [Biquad, Biquad][];
+  private peaks: TruePeakDetector[];
+  private peak = 0;
+  private blockLength: number;
+  private blockPos = 0;
+  private blockPower: Float64Array;
+  // Weighted power of the most recent 100 ms sub-blocks, newest last
+  private recent: number[] = [];
+  private integratedBlocks = new GatedHistogram();
+  private shortTermBlocks = new GatedHistogram();
+
+  constructor(private rate: number, private channelWeights: number[]) {
+    this.filters = channelWeights.map(() => kWeighting(rate));
+    this.peaks = channelWeights.map(() => new TruePeakDetector(rate));
+    this.blockLength = Math.round(rate * BLOCK_SECONDS);
+    this.blockPower = new Float64Array(channelWeights.length);
+  }
+
+  process(channels: Float32Array[], length = channels[0]?.length ?? 0) {
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < this.channelWeights.length; c++) {
+        const x = channels[c]?.[i] ?? 0;
+        const [shelf, highpass] = this.filters[c];
+        const y = highpass.process(shelf.process(x));
+        this.blockPower[c] += y * y;
+        const peak = this.peaks[c].process(x);
+        if (peak > this.peak) this.peak = peak;
+      }
+      if (++this.blockPos === this.blockLength) this.closeBlock();
+    }
+  }
+
+  reading(): LoudnessReading {
+    const integratedGate = this.integratedBlocks.meanAbove(ABSOLUTE_GATE) + INTEGRATED_RELATIVE_GATE;
+    const rangeGate = this.shortTermBlocks.meanAbove(ABSOLUTE_GATE) + RANGE_RELATIVE_GATE;
+    const low = this.shortTermBlocks.percentile(Math.max(ABSOLUTE_GATE, rangeGate), 0.1);
+    const high = this.shortTermBlocks.percentile(Math.max(ABSOLUTE_GATE, rangeGate), 0.95);
+    const peak = this.peak;
+    return {
+      momentary: this.windowLufs(MOMENTARY_BLOCKS),
+      shortTerm: this.windowLufs(SHORT_TERM_BLOCKS),
+      integrated: this.integratedBlocks.meanAbove(Math.max(ABSOLUTE_GATE, integratedGate)),
+      range: Number.isFinite(low) && Number.isFinite(high) ? high - low : 0,
+      truePeak: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+    };
+  }
+
+  reset() {
+    this.filters = this.channelWeights.map(() => kWeighting(this.rate));
+    this.peaks = this.channelWeights.map(() => new TruePeakDetector(this.rate));
+    this.peak = 0;
+    this.blockPos = 0;
+    this.blockPower.fill(0);
+    this.recent = [];
+    this.integratedBlocks.reset();
+    this.shortTermBlocks.reset();
+  }
+
+  // Gating blocks are 400 ms long and overlap by 75%, i.e. one per sub-block
+  private closeBlock() {
+    let power = 0;
+    this.channelWeights.forEach((weight, c) => power += weight * this.blockPower[c] / this.blockLength);
+    this.blockPower.fill(0);
+    this.blockPos = 0;
+
+    this.recent.push(power);
+    if (this.recent.length > SHORT_TERM_BLOCKS) this.recent.shift();
+    if (this.recent.length >= MOMENTARY_BLOCKS) this.integratedBlocks.add(this.windowLufs(MOMENTARY_BLOCKS));
+    if (this.recent.length >= SHORT_TERM_BLOCKS) this.shortTermBlocks.add(this.windowLufs(SHORT_TERM_BLOCKS));
+  }
+
+  private windowLufs(blocks: number) {
+    if (this.recent.length < blocks) return -Infinity;
+    let power = 0;
+    for (let i = this.recent.length - blocks; i < this.recent.length; i++) power += this.recent[i];
+    return powerToLufs(power / blocks);
+  }
+}
+
+// Gain in dB that brings `integrated` to `target`, limited so the true peak
+// stays under `ceiling`. Silence or unmeasured material gets no gain.
+export function normalizationGainDb(integrated: number, truePeak: number, target: number, ceiling = -1) {
+  if (!Number.isFinite(integrated)) return 0;
+  const gain = target - integrated;
+  return Number.isFinite(truePeak) ? Math.min(gain, ceiling - truePeak) : gain;
+}
@@ -0,0 +1,39 @@
+// Mixes N input channels into M outputs through a gain matrix. A new matrix is
+// crossfaded in over one block so head-tracked updates don't click.
+export class MatrixMixer {
+  private current: Float32Array;
+  private target: Float32Array | null = null;
+
+  constructor(private inputs: number, private outputs: number) {
+    this.current = new Float32Array(inputs * outputs);
+  }
+
+  // Row-major, outputs x inputs
+  setMatrix(matrix: Float32Array) {
+    if (matrix.length === this.current.length) this.target = matrix;
+  }
+
+  process(input: Float32Array[], output: Float32Array[], length: number) {
+    const { inputs, outputs } = this;
+    const from = this.current;
+    const to = this.target;
+    for (let o = 0; o < outputs; o++) {
+      const out = output[o];
+      if (!out) continue;
+      out.fill(0, 0, length);
+      for (let i = 0; i < inputs; i++) {
+        const data = input[i];
+        if (!data) continue;
+        const a = from[o * inputs + i];
+        const b = to ? to[o * inputs + i] : a;
+        if (a === 0 && b === 0) continue;
+        const step = (b - a) / length;
+        for (let n = 0; n < length; n++) out[n] += (a + step * n) * data[n];
+      }
+    }
+    if (to) {
+      this.current = to;
+      this.target = null;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { ListenerOrientation } from '../../types';
+
+export type Vec3 = [number, number, number];
+
+const DEG = Math.PI / 180;
+
+// Rotates `v` from head coordinates into room coordinates (Web Audio axes:
+// +x right, +y up, -z ahead). Roll is applied about the nose axis, then pitch
+// about the ear axis, then yaw about the vertical. Positive yaw turns right,
+// positive pitch looks up and positive roll tilts the right ear down.
+export function rotateToRoom(v: Vec3, o: ListenerOrientation): Vec3 {
+  let [x, y, z] = v;
+
+  const r = -o.roll * DEG;
+  [x, y] = [x * Math.cos(r) - y * Math.sin(r), x * Math.sin(r) + y * Math.cos(r)];
+
+  const p = o.pitch * DEG;
+  [y, z] = [y * Math.cos(p) - z * Math.sin(p), y * Math.sin(p) + z * Math.cos(p)];
+
+  const w = -o.yaw * DEG;
+  [x, z] = [x * Math.cos(w) + z * Math.sin(w), -x * Math.sin(w) + z * Math.cos(w)];
+
+  return [x, y, z];
+}
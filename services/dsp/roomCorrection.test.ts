@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeImpulse, convolve, deconvolve, deriveCorrectionBands, generateLogSweep, ImpulseAnalysis, peakingResponseDb } from './roomCorrection';
+
+const RATE = 48000;
+// The correction's gain limits
+const MAX_CUT_DB = 12;
+const MAX_BOOST_DB = 4;
+
+// Direct sound 10 ms in at half level, one reflection 3.5 ms behind it
+const DIRECT = { at: 480, gain: 0.5 };
+const REFLECTION = { at: 648, gain: 0.2 };
+
+function impulseResponse(...taps: { at: number, gain: number }[]) {
+  const ir = new Float32Array(RATE / 10);
+  taps.forEach(({ at, gain }) => ir[at] = gain);
+  return ir;
+}
+
+function measure(ir: Float32Array) {
+  const sweep = generateLogSweep(RATE, 1);
+  // The recording runs on past the sweep to catch the room's tail
+  const recording = convolve(sweep.sweep, ir).slice(0, sweep.sweep.length + RATE / 2);
+  return deconvolve(recording, sweep);
+}
+
+const peakIndex = (ir: Float32Array) => ir.reduce((peak, v, i) => Math.abs(v) > Math.abs(ir[peak]) ? i : peak, 0);
+
+// A 1/24-octave grid like analyzeImpulse's, flat apart from one peaking bump
+function analysis(centerHz: number, gainDb: number, q: number): ImpulseAnalysis {
+  const count = Math.floor(Math.log2(RATE / 2 / 20) * 24);
+  const frequencies = Float64Array.from({ length: count }, (_, i) => 20 * Math.pow(2, i / 24));
+  const response = frequencies.map(f => peakingResponseDb(f, centerHz, gainDb, q, RATE));
+  return { delay: 0, level: 0, frequencies, response };
+}
+
+describe('sweep measurement', () => {
+  it('deconvolves the recording back to the room impulse response', () => {
+    // What a unit impulse looks like once band-limited to the sweep's 20 Hz - 20 kHz
+    const unit = measure(impulseResponse({ at: 0, gain: 1 }));
+    expect(peakIndex(unit)).toBe(0);
+    expect(unit[0]).toBeCloseTo((2 * (20000 - 20)) / RATE, 1);
+
+    const ir = measure(impulseResponse(DIRECT, REFLECTION));
+    expect(peakIndex(ir)).toBe(DIRECT.at);
+    expect(ir[DIRECT.at]).toBeCloseTo(DIRECT.gain * unit[0], 3);
+    expect(ir[REFLECTION.at]).toBeCloseTo(REFLECTION.gain * unit[0], 3);
+  });
+
+  it('finds the direct sound delay and the midband level', () => {
+    const direct = analyzeImpulse(measure(impulseResponse(DIRECT)), RATE);
+    expect(direct.delay).toBeCloseTo(DIRECT.at / RATE, 6);
+    expect(direct.level).toBeCloseTo(20 * Math.log10(DIRECT.gain), 1);
+
+    // The reflection adds its power to the smoothed response
+    const room = analyzeImpulse(measure(impulseResponse(DIRECT, REFLECTION)), RATE);
+    expect(room.delay).toBeCloseTo(DIRECT.at / RATE, 6);
+    expect(room.level).toBeCloseTo(10 * Math.log10(DIRECT.gain ** 2 + REFLECTION.gain ** 2), 1);
+  });
+});
+
+describe('deriveCorrectionBands', () => {
+  it.each([
+    ['a peak', 1000, 6, 2, -6],
+    ['a dip', 120, -3, 1.5, 3],
+    ['a dip deeper than the boost limit', 300, -15, 2, MAX_BOOST_DB],
+    ['a peak taller than the cut limit', 2500, 18, 2, -MAX_CUT_DB],
+  ])('answers %s with the opposite gain, within the limits', (_, centerHz, gainDb, q, expectedGain) => {
+    const [band] = deriveCorrectionBands(analysis(centerHz, gainDb, q), RATE);
+    expect(band.type).toBe('peaking');
+    expect(Math.abs(Math.log2(band.frequency / centerHz))).toBeLessThan(1 / 12);
+    expect(band.gain).toBeCloseTo(expectedGain, 0);
+    expect(band.gain).toBeGreaterThanOrEqual(-MAX_CUT_DB);
+    expect(band.gain).toBeLessThanOrEqual(MAX_BOOST_DB);
+  });
+
+  it('leaves a flat response alone', () => {
+    expect(deriveCorrectionBands(analysis(1000, 0, 1), RATE)).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+import { EQBand } from '../../types';
+import { FFT } from './fft';
+
+// Exponential sine sweep measurement (Farina). The room's impulse response is
+// recovered by convolving the recording with the time-reversed sweep, whose
+// amplitude falls 6 dB/octave to undo the sweep's pink energy distribution.
+// Nothing here touches Web Audio, so every step can be checked in node against
+// synthetic responses.
+
+export interface Sweep {
+  sweep: Float32Array;
+  inverse: Float32Array;
+}
+
+export interface ImpulseAnalysis {
+  delay: number; // in seconds, from the start of the recording to the direct sound
+  level: number; // mean 200 Hz - 4 kHz response, in dB
+  frequencies: Float64Array;
+  response: Float64Array; // 1/3-octave smoothed magnitude in dB
+}
+
+const FADE_IN_SECONDS = 0.05;
+const FADE_OUT_SECONDS = 0.01;
+// Enough of the response to include early reflections without the late tail
+const ANALYSIS_WINDOW_SECONDS = 0.05;
+const PRE_PEAK_SECONDS = 0.001;
+const POINTS_PER_OCTAVE = 24;
+const SMOOTHING_OCTAVES = 1 / 3;
+const LEVEL_BAND: [number, number] = [200, 4000];
+// Outside this range speakers can't follow the correction anyway
+const CORRECTION_BAND: [number, number] = [40, 10000];
+const MAX_CUT_DB = 12;
+// Boosting a room null wastes headroom and rarely works, so boosts stay small
+const MAX_BOOST_DB = 4;
+const CORRECTION_TOLERANCE_DB = 1;
+
+const nextPowerOfTwo = (n: number) => Math.pow(2, Math.ceil(Math.log2(Math.max(2, n))));
+
+export function generateLogSweep(rate: number, duration: number, startHz = 20, endHz = 20000): Sweep {
+  const length = Math.round(duration * rate);
+  const end = Math.min(endHz, rate / 2);
+  const R = Math.log(end / startHz);
+  const sweep = new Float32Array(length);
+  const fadeIn = Math.round(FADE_IN_SECONDS * rate);
+  const fadeOut = Math.round(FADE_OUT_SECONDS * rate);
+  for (let i = 0; i < length; i++) {
+    const t = i / rate;
+    let value = Math.sin(((2 * Math.PI * startHz * duration) / R) * (Math.exp((t * R) / duration) - 1));
+    if (i < fadeIn) value *= 0.5 - 0.5 * Math.cos((Math.PI * i) / fadeIn);
+    if (i > length - fadeOut) value *= 0.5 - 0.5 * Math.cos((Math.PI * (length - i)) / fadeOut);
+    sweep[i] = value;
+  }
+
+  const inverse = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    inverse[i] = sweep[length - 1 - i] * Math.exp((-(i / rate) * R) / duration);
+  }
+
+  // Scale so the sweep deconvolves to a unit impulse in the middle of its band
+  const spectrum = convolveSpectrum(sweep, inverse);
+  const center = Math.round((Math.sqrt(startHz * end) / rate) * spectrum.size);
+  const magnitude = Math.hypot(spectrum.re[center], spectrum.im[center]);
+  if (magnitude > 0) inverse.forEach((v, i) => inverse[i] = v / magnitude);
+  return { sweep, inverse };
+}
+
+function convolveSpectrum(a: Float32Array, b: Float32Array) {
+  const size = nextPowerOfTwo(a.length + b.length - 1);
+  const fft = new FFT(size);
+  const reA = new Float64Array(size), imA = new Float64Array(size);
+  const reB = new Float64Array(size), imB = new Float64Array(size);
+  reA.set(a);
+  reB.set(b);
+  fft.forward(reA, imA);
+  fft.forward(reB, imB);
+  for (let k = 0; k < size; k++) {
+    const re = reA[k] * reB[k] - imA[k] * imB[k];
+    const im = reA[k] * imB[k] + imA[k] * reB[k];
+    reA[k] = re;
+    imA[k] = im;
+  }
+  return { fft, size, re: reA, im: imA };
+}
+
+// Linear convolution through one FFT of the combined length
+export function convolve(a: Float32Array, b: Float32Array): Float32Array {
+  const { fft, re, im } = convolveSpectrum(a, b);
+  fft.inverse(re, im);
+  return Float32Array.from(re.subarray(0, a.length + b.length - 1));
+}
+
+// Impulse response of whatever the sweep went through, starting at the moment
+// the sweep started. Harmonic distortion lands before time zero and is dropped.
+export function deconvolve(recording: Float32Array, { inverse }: Sweep): Float32Array {
+  const full = convolve(recording, inverse);
+  return full.slice(inverse.length - 1, inverse.length - 1 + recording.length);
+}
+
+export function analyzeImpulse(ir: Float32Array, rate: number): ImpulseAnalysis {
+  let peak = 0;
+  for (let i = 1; i < ir.length; i++) if (Math.abs(ir[i]) > Math.abs(ir[peak])) peak = i;
+
+  const start = Math.max(0, peak - Math.round(PRE_PEAK_SECONDS * rate));
+  const length = Math.min(ir.length - start, Math.round(ANALYSIS_WINDOW_SECONDS * rate));
+  const size = nextPowerOfTwo(Math.max(length, rate / 10));
+  const re = new Float64Array(size), im = new Float64Array(size);
+  // Half-Hann fade over the last quarter keeps the window from ringing
+  const fade = Math.max(1, Math.floor(length / 4));
+  for (let i = 0; i < length; i++) {
+    const tail = length - i;
+    re[i] = ir[start + i] * (tail < fade ? 0.5 - 0.5 * Math.cos((Math.PI * tail) / fade) : 1);
+  }
+  new FFT(size).forward(re, im);
+
+  const power = new Float64Array(size / 2 + 1);
+  for (let k = 0; k <= size / 2; k++) power[k] = re[k] * re[k] + im[k] * im[k];
+
+  const octaves = Math.log2(rate / 2 / 20);
+  const count = Math.floor(octaves * POINTS_PER_OCTAVE);
+  const frequencies = new Float64Array(count);
+  const response = new Float64Array(count);
+  const binHz = rate / size;
+  for (let i = 0; i < count; i++) {
+    const f = 20 * Math.pow(2, i / POINTS_PER_OCTAVE);
+    const low = Math.max(1, Math.floor((f * Math.pow(2, -SMOOTHING_OCTAVES / 2)) / binHz));
+    const high = Math.min(size / 2, Math.max(low, Math.ceil((f * Math.pow(2, SMOOTHING_OCTAVES / 2)) / binHz)));
+    let sum = 0;
+    for (let k = low; k <= high; k++) sum += power[k];
+    frequencies[i] = f;
+    response[i] = 10 * Math.log10(sum / (high - low + 1) + 1e-20);
+  }
+
+  return { delay: peak / rate, level: bandMean(frequencies, response, LEVEL_BAND), frequencies, response };
+}
+
+function bandMean(frequencies: Float64Array, values: Float64Array, [low, high]: [number, number]) {
+  let sum = 0, count = 0;
+  frequencies.forEach((f, i) => {
+    if (f < low || f > high) return;
+    sum += values[i];
+    count++;
+  });
+  return count ? sum / count : 0;
+}
+
+// Magnitude in dB of Web Audio's (RBJ cookbook) peaking biquad
+export function peakingResponseDb(f: number, centerHz: number, gainDb: number, q: number, rate: number) {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = (2 * Math.PI * centerHz) / rate;
+  const alpha = Math.sin(w0) / (2 * q);
+  const cos = Math.cos(w0);
+  const b = [1 + alpha * A, -2 * cos, 1 - alpha * A];
+  const a = [1 + alpha / A, -2 * cos, 1 - alpha / A];
+  const w = (2 * Math.PI * f) / rate;
+  const evaluate = (c: number[]) => {
+    const re = c[0] + c[1] * Math.cos(w) + c[2] * Math.cos(2 * w);
+    const im = -c[1] * Math.sin(w) - c[2] * Math.sin(2 * w);
+    return Math.hypot(re, im);
+  };
+  return 20 * Math.log10(evaluate(b) / evaluate(a));
+}
+
+// Greedy correction: repeatedly place a peaking filter on the largest
+// deviation from the response's own midband level until everything left is
+// within tolerance or the band budget runs out.
+export function deriveCorrectionBands(analysis: ImpulseAnalysis, rate: number, maxBands = 6): EQBand[] {
+  const { frequencies, level } = analysis;
+  const residual = Float64Array.from(analysis.response, v => v - level);
+  const inBand = (i: number) => frequencies[i] >= CORRECTION_BAND[0] && frequencies[i] <= CORRECTION_BAND[1];
+  const bands: EQBand[] = [];
+
+  while (bands.length < maxBands) {
+    let worst = -1;
+    frequencies.forEach((_, i) => {
+      if (inBand(i) && (worst < 0 || Math.abs(residual[i]) > Math.abs(residual[worst]))) worst = i;
+    });
+    if (worst < 0 || Math.abs(residual[worst]) < CORRECTION_TOLERANCE_DB) break;
+
+    // Width of the deviation at half its height sets the Q
+    const deviation = residual[worst];
+    let low = worst, high = worst;
+    while (low > 0 && inBand(low - 1) && residual[low - 1] * deviation > (deviation * deviation) / 2) low--;
+    while (high < frequencies.length - 1 && inBand(high + 1) && residual[high + 1] * deviation > (deviation * deviation) / 2) high++;
+    const octaves = Math.max(1 / POINTS_PER_OCTAVE, (high - low + 1) / POINTS_PER_OCTAVE);
+    const q = Math.max(0.5, Math.min(8, Math.sqrt(Math.pow(2, octaves)) / (Math.pow(2, octaves) - 1)));
+    const gain = Math.max(-MAX_CUT_DB, Math.min(MAX_BOOST_DB, -deviation));
+    const center = frequencies[worst];
+
+    // A boost already at its limit would be picked again forever
+    if (Math.abs(gain) < CORRECTION_TOLERANCE_DB / 2) break;
+    bands.push({ id: `cal_${bands.length}`, type: 'peaking', frequency: Math.round(center), gain: Math.round(gain * 10) / 10, q: Math.round(q * 100) / 100, enabled: true });
+    const placed = bands[bands.length - 1];
+    frequencies.forEach((f, i) => residual[i] += peakingResponseDb(f, placed.frequency, placed.gain, placed.q, rate));
+    // Deviations that can't be corrected further are taken out of the running
+    if (gain !== -deviation) {
+      for (let i = low; i <= high; i++) residual[i] = 0;
+    }
+  }
+  return bands;
+}
@@ -0,0 +1,54 @@
+const TAPS_PER_PHASE = 12;
+
+// Samples between an input and the interpolated points around it that
+// `process` reports, i.e. how late the detector sees an inter-sample peak.
+export const TRUE_PEAK_LATENCY = TAPS_PER_PHASE / 2;
+
+// Polyphase windowed-sinc interpolator; 4x below 96 kHz as BS.1770 Annex 2 asks
+export class TruePeakDetector {
+  private factor: number;
+  private phases: Float64Array[];
+  private history: Float64Array;
+  private pos = 0;
+
+  constructor(rate: number) {
+    this.factor = rate < 96000 ? 4 : rate < 192000 ? 2 : 1;
+    const taps = TAPS_PER_PHASE * this.factor;
+    const center = (taps - 1) / 2;
+    const kernel = Array.from({ length: taps }, (_, i) => {
+      const t = (i - center) / this.factor;
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (i + 0.5)) / taps);
+      return sinc * window;
+    });
+    this.phases = Array.from({ length: this.factor }, (_, p) =>
+      Float64Array.from({ length: TAPS_PER_PHASE }, (_, k) => kernel[k * this.factor + p])
+    );
+    // Each phase should pass DC at unity
+    this.phases.forEach(phase => {
+      const sum = phase.reduce((a, b) => a + b, 0);
+      phase.forEach((v, i) => phase[i] = v / sum);
+    });
+    // Mirrored so the newest TAPS samples are always contiguous from `pos`
+    this.history = new Float64Array(TAPS_PER_PHASE * 2);
+  }
+
+  // Pushes one sample and returns the largest magnitude among it and the
+  // newly interpolated points
+  process(x: number) {
+    const history = this.history;
+    const pos = this.pos;
+    history[pos] = x;
+    history[pos + TAPS_PER_PHASE] = x;
+    let peak = x < 0 ? -x : x;
+    for (let p = 0; p < this.factor; p++) {
+      const phase = this.phases[p];
+      let y = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) y += phase[k] * history[pos + k];
+      const magnitude = y < 0 ? -y : y;
+      if (magnitude > peak) peak = magnitude;
+    }
+    this.pos = pos === 0 ? TAPS_PER_PHASE - 1 : pos - 1;
+    return peak;
+  }
+}
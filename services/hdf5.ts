@@ -0,0 +1,623 @@
+// Read-only HDF5 parser covering what netCDF-4 files (and so SOFA HRTF sets)
+// are made of: numeric datasets in the root group, their fixed-size
+// attributes, and contiguous or chunked storage with deflate, shuffle and
+// Fletcher-32 filters. Other features are rejected with an error.
+
+const SIGNATURE = [0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a];
+const UNDEFINED = -1;
+
+const MSG_DATASPACE = 0x01;
+const MSG_LINK_INFO = 0x02;
+const MSG_DATATYPE = 0x03;
+const MSG_LINK = 0x06;
+const MSG_LAYOUT = 0x08;
+const MSG_FILTERS = 0x0b;
+const MSG_ATTRIBUTE = 0x0c;
+const MSG_CONTINUATION = 0x10;
+const MSG_SYMBOL_TABLE = 0x11;
+
+const FILTER_DEFLATE = 1;
+const FILTER_SHUFFLE = 2;
+const FILTER_FLETCHER32 = 3;
+
+export type Hdf5Attribute = string | number[];
+
+export interface Hdf5Dataset {
+  shape: number[];
+  attributes: Map<string, Hdf5Attribute>;
+  read(): Promise<Float64Array>;
+}
+
+interface Datatype {
+  kind: 'int' | 'uint' | 'float' | 'string' | 'other';
+  size: number;
+  littleEndian: boolean;
+}
+
+type Layout =
+  | { kind: 'contiguous'; address: number; size: number }
+  | { kind: 'chunked'; chunk: number[]; chunks: () => Chunk[] };
+
+interface Chunk {
+  address: number;
+  size: number;
+  filterMask: number;
+  offset: number[]; // in elements, per dimension
+}
+
+interface Message {
+  type: number;
+  pos: number;
+  shared: boolean;
+}
+
+// Bytes needed to store values up to `n`, as HDF5 sizes its variable-width fields
+const bytesFor = (n: number) => Math.floor(Math.log2(Math.max(1, n)) / 8) + 1;
+const product = (values: number[]) => values.reduce((a, b) => a * b, 1);
+
+class Cursor {
+  constructor(private file: Hdf5Reader, public pos: number) {}
+
+  u8() { return this.file.view.getUint8(this.pos++); }
+  u16() { return this.uint(2); }
+  u32() { return this.uint(4); }
+
+  uint(size: number) {
+    let value = 0;
+    for (let i = 0; i < size; i++) value += this.file.view.getUint8(this.pos + i) * 2 ** (8 * i);
+    this.pos += size;
+    return value;
+  }
+
+  // All bits set marks an address that was never allocated
+  address() {
+    const size = this.file.offsetSize;
+    let unset = true;
+    for (let i = 0; i < size && unset; i++) unset = this.file.view.getUint8(this.pos + i) === 0xff;
+    const value = this.uint(size);
+    return unset ? UNDEFINED : value + this.file.base;
+  }
+
+  length() { return this.uint(this.file.lengthSize); }
+
+  skip(bytes: number) {
+    this.pos += bytes;
+    return this;
+  }
+
+  string(bytes: number) {
+    const raw = new Uint8Array(this.file.view.buffer, this.file.view.byteOffset + this.pos, bytes);
+    this.pos += bytes;
+    const end = raw.indexOf(0);
+    return new TextDecoder().decode(end < 0 ? raw : raw.subarray(0, end));
+  }
+
+  signature(expected: string) {
+    if (this.string(4) !== expected) throw new Error(`HDF5: expected ${expected} block at ${this.pos - 4}`);
+    return this;
+  }
+}
+
+export class Hdf5Reader {
+  readonly view: DataView;
+  offsetSize = 8;
+  lengthSize = 8;
+  base = 0;
+  private root: Map<string, number>;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.root = this.groupLinks(this.readSuperblock());
+  }
+
+  has(name: string) {
+    return this.root.has(name);
+  }
+
+  dataset(name: string): Hdf5Dataset {
+    const address = this.root.get(name);
+    if (address === undefined) throw new Error(`HDF5: no dataset named ${name}`);
+
+    let shape: number[] | null = null;
+    let type: Datatype | null = null;
+    let layout: number | null = null;
+    let filters: number[] = [];
+    const attributes = new Map<string, Hdf5Attribute>();
+    for (const m of this.readMessages(address)) {
+      const c = new Cursor(this, m.pos);
+      if (m.type === MSG_DATASPACE) shape = this.readDataspace(c);
+      else if (m.type === MSG_DATATYPE && !m.shared) type = this.readDatatype(c);
+      else if (m.type === MSG_LAYOUT) layout = m.pos;
+      else if (m.type === MSG_FILTERS) filters = this.readFilters(c);
+      else if (m.type === MSG_ATTRIBUTE) this.readAttribute(c, attributes);
+    }
+    if (!shape || !type || layout === null) throw new Error(`HDF5: ${name} is not a dataset`);
+    if (type.kind === 'string' || type.kind === 'other') throw new Error(`HDF5: ${name} is not numeric`);
+
+    const dataShape = shape;
+    const dataType = type;
+    // The layout refers to the shape, which may come after it in the header
+    const dataLayout = this.readLayout(new Cursor(this, layout), dataShape);
+    return { shape: dataShape, attributes, read: () => this.readData(dataShape, dataType, dataLayout, filters) };
+  }
+
+  private readSuperblock(): number {
+    let start = UNDEFINED;
+    for (let at = 0; at + SIGNATURE.length <= this.view.byteLength; at = at ? at * 2 : 512) {
+      if (SIGNATURE.every((byte, i) => this.view.getUint8(at + i) === byte)) {
+        start = at;
+        break;
+      }
+    }
+    if (start === UNDEFINED) throw new Error('Not an HDF5 file');
+
+    const c = new Cursor(this, start + SIGNATURE.length);
+    const version = c.u8();
+    if (version === 0 || version === 1) {
+      c.skip(4); // free space, root group, reserved and shared header versions
+      this.offsetSize = c.u8();
+      this.lengthSize = c.u8();
+      c.skip(1 + 4 + 4 + (version === 1 ? 4 : 0)); // reserved, B-tree K values, consistency flags
+      this.base = c.address();
+      c.skip(this.offsetSize * 3); // free space, end of file and driver info addresses
+      c.skip(this.offsetSize); // root symbol table entry: link name offset
+      return c.address();
+    }
+    if (version === 2 || version === 3) {
+      this.offsetSize = c.u8();
+      this.lengthSize = c.u8();
+      c.skip(1);
+      this.base = c.address();
+      c.skip(this.offsetSize * 2); // superblock extension and end of file addresses
+      return c.address();
+    }
+    throw new Error(`HDF5: unsupported superblock version ${version}`);
+  }
+
+  // Flattens an object header and its continuation blocks into a message list
+  private readMessages(address: number): Message[] {
+    const messages: Message[] = [];
+    const blocks: [number, number][] = [];
+    const c = new Cursor(this, address);
+
+    if (this.view.getUint8(address) === 1) {
+      c.skip(4); // version, reserved, message count
+      c.skip(4); // reference count
+      blocks.push([address + 16, c.u32()]);
+      for (let b = 0; b < blocks.length; b++) {
+        const [start, size] = blocks[b];
+        for (let pos = start; pos + 8 <= start + size;) {
+          const m = new Cursor(this, pos);
+          const type = m.u16();
+          const length = m.u16();
+          const flags = m.u8();
+          m.skip(3);
+          if (type === MSG_CONTINUATION) blocks.push([m.address(), m.length()]);
+          else messages.push({ type, pos: pos + 8, shared: (flags & 0x02) !== 0 });
+          pos += 8 + length;
+        }
+      }
+      return messages;
+    }
+
+    c.signature('OHDR');
+    c.skip(1); // version
+    const flags = c.u8();
+    if (flags & 0x20) c.skip(16); // access, modification, change and birth times
+    if (flags & 0x10) c.skip(4); // attribute storage phase change values
+    const size = c.uint(1 << (flags & 0x03));
+    blocks.push([c.pos, size]);
+    const header = 4 + (flags & 0x04 ? 2 : 0);
+    for (let b = 0; b < blocks.length; b++) {
+      const [start, size] = blocks[b];
+      // Continuation blocks carry their own signature and every block ends in a checksum
+      const end = start + size - (b === 0 ? 0 : 4);
+      let pos = b === 0 ? start : new Cursor(this, start).signature('OCHK').pos;
+      while (pos + header <= end) {
+        const m = new Cursor(this, pos);
+        const type = m.u8();
+        const length = m.u16();
+        const messageFlags = m.u8();
+        if (flags & 0x04) m.skip(2); // creation order
+        if (type === MSG_CONTINUATION) blocks.push([m.address(), m.length()]);
+        else messages.push({ type, pos: m.pos, shared: (messageFlags & 0x02) !== 0 });
+        pos = m.pos + length;
+      }
+    }
+    return messages;
+  }
+
+  // Link names to object header addresses, for old (symbol table) and new style groups
+  private groupLinks(address: number): Map<string, number> {
+    const links = new Map<string, number>();
+    this.readMessages(address).forEach(m => {
+      const c = new Cursor(this, m.pos);
+      if (m.type === MSG_SYMBOL_TABLE) {
+        const btree = c.address();
+        this.readSymbolTable(btree, c.address(), links);
+      } else if (m.type === MSG_LINK) {
+        this.readLink(c, links);
+      } else if (m.type === MSG_LINK_INFO) {
+        c.skip(1); // version
+        const flags = c.u8();
+        if (flags & 0x01) c.skip(8); // maximum creation index
+        const heap = c.address();
+        const nameIndex = c.address();
+        if (heap !== UNDEFINED) this.readDenseLinks(heap, nameIndex, links);
+      }
+    });
+    return links;
+  }
+
+  private readLink(c: Cursor, links: Map<string, number>) {
+    c.skip(1); // version
+    const flags = c.u8();
+    const type = flags & 0x08 ? c.u8() : 0;
+    if (flags & 0x04) c.skip(8); // creation order
+    if (flags & 0x10) c.skip(1); // name character set
+    const name = c.string(c.uint(1 << (flags & 0x03)));
+    // Soft and external links aren't followed
+    if (type === 0) links.set(name, c.address());
+  }
+
+  private readSymbolTable(btree: number, heap: number, links: Map<string, number>) {
+    const h = new Cursor(this, heap).signature('HEAP').skip(4);
+    h.length(); // data segment size
+    h.length(); // free list offset
+    const names = h.address();
+    this.walkBtreeV1(btree, 0, node => {
+      const c = new Cursor(this, node).signature('SNOD').skip(2);
+      const count = c.u16();
+      for (let i = 0; i < count; i++) {
+        const nameOffset = c.uint(this.offsetSize);
+        const object = c.address();
+        c.skip(4 + 4 + 16); // cache type, reserved, scratch pad
+        links.set(new Cursor(this, names + nameOffset).string(this.view.byteLength - names - nameOffset), object);
+      }
+    });
+  }
+
+  // Version 1 B-trees index old style groups (type 0) and dataset chunks (type 1)
+  private walkBtreeV1(address: number, dimensions: number, visit: (child: number, key: number) => void) {
+    const c = new Cursor(this, address).signature('TREE');
+    const type = c.u8();
+    const level = c.u8();
+    const entries = c.u16();
+    c.skip(this.offsetSize * 2); // siblings
+    const keySize = type === 0 ? this.lengthSize : 8 + 8 * dimensions;
+    for (let i = 0; i < entries; i++) {
+      const key = c.pos;
+      c.skip(keySize);
+      const child = c.address();
+      if (level > 0) this.walkBtreeV1(child, dimensions, visit);
+      else visit(child, key);
+    }
+  }
+
+  // Version 2 B-tree records, in the order they're stored
+  private walkBtreeV2(address: number, visit: (record: number) => void) {
+    const c = new Cursor(this, address).signature('BTHD').skip(2);
+    const nodeSize = c.u32();
+    const recordSize = c.u16();
+    const depth = c.u16();
+    c.skip(2); // split and merge percentages
+    const root = c.address();
+    const rootRecords = c.u16();
+
+    // Node capacity per depth decides how wide the child record counts are
+    const maxRecords = [Math.floor((nodeSize - 10) / recordSize)];
+    const cumulative = [maxRecords[0]];
+    const countSize = bytesFor(maxRecords[0]);
+    const totalSize = [0];
+    for (let d = 1; d <= depth; d++) {
+      totalSize[d] = d > 1 ? bytesFor(cumulative[d - 1]) : 0;
+      const pointer = this.offsetSize + countSize + totalSize[d];
+      maxRecords[d] = Math.floor((nodeSize - 10) / (recordSize + pointer));
+      cumulative[d] = (maxRecords[d] + 1) * cumulative[d - 1] + maxRecords[d];
+    }
+
+    const readNode = (node: number, records: number, d: number) => {
+      const n = new Cursor(this, node).skip(6); // signature, version, type
+      for (let i = 0; i < records; i++) {
+        visit(n.pos);
+        n.skip(recordSize);
+      }
+      if (d === 0) return;
+      for (let i = 0; i <= records; i++) {
+        const child = n.address();
+        const count = n.uint(countSize);
+        n.skip(totalSize[d]);
+        readNode(child, count, d - 1);
+      }
+    };
+    if (root !== UNDEFINED && rootRecords > 0) readNode(root, rootRecords, depth);
+  }
+
+  // Groups with many links keep them in a fractal heap indexed by name hash
+  private readDenseLinks(heapAddress: number, nameIndex: number, links: Map<string, number>) {
+    const c = new Cursor(this, heapAddress).signature('FRHP').skip(1);
+    const idLength = c.u16();
+    const filterLength = c.u16();
+    c.skip(1); // flags
+    const maxManaged = c.u32();
+    c.length(); // next huge object id
+    c.address(); // huge object B-tree
+    c.length(); // free space
+    c.address(); // free space manager
+    c.skip(this.lengthSize * 8); // managed, allocated and huge/tiny object statistics
+    const width = c.u16();
+    const startSize = c.length();
+    const maxDirect = c.length();
+    const maxHeapBits = c.u16();
+    c.skip(2); // starting rows in the root indirect block
+    const root = c.address();
+    const rootRows = c.u16();
+    if (filterLength > 0) throw new Error('HDF5: filtered fractal heaps are not supported');
+
+    const offsetSize = Math.ceil(maxHeapBits / 8);
+    const lengthSize = Math.min(Math.floor((Math.log2(maxDirect) + 7) / 8), bytesFor(maxManaged));
+    const maxDirectRows = Math.log2(maxDirect) - Math.log2(startSize) + 2;
+
+    // Direct blocks by their offset in the heap's address space
+    const blocks: { offset: number; address: number; size: number }[] = [];
+    const readIndirect = (address: number, rows: number, offset: number) => {
+      const b = new Cursor(this, address).signature('FHIB').skip(1 + this.offsetSize + offsetSize);
+      for (let r = 0; r < rows; r++) {
+        const size = r === 0 ? startSize : startSize * 2 ** (r - 1);
+        for (let w = 0; w < width; w++) {
+          const child = b.address();
+          if (child !== UNDEFINED) {
+            if (r < maxDirectRows) blocks.push({ offset, address: child, size });
+            else readIndirect(child, Math.log2(size) - Math.log2(startSize * width) + 1, offset);
+          }
+          offset += size;
+        }
+      }
+    };
+    if (root === UNDEFINED) return;
+    if (rootRows === 0) blocks.push({ offset: 0, address: root, size: startSize });
+    else readIndirect(root, rootRows, 0);
+
+    this.walkBtreeV2(nameIndex, record => {
+      const id = new Cursor(this, record + 4); // after the name hash
+      const kind = (id.u8() >> 4) & 0x03;
+      if (kind === 2) {
+        this.readLink(id, links); // tiny objects live in the ID itself
+        return;
+      }
+      if (kind !== 0 || idLength < 1 + offsetSize + lengthSize) throw new Error('HDF5: unsupported heap object');
+      const offset = id.uint(offsetSize);
+      const block = blocks.find(b => offset >= b.offset && offset < b.offset + b.size);
+      if (!block) throw new Error('HDF5: link outside the heap');
+      this.readLink(new Cursor(this, block.address + offset - block.offset), links);
+    });
+  }
+
+  private readDataspace(c: Cursor): number[] {
+    const version = c.u8();
+    const rank = c.u8();
+    c.skip(version === 1 ? 6 : 2); // flags and reserved bytes, or flags and type
+    return Array.from({ length: rank }, () => c.length());
+  }
+
+  private readDatatype(c: Cursor): Datatype {
+    const classAndVersion = c.u8();
+    const bits = c.u8();
+    c.skip(2);
+    const size = c.u32();
+    const littleEndian = (bits & 0x01) === 0;
+    switch (classAndVersion & 0x0f) {
+      case 0: return { kind: bits & 0x08 ? 'int' : 'uint', size, littleEndian };
+      case 1: return { kind: 'float', size, littleEndian };
+      case 3: return { kind: 'string', size, littleEndian };
+      default: return { kind: 'other', size, littleEndian };
+    }
+  }
+
+  private readFilters(c: Cursor): number[] {
+    const version = c.u8();
+    const count = c.u8();
+    if (version === 1) c.skip(6);
+    return Array.from({ length: count }, () => {
+      const id = c.u16();
+      const nameLength = version === 1 || id >= 256 ? c.u16() : 0;
+      c.skip(2); // flags
+      const values = c.u16();
+      c.skip(version === 1 ? Math.ceil(nameLength / 8) * 8 : nameLength);
+      c.skip(values * 4 + (version === 1 && values % 2 ? 4 : 0));
+      return id;
+    });
+  }
+
+  // Scalar and 1-D attributes of numbers or fixed-length strings; others are skipped
+  private readAttribute(c: Cursor, attributes: Map<string, Hdf5Attribute>) {
+    const version = c.u8();
+    c.skip(1);
+    const nameSize = c.u16();
+    const typeSize = c.u16();
+    const spaceSize = c.u16();
+    if (version >= 3) c.skip(1); // name encoding
+    const pad = (n: number) => version === 1 ? Math.ceil(n / 8) * 8 : n;
+    const name = new Cursor(this, c.pos).string(nameSize);
+    c.skip(pad(nameSize));
+    const type = this.readDatatype(new Cursor(this, c.pos));
+    c.skip(pad(typeSize));
+    const shape = this.readDataspace(new Cursor(this, c.pos));
+    c.skip(pad(spaceSize));
+
+    const count = product(shape);
+    if (type.kind === 'string') attributes.set(name, c.string(type.size * count));
+    else if (type.kind !== 'other') attributes.set(name, Array.from(decode(this.view, c.pos, count, type)));
+  }
+
+  private readLayout(c: Cursor, shape: number[]): Layout {
+    const rank = shape.length;
+    const version = c.u8();
+    if (version < 3) throw new Error(`HDF5: unsupported data layout version ${version}`);
+    const layoutClass = c.u8();
+    if (layoutClass === 0) {
+      const size = c.u16();
+      return { kind: 'contiguous', address: c.pos, size };
+    }
+    if (layoutClass === 1) {
+      const address = c.address();
+      return { kind: 'contiguous', address, size: c.length() };
+    }
+    if (layoutClass !== 2) throw new Error(`HDF5: unsupported layout class ${layoutClass}`);
+
+    if (version === 3) {
+      const dimensions = c.u8();
+      const address = c.address();
+      // The last dimension is the element size
+      const chunk = Array.from({ length: dimensions }, () => c.u32()).slice(0, rank);
+      return {
+        kind: 'chunked',
+        chunk,
+        chunks: () => {
+          const chunks: Chunk[] = [];
+          if (address === UNDEFINED) return chunks;
+          this.walkBtreeV1(address, dimensions, (child, key) => {
+            const k = new Cursor(this, key);
+            const size = k.u32();
+            const filterMask = k.u32();
+            const offset = Array.from({ length: rank }, () => k.uint(8));
+            chunks.push({ address: child, size, filterMask, offset });
+          });
+          return chunks;
+        },
+      };
+    }
+
+    const flags = c.u8();
+    const dimensions = c.u8();
+    const dimensionSize = c.u8();
+    const chunk = Array.from({ length: dimensions }, () => c.uint(dimensionSize)).slice(0, rank);
+    const index = c.u8();
+    if (index === 1) {
+      // A single chunk covering the whole dataset
+      const filtered = (flags & 0x02) !== 0;
+      const size = filtered ? c.length() : 0;
+      const filterMask = filtered ? c.u32() : 0;
+      const address = c.address();
+      return { kind: 'chunked', chunk, chunks: () => [{ address, size, filterMask, offset: chunk.map(() => 0) }] };
+    }
+    if (index === 3) {
+      c.skip(1); // page bits
+      const address = c.address();
+      return { kind: 'chunked', chunk, chunks: () => this.readFixedArray(address, shape, chunk) };
+    }
+    throw new Error(`HDF5: unsupported chunk index type ${index}`);
+  }
+
+  // Fixed array chunk index: one entry per chunk, in row-major chunk order
+  private readFixedArray(address: number, shape: number[], chunk: number[]): Chunk[] {
+    const h = new Cursor(this, address).signature('FAHD').skip(1);
+    const filtered = h.u8() === 1;
+    const entrySize = h.u8();
+    const pageBits = h.u8();
+    const count = h.length();
+    const dataBlock = h.address();
+    if (count > 2 ** pageBits) throw new Error('HDF5: paged chunk indexes are not supported');
+
+    const grid = shape.map((n, d) => Math.ceil(n / chunk[d]));
+    const d = new Cursor(this, dataBlock).signature('FADB').skip(2 + this.offsetSize);
+    const chunks: Chunk[] = [];
+    for (let i = 0; i < count; i++) {
+      const chunkAddress = d.address();
+      const size = filtered ? d.uint(entrySize - this.offsetSize - 4) : 0;
+      const filterMask = filtered ? d.u32() : 0;
+      let rest = i;
+      const offset = new Array<number>(grid.length);
+      for (let k = grid.length - 1; k >= 0; k--) {
+        offset[k] = (rest % grid[k]) * chunk[k];
+        rest = Math.floor(rest / grid[k]);
+      }
+      if (chunkAddress !== UNDEFINED) chunks.push({ address: chunkAddress, size, filterMask, offset });
+    }
+    return chunks;
+  }
+
+  private async readData(shape: number[], type: Datatype, layout: Layout, filters: number[]): Promise<Float64Array> {
+    const count = product(shape);
+    if (layout.kind === 'contiguous') {
+      // Never written datasets read as zeros, like HDF5 does without a fill value
+      if (layout.address === UNDEFINED) return new Float64Array(count);
+      return decode(this.view, layout.address, count, type);
+    }
+
+    const out = new Float64Array(count);
+    const chunkCount = product(layout.chunk);
+    const strides = shape.map((_, d) => product(shape.slice(d + 1)));
+    for (const chunk of layout.chunks()) {
+      // Unfiltered chunks don't record their size
+      const size = chunk.size || chunkCount * type.size;
+      let bytes: Uint8Array = new Uint8Array(this.view.buffer, this.view.byteOffset + chunk.address, size);
+      for (let i = filters.length - 1; i >= 0; i--) {
+        if (chunk.filterMask & (1 << i)) continue;
+        bytes = await applyFilter(filters[i], bytes, type.size);
+      }
+      const values = decode(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), 0, chunkCount, type);
+
+      // Copy the chunk into place, clipping edge chunks that overhang the dataset
+      const index = new Array<number>(shape.length).fill(0);
+      for (let n = 0; n < chunkCount; n++) {
+        let target = 0;
+        let inside = true;
+        for (let d = 0; d < shape.length; d++) {
+          const at = chunk.offset[d] + index[d];
+          if (at >= shape[d]) inside = false;
+          target += at * strides[d];
+        }
+        if (inside) out[target] = values[n];
+        for (let d = shape.length - 1; d >= 0; d--) {
+          if (++index[d] < layout.chunk[d]) break;
+          index[d] = 0;
+        }
+      }
+    }
+    return out;
+  }
+}
+
+function decode(view: DataView, offset: number, count: number, type: Datatype): Float64Array {
+  const out = new Float64Array(count);
+  const { size, littleEndian } = type;
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * size;
+    if (type.kind === 'float') {
+      out[i] = size === 4 ? view.getFloat32(at, littleEndian) : view.getFloat64(at, littleEndian);
+    } else if (size === 1) {
+      out[i] = type.kind === 'int' ? view.getInt8(at) : view.getUint8(at);
+    } else if (size === 2) {
+      out[i] = type.kind === 'int' ? view.getInt16(at, littleEndian) : view.getUint16(at, littleEndian);
+    } else if (size === 4) {
+      out[i] = type.kind === 'int' ? view.getInt32(at, littleEndian) : view.getUint32(at, littleEndian);
+    } else {
+      out[i] = Number(type.kind === 'int' ? view.getBigInt64(at, littleEndian) : view.getBigUint64(at, littleEndian));
+    }
+  }
+  return out;
+}
+
+async function applyFilter(id: number, bytes: Uint8Array, elementSize: number): Promise<Uint8Array> {
+  switch (id) {
+    case FILTER_DEFLATE: {
+      // HDF5 stores zlib streams, which is what the 'deflate' format expects
+      const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    case FILTER_SHUFFLE: {
+      const out = new Uint8Array(bytes.length);
+      const count = Math.floor(bytes.length / elementSize);
+      for (let b = 0; b < elementSize; b++) {
+        for (let i = 0; i < count; i++) out[i * elementSize + b] = bytes[b * count + i];
+      }
+      out.set(bytes.subarray(count * elementSize), count * elementSize);
+      return out;
+    }
+    case FILTER_FLETCHER32:
+      return bytes.subarray(0, bytes.length - 4);
+    default:
+      throw new Error(`HDF5: unsupported filter ${id}`);
+  }
+}
@@ -0,0 +1,86 @@
+import { HrirSet } from '../types';
+import { vaultDb, VaultHrtf } from './vaultDb';
+import { parseSofa } from './sofa';
+import { diffuseFieldScale, Hrir, interpolateHrir, resampleHrir, sphericalHeadHrir } from './dsp/hrir';
+import { Vec3 } from './dsp/orientation';
+
+// Built-in set computed from a spherical head model; `null` elsewhere means
+// the browser's own HRTF panner
+export const SPHERICAL_HEAD_HRTF = 'builtin_sphere';
+
+// HRIR sets for the binaural renderer. SOFA files are parsed once on import
+// and stored in the Vault; per-direction responses are built on demand and
+// cached per sample rate, so A/B switching doesn't redo the interpolation.
+class HrtfLibrary {
+  private sets = new Map<string, HrirSet>();
+  private built = new Map<string, AudioBuffer[]>();
+
+  async getSets(): Promise<VaultHrtf[]> {
+    const sets = await vaultDb.getAllHrtfs();
+    return sets.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Parses up front so unreadable files are rejected before they're stored
+  async importSofa(file: File): Promise<VaultHrtf> {
+    const set = await parseSofa(await file.arrayBuffer());
+    const hrtf: VaultHrtf = {
+      ...set,
+      id: `hrtf_${Date.now()}`,
+      name: file.name.replace(/\.[^/.]+$/, ""),
+      dateAdded: Date.now(),
+    };
+    await vaultDb.saveHrtf(hrtf);
+    return hrtf;
+  }
+
+  async deleteSet(id: string) {
+    await vaultDb.deleteHrtf(id);
+    this.sets.delete(id);
+    [...this.built.keys()].filter(key => key.startsWith(`${id}@`)).forEach(key => this.built.delete(key));
+  }
+
+  // One stereo response per direction at the context's rate, or null for the
+  // browser HRTF (also the fallback when a set has gone missing from the Vault)
+  async buildHrirs(ctx: BaseAudioContext, id: string | null, directions: Vec3[]): Promise<AudioBuffer[] | null> {
+    if (!id) return null;
+    const key = `${id}@${ctx.sampleRate}@${directions.map(d => d.join(',')).join(';')}`;
+    const cached = this.built.get(key);
+    if (cached) return cached;
+
+    let hrirs: Hrir[];
+    if (id === SPHERICAL_HEAD_HRTF) {
+      hrirs = directions.map(d => sphericalHeadHrir(d, ctx.sampleRate));
+    } else {
+      const set = await this.load(id);
+      if (!set) {
+        console.warn(`HRTF ${id} unavailable, using the browser HRTF`);
+        return null;
+      }
+      const scale = diffuseFieldScale(set);
+      const prepare = (ir: Float32Array) => resampleHrir(ir.map(v => v * scale), set.sampleRate, ctx.sampleRate);
+      hrirs = directions.map(d => {
+        const { left, right } = interpolateHrir(set, d);
+        return { left: prepare(left), right: prepare(right) };
+      });
+    }
+
+    const buffers = hrirs.map(({ left, right }) => {
+      const buffer = ctx.createBuffer(2, left.length, ctx.sampleRate);
+      buffer.getChannelData(0).set(left);
+      buffer.getChannelData(1).set(right);
+      return buffer;
+    });
+    this.built.set(key, buffers);
+    return buffers;
+  }
+
+  private async load(id: string): Promise<HrirSet | undefined> {
+    const cached = this.sets.get(id);
+    if (cached) return cached;
+    const set = await vaultDb.getHrtf(id);
+    if (set) this.sets.set(id, set);
+    return set;
+  }
+}
+
+export const hrtfLibrary = new HrtfLibrary();
@@ -0,0 +1,83 @@
+import { ReverbRoom } from '../types';
+
+// Fade applied to the tail after trimming so a cut IR doesn't end in a click
+const TRIM_FADE_SECONDS = 0.01;
+
+// Small deterministic PRNG (mulberry32); the same seed always yields the same room
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Exponentially decaying stereo noise, decorrelated between channels
+export function generateImpulseResponse(ctx: BaseAudioContext, duration: number, decay: number, seed: number): AudioBuffer {
+  const length = Math.max(1, Math.floor(ctx.sampleRate * duration));
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const random = seededRandom(seed * 2 + channel);
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (random() * 2 - 1) * Math.pow(1 - i / length, decay);
+    }
+  }
+  return impulse;
+}
+
+// ConvolverNode takes mono, stereo or 4-channel true-stereo (LL, LR, RL, RR)
+// IRs. Any other layout is reduced to its first two channels.
+function convolverChannels(channels: number) {
+  return channels === 1 || channels === 2 || channels === 4 ? channels : Math.min(2, channels);
+}
+
+// Applies pre-delay, trim and the IR-level high/low cut. Filtering runs the IR
+// through a short offline render so every channel is treated identically.
+export async function shapeImpulseResponse(ctx: BaseAudioContext, source: AudioBuffer, room: ReverbRoom): Promise<AudioBuffer> {
+  const rate = source.sampleRate;
+  const channels = convolverChannels(source.numberOfChannels);
+  const start = Math.min(source.length - 1, Math.floor(room.trimStart * rate));
+  const available = source.length - start;
+  const length = room.trimLength > 0 ? Math.min(available, Math.floor(room.trimLength * rate)) : available;
+  const preDelay = Math.floor((room.preDelay / 1000) * rate);
+  const fade = room.trimLength > 0 ? Math.min(length, Math.floor(TRIM_FADE_SECONDS * rate)) : 0;
+
+  const shaped = ctx.createBuffer(channels, preDelay + length, rate);
+  for (let channel = 0; channel < channels; channel++) {
+    const input = source.getChannelData(channel).subarray(start, start + length);
+    const output = shaped.getChannelData(channel);
+    output.set(input, preDelay);
+    for (let i = 0; i < fade; i++) {
+      output[preDelay + length - 1 - i] *= i / fade;
+    }
+  }
+
+  const needsLowCut = room.lowCut > 20;
+  const needsHighCut = room.highCut < 20000;
+  if (!needsLowCut && !needsHighCut) return shaped;
+
+  const render = new OfflineAudioContext(channels, shaped.length, rate);
+  const player = render.createBufferSource();
+  player.buffer = shaped;
+  let node: AudioNode = player;
+  if (needsLowCut) {
+    const lowCut = render.createBiquadFilter();
+    lowCut.type = 'highpass';
+    lowCut.frequency.value = room.lowCut;
+    node = node.connect(lowCut);
+  }
+  if (needsHighCut) {
+    const highCut = render.createBiquadFilter();
+    highCut.type = 'lowpass';
+    highCut.frequency.value = Math.min(room.highCut, rate / 2 - 1);
+    node = node.connect(highCut);
+  }
+  render.destination.channelInterpretation = 'discrete';
+  node.connect(render.destination);
+  player.start(0);
+  return render.startRendering();
+}
@@ -0,0 +1,42 @@
+import { SpeakerPosition } from '../types';
+import { SongLoudness } from './vaultDb';
+import { isLfeSpeaker, speakerAzimuth } from './speakerBed';
+import { LoudnessMeter, LoudnessReading } from './dsp/loudness';
+
+// Frames measured between yields to the UI thread
+const SCAN_CHUNK = 65536;
+
+// BS.1770 channel weights for a discrete speaker layout: 0 for LFE, +1.5 dB
+// for surrounds beyond 60 degrees off-axis, unity for everything else.
+export function channelWeightsForSpeakers(speakers: SpeakerPosition[]): number[] {
+  return speakers.map(s => {
+    if (isLfeSpeaker(s)) return 0;
+    return Math.abs(speakerAzimuth(s)) > Math.PI / 3 ? 1.41 : 1;
+  });
+}
+
+// Measures a whole buffer in chunks so long songs don't freeze the page
+export async function measureBuffer(buffer: AudioBuffer, channelWeights?: number[]): Promise<LoudnessReading> {
+  const weights = channelWeights ?? new Array(buffer.numberOfChannels).fill(1);
+  const meter = new LoudnessMeter(buffer.sampleRate, weights);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (let start = 0; start < buffer.length; start += SCAN_CHUNK) {
+    const end = Math.min(buffer.length, start + SCAN_CHUNK);
+    meter.process(channels.map(data => data.subarray(start, end)));
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return meter.reading();
+}
+
+// The song is decoded for the measurement anyway, so its duration comes along
+export async function scanSong(blob: Blob): Promise<{ loudness: SongLoudness, duration: number }> {
+  const arrayBuffer = await blob.arrayBuffer();
+  const tempCtx = new AudioContext();
+  try {
+    const buffer = await tempCtx.decodeAudioData(arrayBuffer);
+    const { integrated, range, truePeak } = await measureBuffer(buffer);
+    return { loudness: { integrated, range, truePeak, scannedAt: Date.now() }, duration: buffer.duration };
+  } finally {
+    tempCtx.close();
+  }
+}
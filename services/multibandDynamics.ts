@@ -0,0 +1,77 @@
+import { DynamicsBand } from '../types';
+
+// Band edges in Hz. The third band (1-4 kHz) carries most of the intelligibility
+// of speech and is the one dialogue priority protects.
+export const DYNAMICS_CROSSOVERS = [120, 1000, 4000];
+export const DYNAMICS_BAND_LABELS = ['Low', 'Low Mid', 'Dialogue', 'High'];
+
+const BUTTERWORTH_Q = Math.SQRT1_2;
+const KNEE_DB = 6;
+
+// Four-band compressor on Linkwitz-Riley (LR4) crossovers. Each LR4 section
+// is two cascaded Butterworth biquads; bands that skip a crossover pass
+// through a matching second-order allpass instead, so the four bands sum
+// back flat in both magnitude and phase when nothing is compressing.
+export class MultibandDynamics {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private compressors: DynamicsCompressorNode[] = [];
+  private makeups: GainNode[] = [];
+
+  constructor(private ctx: BaseAudioContext) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+
+    const filter = (type: BiquadFilterType, frequency: number) => {
+      const node = ctx.createBiquadFilter();
+      node.type = type;
+      node.frequency.value = frequency;
+      node.Q.value = BUTTERWORTH_Q;
+      return node;
+    };
+    // Chains `nodes` after `from` and returns the last one
+    const chain = (from: AudioNode, nodes: AudioNode[]) => nodes.reduce((prev, node) => prev.connect(node), from);
+    const lr4 = (type: 'lowpass' | 'highpass', frequency: number) => [filter(type, frequency), filter(type, frequency)];
+    const [f1, f2, f3] = DYNAMICS_CROSSOVERS;
+
+    const above1 = chain(this.input, lr4('highpass', f1));
+    const above2 = chain(above1, lr4('highpass', f2));
+    const bandOutputs = [
+      chain(this.input, [...lr4('lowpass', f1), filter('allpass', f2), filter('allpass', f3)]),
+      chain(above1, [...lr4('lowpass', f2), filter('allpass', f3)]),
+      chain(above2, lr4('lowpass', f3)),
+      chain(above2, lr4('highpass', f3)),
+    ];
+
+    bandOutputs.forEach(band => {
+      const compressor = ctx.createDynamicsCompressor();
+      compressor.knee.value = KNEE_DB;
+      const makeup = ctx.createGain();
+      band.connect(compressor).connect(makeup).connect(this.output);
+      this.compressors.push(compressor);
+      this.makeups.push(makeup);
+    });
+  }
+
+  setBands(bands: DynamicsBand[], immediate = false) {
+    const time = this.ctx.currentTime;
+    const set = (param: AudioParam, value: number) => {
+      if (immediate) param.value = value;
+      else param.setTargetAtTime(value, time, 0.05);
+    };
+    this.compressors.forEach((compressor, i) => {
+      const band = bands[i];
+      if (!band) return;
+      set(compressor.threshold, band.threshold);
+      set(compressor.ratio, band.ratio);
+      set(compressor.attack, band.attack / 1000);
+      set(compressor.release, band.release / 1000);
+      set(this.makeups[i].gain, Math.pow(10, band.makeup / 20));
+    });
+  }
+
+  // Current gain reduction of each band in dB (<= 0)
+  getGainReduction(): number[] {
+    return this.compressors.map(c => c.reduction);
+  }
+}
@@ -0,0 +1,80 @@
+import { EQBand } from '../types';
+
+export const MAX_EQ_BANDS = 8;
+export const EQ_MIN_FREQUENCY = 20;
+export const EQ_MAX_FREQUENCY = 20000;
+
+const applyBand = (filter: BiquadFilterNode, band: EQBand, time: number, immediate: boolean) => {
+  // A disabled band is left in the chain as a flat peaking filter so the graph doesn't need rewiring
+  filter.type = band.enabled ? band.type : 'peaking';
+  const gain = band.enabled ? band.gain : 0;
+  if (immediate) {
+    filter.frequency.value = band.frequency;
+    filter.gain.value = gain;
+    filter.Q.value = band.q;
+  } else {
+    filter.frequency.setTargetAtTime(band.frequency, time, 0.05);
+    filter.gain.setTargetAtTime(gain, time, 0.05);
+    filter.Q.setTargetAtTime(band.q, time, 0.05);
+  }
+};
+
+// User-editable N-band parametric EQ. The audible chain glides between
+// settings; a parallel set of unconnected "preview" filters is updated
+// instantly so the response curve in the UI is never lagging.
+export class ParametricEq {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private filters: BiquadFilterNode[] = [];
+  private previewFilters: BiquadFilterNode[] = [];
+
+  constructor(private ctx: BaseAudioContext) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.input.connect(this.output);
+  }
+
+  setBands(bands: EQBand[], immediate = false) {
+    if (bands.length !== this.filters.length) {
+      this.rebuild(bands.length);
+      immediate = true;
+    }
+    const time = this.ctx.currentTime;
+    bands.forEach((band, i) => {
+      applyBand(this.filters[i], band, time, immediate);
+      applyBand(this.previewFilters[i], band, time, true);
+    });
+  }
+
+  // Combined magnitude response in dB at the given frequencies
+  getResponse(frequencies: Float32Array): Float32Array {
+    const freqs = new Float32Array(frequencies);
+    const totalDb = new Float32Array(frequencies.length);
+    const magnitude = new Float32Array(frequencies.length);
+    const phase = new Float32Array(frequencies.length);
+    this.previewFilters.forEach(filter => {
+      filter.getFrequencyResponse(freqs, magnitude, phase);
+      for (let i = 0; i < frequencies.length; i++) {
+        totalDb[i] += 20 * Math.log10(Math.max(magnitude[i], 1e-6));
+      }
+    });
+    return totalDb;
+  }
+
+  private rebuild(count: number) {
+    try { this.input.disconnect(); } catch (e) { console.warn(e); }
+    this.filters.forEach(f => {
+      try { f.disconnect(); } catch (e) { console.warn(e); }
+    });
+
+    this.filters = Array.from({ length: count }, () => this.ctx.createBiquadFilter());
+    this.previewFilters = Array.from({ length: count }, () => this.ctx.createBiquadFilter());
+
+    let node: AudioNode = this.input;
+    this.filters.forEach(f => {
+      node.connect(f);
+      node = f;
+    });
+    node.connect(this.output);
+  }
+}
@@ -0,0 +1,114 @@
+export type RepeatMode = 'off' | 'all' | 'one';
+
+// Vault song ids only, so the queue can be saved with the session and
+// resolved against the Vault again on reload
+export interface PlayQueue {
+  upNext: string[];
+  history: string[]; // most recent last
+  source: string[]; // list playback was started from, for unshuffling and repeat-all
+  playlistId: string | null; // playlist the source came from
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+export const EMPTY_QUEUE: PlayQueue = { upNext: [], history: [], source: [], playlistId: null, shuffle: false, repeat: 'off' };
+
+const HISTORY_LIMIT = 200;
+
+function shuffled(ids: string[]) {
+  const out = [...ids];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+const pushHistory = (history: string[], id: string | null) =>
+  id ? [...history, id].slice(-HISTORY_LIMIT) : history;
+
+// Starts another repeat-all cycle once every song has played. A reshuffled
+// cycle never opens with the song that just finished the last one.
+function refill(queue: PlayQueue, current: string | null): PlayQueue {
+  if (queue.repeat !== 'all' || queue.upNext.length > 0 || queue.source.length === 0) return queue;
+  const upNext = queue.shuffle ? shuffled(queue.source) : [...queue.source];
+  if (queue.shuffle && upNext.length > 1 && upNext[0] === current) upNext.push(upNext.shift()!);
+  return { ...queue, upNext };
+}
+
+// Plays songId out of list; the rest of the list after it (all of it, shuffled,
+// when shuffle is on) becomes Up Next
+export function startQueue(queue: PlayQueue, current: string | null, list: string[], songId: string, playlistId: string | null): PlayQueue {
+  const index = list.indexOf(songId);
+  const upNext = queue.shuffle ? shuffled(list.filter(id => id !== songId)) : list.slice(index + 1);
+  const history = current === songId ? queue.history : pushHistory(queue.history, current);
+  return refill({ ...queue, upNext, history, source: list, playlistId }, songId);
+}
+
+// Song the player should line up after the current one
+export function nextInQueue(queue: PlayQueue, current: string | null): string | null {
+  if (queue.repeat === 'one' && current) return current;
+  return queue.upNext[0] ?? null;
+}
+
+// Moves on to the head of Up Next; also what a manual skip does, so it
+// ignores repeat-one
+export function skipForward(queue: PlayQueue, current: string | null): { queue: PlayQueue, songId: string | null } {
+  const [songId, ...upNext] = queue.upNext;
+  if (!songId) return { queue, songId: null };
+  return { queue: refill({ ...queue, upNext, history: pushHistory(queue.history, current) }, songId), songId };
+}
+
+export function skipBack(queue: PlayQueue, current: string | null): { queue: PlayQueue, songId: string | null } {
+  const songId = queue.history[queue.history.length - 1];
+  if (!songId) return { queue, songId: null };
+  return {
+    queue: { ...queue, history: queue.history.slice(0, -1), upNext: current ? [current, ...queue.upNext] : queue.upNext },
+    songId,
+  };
+}
+
+export function playNext(queue: PlayQueue, songId: string): PlayQueue {
+  return { ...queue, upNext: [songId, ...queue.upNext.filter(id => id !== songId)] };
+}
+
+export function playLater(queue: PlayQueue, songId: string): PlayQueue {
+  return { ...queue, upNext: [...queue.upNext.filter(id => id !== songId), songId] };
+}
+
+export function moveInQueue(queue: PlayQueue, from: number, to: number): PlayQueue {
+  const upNext = [...queue.upNext];
+  const [moved] = upNext.splice(from, 1);
+  if (moved === undefined) return queue;
+  upNext.splice(Math.max(0, Math.min(to, upNext.length)), 0, moved);
+  return { ...queue, upNext };
+}
+
+export function removeFromQueue(queue: PlayQueue, index: number): PlayQueue {
+  return { ...queue, upNext: queue.upNext.filter((_, i) => i !== index) };
+}
+
+export function clearQueue(queue: PlayQueue): PlayQueue {
+  return { ...queue, upNext: [], source: [], playlistId: null };
+}
+
+// Songs deleted from the Vault leave the queue and its history
+export function dropSong(queue: PlayQueue, songId: string): PlayQueue {
+  const keep = (id: string) => id !== songId;
+  return { ...queue, upNext: queue.upNext.filter(keep), history: queue.history.filter(keep), source: queue.source.filter(keep) };
+}
+
+// Turning shuffle off puts Up Next back in source order, keeping songs added
+// with play-next/play-later (which aren't in the source) at the front
+export function setShuffle(queue: PlayQueue, shuffle: boolean, current: string | null): PlayQueue {
+  if (shuffle === queue.shuffle) return queue;
+  if (shuffle) return refill({ ...queue, shuffle, upNext: shuffled(queue.upNext) }, current);
+  const order = new Map(queue.source.map((id, i) => [id, i]));
+  const rank = (id: string) => order.get(id) ?? -1;
+  const upNext = queue.upNext.map((id, i) => ({ id, i })).sort((a, b) => rank(a.id) - rank(b.id) || a.i - b.i).map(({ id }) => id);
+  return refill({ ...queue, shuffle, upNext }, current);
+}
+
+export function setRepeat(queue: PlayQueue, repeat: RepeatMode, current: string | null): PlayQueue {
+  return refill({ ...queue, repeat }, current);
+}
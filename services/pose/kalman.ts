@@ -0,0 +1,70 @@
+// Constant-velocity Kalman filter for a single angle. State is [angle, rate];
+// `processNoise` is the expected angular acceleration variance (deg^2/s^4)
+// and `measurementNoise` the variance of a single measurement (deg^2).
+export class AngleKalmanFilter {
+  private angle = 0;
+  private rate = 0;
+  private p00 = 1000;
+  private p01 = 0;
+  private p11 = 1000;
+  private initialized = false;
+
+  constructor(private processNoise = 20000, private measurementNoise = 16) {}
+
+  predict(dt: number) {
+    if (!this.initialized) return this.angle;
+    this.angle += this.rate * dt;
+
+    // P = F P F^T + Q for F = [[1, dt], [0, 1]] and white-noise acceleration
+    const q = this.processNoise;
+    const dt2 = dt * dt;
+    this.p00 += dt * (2 * this.p01 + dt * this.p11) + q * dt2 * dt2 / 4;
+    this.p01 += dt * this.p11 + q * dt2 * dt / 2;
+    this.p11 += q * dt2;
+    return this.angle;
+  }
+
+  // `noiseScale` inflates the measurement variance for less trusted frames
+  update(measurement: number, noiseScale = 1) {
+    if (!this.initialized) {
+      this.angle = measurement;
+      this.rate = 0;
+      this.p00 = this.measurementNoise;
+      this.p01 = 0;
+      this.p11 = 100;
+      this.initialized = true;
+      return this.angle;
+    }
+
+    const s = this.p00 + this.measurementNoise * noiseScale;
+    const k0 = this.p00 / s;
+    const k1 = this.p01 / s;
+    const innovation = measurement - this.angle;
+    this.angle += k0 * innovation;
+    this.rate += k1 * innovation;
+
+    const p00 = this.p00, p01 = this.p01;
+    this.p00 -= k0 * p00;
+    this.p01 -= k0 * p01;
+    this.p11 -= k1 * p01;
+    return this.angle;
+  }
+
+  // Stop extrapolating: used while the confidence gate is holding
+  freeze() {
+    this.rate = 0;
+  }
+
+  get value() {
+    return this.angle;
+  }
+
+  reset() {
+    this.angle = 0;
+    this.rate = 0;
+    this.p00 = 1000;
+    this.p01 = 0;
+    this.p11 = 1000;
+    this.initialized = false;
+  }
+}
@@ -0,0 +1,28 @@
+// A single camera frame in RGBA, as returned by CanvasRenderingContext2D.getImageData
+export interface PoseFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Raw per-frame measurement from an estimator. Angles are in degrees, positive
+// yaw turning right and positive pitch looking up; confidence is 0..1.
+export interface PoseMeasurement {
+  yaw: number;
+  pitch: number;
+  confidence: number;
+}
+
+// Smoothed pose handed to the audio engine. `held` is set while the confidence
+// gate is holding the last stable pose instead of following measurements.
+export interface HeadPose extends PoseMeasurement {
+  held: boolean;
+}
+
+// Pluggable pose source. Implementations must run locally and be
+// deterministic for a given frame sequence so recordings can be replayed.
+export interface PoseEstimator {
+  readonly name: string;
+  estimate(frame: PoseFrame, timestamp: number): PoseMeasurement | null;
+  reset(): void;
+}
@@ -0,0 +1,74 @@
+import { AngleKalmanFilter } from './kalman';
+import { HeadPose, PoseEstimator, PoseFrame } from './poseEstimator';
+
+export interface PoseTrackerOptions {
+  // Measurements below this confidence are ignored and the last stable pose is held
+  confidenceGate: number;
+  // After holding this long (ms) the tracker drops back to the neutral pose
+  maxHoldMs: number;
+}
+
+const DEFAULT_OPTIONS: PoseTrackerOptions = {
+  confidenceGate: 0.35,
+  maxHoldMs: 3000,
+};
+
+// Wraps any PoseEstimator with per-axis Kalman smoothing and a confidence
+// gate. Timing comes only from the timestamps passed in, so a recorded frame
+// sequence always produces the same pose track.
+export class PoseTracker {
+  private yaw = new AngleKalmanFilter();
+  private pitch = new AngleKalmanFilter();
+  private options: PoseTrackerOptions;
+  private lastTimestamp: number | null = null;
+  private lastStableAt: number | null = null;
+  private stable: HeadPose = { yaw: 0, pitch: 0, confidence: 0, held: true };
+
+  constructor(private estimator: PoseEstimator, options: Partial<PoseTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  process(frame: PoseFrame, timestamp: number): HeadPose {
+    const dt = this.lastTimestamp === null ? 0 : Math.max(0, (timestamp - this.lastTimestamp) / 1000);
+    this.lastTimestamp = timestamp;
+
+    const measurement = this.estimator.estimate(frame, timestamp);
+    const confidence = measurement?.confidence ?? 0;
+
+    if (!measurement || confidence < this.options.confidenceGate) {
+      this.yaw.freeze();
+      this.pitch.freeze();
+      if (this.lastStableAt !== null && timestamp - this.lastStableAt > this.options.maxHoldMs) {
+        this.yaw.reset();
+        this.pitch.reset();
+        this.lastStableAt = null;
+        this.stable = { yaw: 0, pitch: 0, confidence, held: true };
+      } else {
+        this.stable = { ...this.stable, confidence, held: true };
+      }
+      return this.stable;
+    }
+
+    this.yaw.predict(dt);
+    this.pitch.predict(dt);
+    // Borderline frames count for less
+    const noiseScale = 1 / Math.max(confidence, 0.05);
+    this.stable = {
+      yaw: this.yaw.update(measurement.yaw, noiseScale),
+      pitch: this.pitch.update(measurement.pitch, noiseScale),
+      confidence,
+      held: false,
+    };
+    this.lastStableAt = timestamp;
+    return this.stable;
+  }
+
+  reset() {
+    this.estimator.reset();
+    this.yaw.reset();
+    this.pitch.reset();
+    this.lastTimestamp = null;
+    this.lastStableAt = null;
+    this.stable = { yaw: 0, pitch: 0, confidence: 0, held: true };
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { replayRecording, synthesizeRecording, SyntheticFaceOptions } from './replayHarness';
+import { FEATURE_DEPTH } from './skinFeatureEstimator';
+
+type Pose = { yaw: number; pitch: number };
+
+// Degrees, once the tracker has settled. At 160x120 a pixel of feature travel
+// is about 4.5 degrees near straight ahead.
+const TOLERANCE = 4;
+const FPS = 30;
+
+// Holds each pose for `frames` frames; returns the track and the last frame of every hold
+function holds(poses: Pose[], frames = 40) {
+  const track = poses.flatMap(pose => Array<Pose>(frames).fill(pose));
+  return { track, settledAt: poses.map((_, i) => (i + 1) * frames - 1) };
+}
+
+// Past 20 degrees of yaw the brows reach the face outline when looking up
+const POSES: Pose[] = [
+  { yaw: 0, pitch: 0 }, { yaw: 30, pitch: 0 }, { yaw: -30, pitch: 0 }, { yaw: 15, pitch: 15 },
+  { yaw: -15, pitch: -15 }, { yaw: 0, pitch: 20 }, { yaw: 20, pitch: -20 }, { yaw: 30, pitch: -15 },
+];
+
+const FIXTURES: [string, Omit<SyntheticFaceOptions, 'track'>][] = [
+  ['clean', {}],
+  ['lamp', { lamp: true }],
+  ['white shirt', { whiteShirt: true }],
+  ['lamp and white shirt', { lamp: true, whiteShirt: true }],
+];
+
+describe.each(FIXTURES)('replay of the %s fixture', (_, fixture) => {
+  it('settles on the ground-truth pose without gating a frame', () => {
+    const { track, settledAt } = holds(POSES);
+    const result = replayRecording(synthesizeRecording({ ...fixture, fps: FPS, track }));
+
+    expect(result.heldFrames).toBe(0);
+    POSES.forEach((truth, i) => {
+      const pose = result.poses[settledAt[i]];
+      expect(Math.abs(pose.yaw - truth.yaw), `yaw at ${JSON.stringify(truth)}`).toBeLessThan(TOLERANCE);
+      expect(Math.abs(pose.pitch - truth.pitch), `pitch at ${JSON.stringify(truth)}`).toBeLessThan(TOLERANCE);
+    });
+  });
+
+  it('holds the last pose while the listener is out of view and picks up again', () => {
+    const { track } = holds([{ yaw: 25, pitch: 10 }], 60);
+    const result = replayRecording(synthesizeRecording({ ...fixture, fps: FPS, track, dropouts: [[30, 45]] }));
+    const before = result.poses[29];
+
+    expect(result.heldFrames).toBe(15);
+    result.poses.slice(30, 45).forEach(pose => {
+      expect(pose.held).toBe(true);
+      expect(pose.yaw).toBe(before.yaw);
+      expect(pose.pitch).toBe(before.pitch);
+    });
+    const after = result.poses[59];
+    expect(after.held).toBe(false);
+    expect(Math.abs(after.yaw - 25)).toBeLessThan(TOLERANCE);
+    expect(Math.abs(after.pitch - 10)).toBeLessThan(TOLERANCE);
+  });
+
+  it('drops back to neutral once the hold outlasts maxHoldMs', () => {
+    const { track } = holds([{ yaw: -25, pitch: -10 }], 130);
+    const result = replayRecording(synthesizeRecording({ ...fixture, fps: FPS, track, dropouts: [[20, 130]] }), undefined, { maxHoldMs: 1000 });
+
+    // The last stable frame is 19, so the hold gives out after frame 49
+    expect(result.poses[49]).toMatchObject({ held: true, yaw: result.poses[19].yaw });
+    expect(result.poses[51]).toMatchObject({ held: true, yaw: 0, pitch: 0 });
+    expect(result.poses[129]).toMatchObject({ held: true, yaw: 0, pitch: 0 });
+  });
+});
+
+// Real faces spread around the depth the estimator assumes. That misreads the
+// angle by the depth ratio in its sine, but must not break tracking.
+describe.each([0.45, 0.7])('replay of a face %s half-widths deep', featureDepth => {
+  it('tracks every pose with the sine scaled by the depth ratio', () => {
+    const { track, settledAt } = holds(POSES);
+    const result = replayRecording(synthesizeRecording({ fps: FPS, track, featureDepth }));
+    const expected = (angle: number) => Math.asin((featureDepth / FEATURE_DEPTH) * Math.sin((angle * Math.PI) / 180)) * 180 / Math.PI;
+
+    expect(result.heldFrames).toBe(0);
+    POSES.forEach((truth, i) => {
+      const pose = result.poses[settledAt[i]];
+      expect(Math.abs(pose.yaw - expected(truth.yaw)), `yaw at ${JSON.stringify(truth)}`).toBeLessThan(TOLERANCE);
+      expect(Math.abs(pose.pitch - expected(truth.pitch)), `pitch at ${JSON.stringify(truth)}`).toBeLessThan(TOLERANCE);
+    });
+  });
+});
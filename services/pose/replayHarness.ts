@@ -0,0 +1,153 @@
+import { HeadPose, PoseEstimator, PoseFrame } from './poseEstimator';
+import { PoseTracker, PoseTrackerOptions } from './poseTracker';
+import { SkinFeaturePoseEstimator } from './skinFeatureEstimator';
+
+// Frames captured from the head tracker, RGBA base64-encoded so a session can
+// be saved as JSON and replayed against any estimator.
+export interface PoseRecording {
+  width: number;
+  height: number;
+  frames: { timestamp: number; data: string }[];
+}
+
+export interface ReplayResult {
+  poses: HeadPose[];
+  heldFrames: number;
+  // Largest frame-to-frame yaw jump, a quick proxy for jitter
+  maxYawStep: number;
+}
+
+const encodeFrame = (data: Uint8ClampedArray) => {
+  let binary = '';
+  for (let i = 0; i < data.length; i++) binary += String.fromCharCode(data[i]);
+  return btoa(binary);
+};
+
+const decodeFrame = (encoded: string) => {
+  const binary = atob(encoded);
+  const data = new Uint8ClampedArray(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return data;
+};
+
+export class PoseRecorder {
+  private frames: PoseRecording['frames'] = [];
+  private width = 0;
+  private height = 0;
+
+  constructor(private maxFrames = 600) {}
+
+  capture(frame: PoseFrame, timestamp: number) {
+    if (this.frames.length >= this.maxFrames) return;
+    this.width = frame.width;
+    this.height = frame.height;
+    this.frames.push({ timestamp, data: encodeFrame(frame.data) });
+  }
+
+  get size() {
+    return this.frames.length;
+  }
+
+  toRecording(): PoseRecording {
+    return { width: this.width, height: this.height, frames: [...this.frames] };
+  }
+}
+
+// Feeds every recorded frame through a fresh tracker, in order, using the
+// recorded timestamps. Same recording + same estimator = same result.
+export function replayRecording(
+  recording: PoseRecording,
+  estimator: PoseEstimator = new SkinFeaturePoseEstimator(),
+  options: Partial<PoseTrackerOptions> = {}
+): ReplayResult {
+  const tracker = new PoseTracker(estimator, options);
+  const poses: HeadPose[] = [];
+  let heldFrames = 0;
+  let maxYawStep = 0;
+
+  recording.frames.forEach(({ timestamp, data }) => {
+    const pose = tracker.process({ width: recording.width, height: recording.height, data: decodeFrame(data) }, timestamp);
+    if (pose.held) heldFrames++;
+    if (poses.length > 0) maxYawStep = Math.max(maxYawStep, Math.abs(pose.yaw - poses[poses.length - 1].yaw));
+    poses.push(pose);
+  });
+
+  return { poses, heldFrames, maxYawStep };
+}
+
+export interface SyntheticFaceOptions {
+  width?: number;
+  height?: number;
+  fps?: number;
+  // Ground-truth pose per frame, in degrees
+  track: { yaw: number; pitch: number }[];
+  // Adds the classic failure cases of the old brightness tracker: a lamp with
+  // a warm, skin-toned shade beside the head, and a white shirt with a bare
+  // neck joining the face
+  lamp?: boolean;
+  whiteShirt?: boolean;
+  // Frame ranges [start, end) in which the listener has left the camera view
+  dropouts?: [number, number][];
+  // How far in front of the rotation axes the features sit, in face half-widths
+  featureDepth?: number;
+}
+
+// An average adult face, from the same head proportions the estimator assumes
+const FIXTURE_FEATURE_DEPTH = 0.57;
+
+// Renders a deterministic face sequence (skin ellipse with eyes, brows and
+// mouth displaced by the requested pose) for exercising estimators without a
+// camera.
+export function synthesizeRecording(options: SyntheticFaceOptions): PoseRecording {
+  const width = options.width ?? 160;
+  const height = options.height ?? 120;
+  const fps = options.fps ?? 30;
+
+  const frames = options.track.map(({ yaw, pitch }, index) => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    const paint = (x: number, y: number, r: number, g: number, b: number) => {
+      const i = (y * width + x) * 4;
+      data[i] = r; data[i + 1] = g; data[i + 2] = b; data[i + 3] = 255;
+    };
+
+    const cx = width / 2, cy = height * 0.45;
+    const rx = width * 0.14, ry = height * 0.26;
+    // Features sit on the head in front of its rotation axes and move across
+    // the face by the sine of the turn; the depth is the same in both directions
+    const depth = (options.featureDepth ?? FIXTURE_FEATURE_DEPTH) * rx;
+    const fx = cx - Math.sin((yaw * Math.PI) / 180) * depth;
+    const fy = cy - 0.2 * ry - Math.sin((pitch * Math.PI) / 180) * depth;
+    const away = options.dropouts?.some(([start, end]) => index >= start && index < end) ?? false;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let color: [number, number, number] = [70, 72, 80];
+        const lampDistance = Math.hypot(x - width * 0.85, y - height * 0.2);
+        if (options.lamp && lampDistance < width * 0.12) {
+          color = lampDistance < width * 0.05 ? [255, 250, 235] : [235, 170, 120];
+        }
+        if (away) {
+          paint(x, y, ...color);
+          continue;
+        }
+        if (options.whiteShirt && Math.abs(x - cx) < rx * 0.45 && y > cy + ry * 0.8) color = [195, 140, 112];
+        if (options.whiteShirt && y > height * 0.78) color = [240, 240, 240];
+        if (((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 < 1) {
+          color = [205, 150, 120];
+          const eyeY = fy - ry * 0.05;
+          const eyeDx = rx * 0.35;
+          const inEye = (ex: number) => ((x - ex) / (rx * 0.14)) ** 2 + ((y - eyeY) / (ry * 0.08)) ** 2 < 1;
+          const inBrow = (ex: number) => Math.abs(x - ex) < rx * 0.16 && Math.abs(y - (eyeY - ry * 0.18)) < ry * 0.06;
+          const inMouth = Math.abs(x - fx) < rx * 0.28 && Math.abs(y - (fy + ry * 0.5)) < ry * 0.05;
+          if (inEye(fx - eyeDx) || inEye(fx + eyeDx) || inBrow(fx - eyeDx) || inBrow(fx + eyeDx) || inMouth) {
+            color = [45, 30, 28];
+          }
+        }
+        paint(x, y, ...color);
+      }
+    }
+    return { timestamp: (index * 1000) / fps, data: encodeFrame(data) };
+  });
+
+  return { width, height, frames };
+}
@@ -0,0 +1,262 @@
+import { PoseEstimator, PoseFrame, PoseMeasurement } from './poseEstimator';
+
+// Skin chroma bounds in YCbCr (ITU-R BT.601). Bright lamps and white clothing
+// sit near the neutral axis (Cb = Cr = 128) and fall outside them.
+const SKIN_CB = [80, 135];
+const SKIN_CR = [135, 180];
+const SKIN_MIN_LUMA = 45;
+
+// Skin mask is reduced to blocks before connected-component labelling
+const BLOCK = 4;
+const BLOCK_FILL = 0.5;
+// Rows narrower than this fraction of the widest one are neck, not face
+const NECK_SPAN = 0.6;
+
+// The facial features sit in front of the neck's rotation axes, so a turn
+// moves them across the face by sin(angle) times their depth, while the
+// centroid of the face's skin, lying on the surface curving back towards the
+// axes, moves less. Rough adult head proportions put the eyes about 8 cm in
+// front of the axes and that centroid about 4 cm, on a face about 14 cm wide:
+// (8 - 4) / 7 of the face's half-width. Yaw and pitch share the one depth, so
+// both offsets are measured in half-widths. A face deeper or shallower than
+// this scales the sine of the reported angle by the same ratio.
+export const FEATURE_DEPTH = 0.57;
+// Looking straight ahead, the features cluster around the eye line, a little
+// above the middle of the skin (in face half-heights)
+const NEUTRAL_FEATURE_V = -0.13;
+
+interface Box {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+const ramp = (value: number, lo: number, hi: number) => Math.max(0, Math.min(1, (value - lo) / (hi - lo)));
+
+// Landmark-style estimator that needs no model download. The face is found as
+// the largest skin-coloured region (searched near the previous face first),
+// then the dark facial features inside it (eyes, brows, nostrils, mouth) are
+// located. When the head turns, those features shift relative to the face
+// outline; their normalised offset maps to yaw and pitch.
+export class SkinFeaturePoseEstimator implements PoseEstimator {
+  readonly name = 'Skin + Feature Tracker';
+  private lastFace: Box | null = null;
+
+  estimate(frame: PoseFrame): PoseMeasurement | null {
+    const face = this.findFace(frame, this.lastFace) ?? (this.lastFace ? this.findFace(frame, null) : null);
+    // Only a region that measured as a face is searched around next time, so
+    // a skin-toned lampshade or wall picked up while the listener is away
+    // can't hold on to the search once they are back
+    this.lastFace = null;
+    if (!face) return null;
+
+    const { width, data } = frame;
+    const w = face.x1 - face.x0;
+    const h = face.y1 - face.y0;
+
+    // Mean skin luma inside the face sets the threshold for "dark feature"
+    let skinLuma = 0, skinCount = 0;
+    for (let y = face.y0; y < face.y1; y++) {
+      for (let x = face.x0; x < face.x1; x++) {
+        const i = (y * width + x) * 4;
+        if (isSkin(data[i], data[i + 1], data[i + 2])) {
+          skinLuma += luma(data[i], data[i + 1], data[i + 2]);
+          skinCount++;
+        }
+      }
+    }
+    if (skinCount === 0) return null;
+    skinLuma /= skinCount;
+
+    // Skin span of every row. A neck joins the face blob but is much narrower
+    // than the face, so the face ends at the first row below its widest one
+    // where the span falls under NECK_SPAN of the widest.
+    const spans: [number, number][] = [];
+    let widest = face.y0;
+    for (let y = face.y0; y < face.y1; y++) {
+      let left = -1, right = -1;
+      for (let x = face.x0; x < face.x1; x++) {
+        const i = (y * width + x) * 4;
+        if (isSkin(data[i], data[i + 1], data[i + 2])) {
+          if (left < 0) left = x;
+          right = x;
+        }
+      }
+      spans.push([left, right]);
+      if (right - left > spans[widest - face.y0][1] - spans[widest - face.y0][0]) widest = y;
+    }
+    const widestSpan = spans[widest - face.y0][1] - spans[widest - face.y0][0];
+    let chin = face.y1;
+    for (let y = widest; y < face.y1; y++) {
+      const [left, right] = spans[y - face.y0];
+      if (left < 0 || right - left < widestSpan * NECK_SPAN) {
+        chin = y;
+        break;
+      }
+    }
+
+    // Only pixels enclosed by skin on the same row belong to the face, so the
+    // background in the box corners never counts as a feature. The face
+    // center is the centroid of that hull, which is stable against the block
+    // quantisation of the bounding box.
+    let fx = 0, fy = 0, featureCount = 0;
+    let mx = 0, my = 0, massCount = 0;
+    const hull: Box = { x0: face.x1, y0: face.y1, x1: face.x0, y1: face.y0 };
+    for (let y = face.y0; y < chin; y++) {
+      const [left, right] = spans[y - face.y0];
+      if (left >= 0) {
+        hull.x0 = Math.min(hull.x0, left);
+        hull.x1 = Math.max(hull.x1, right + 1);
+        hull.y0 = Math.min(hull.y0, y);
+        hull.y1 = y + 1;
+      }
+      for (let x = left; left >= 0 && x <= right; x++) {
+        const i = (y * width + x) * 4;
+        const skin = isSkin(data[i], data[i + 1], data[i + 2]);
+        const feature = !skin && luma(data[i], data[i + 1], data[i + 2]) < skinLuma * 0.6;
+        if (feature) {
+          fx += x;
+          fy += y;
+          featureCount++;
+        }
+        if (skin || feature) {
+          mx += x;
+          my += y;
+          massCount++;
+        }
+      }
+    }
+    const cx = massCount ? mx / massCount : (face.x0 + face.x1) / 2;
+    const cy = massCount ? my / massCount : (face.y0 + face.y1) / 2;
+
+    const area = w * h;
+    const featureFraction = featureCount / area;
+    const areaFraction = area / (frame.width * frame.height);
+    const aspect = h / w;
+    const confidence =
+      ramp(areaFraction, 0.01, 0.04) * (1 - ramp(areaFraction, 0.6, 0.85)) *
+      ramp(skinCount / area, 0.3, 0.55) *
+      ramp(featureFraction, 0.005, 0.02) * (1 - ramp(featureFraction, 0.3, 0.45)) *
+      ramp(aspect, 0.7, 1.0) * (1 - ramp(aspect, 2.0, 2.6));
+
+    if (featureCount === 0 || confidence === 0) return { yaw: 0, pitch: 0, confidence: 0 };
+    this.lastFace = face;
+
+    // Offsets are taken against the skin hull, which the block grid of the
+    // face box would otherwise round up by as much as a block per side
+    const halfWidth = (hull.x1 - hull.x0) / 2;
+    const u = (fx / featureCount - cx) / halfWidth;
+    const v = (fy / featureCount - cy - NEUTRAL_FEATURE_V * (hull.y1 - hull.y0) / 2) / halfWidth;
+    return {
+      // The camera faces the listener, so turning right moves features to the image's left
+      yaw: -angleFromOffset(u, FEATURE_DEPTH),
+      pitch: -angleFromOffset(v, FEATURE_DEPTH),
+      confidence,
+    };
+  }
+
+  reset() {
+    this.lastFace = null;
+  }
+
+  // Largest 4-connected skin region in block space, optionally restricted to
+  // an expanded window around the previous face.
+  private findFace(frame: PoseFrame, near: Box | null): Box | null {
+    const { width, height, data } = frame;
+    const cols = Math.floor(width / BLOCK);
+    const rows = Math.floor(height / BLOCK);
+    const mask = new Uint8Array(cols * rows);
+
+    let window: Box = { x0: 0, y0: 0, x1: cols, y1: rows };
+    if (near) {
+      const padX = (near.x1 - near.x0) / 2;
+      const padY = (near.y1 - near.y0) / 2;
+      window = {
+        x0: Math.max(0, Math.floor((near.x0 - padX) / BLOCK)),
+        y0: Math.max(0, Math.floor((near.y0 - padY) / BLOCK)),
+        x1: Math.min(cols, Math.ceil((near.x1 + padX) / BLOCK)),
+        y1: Math.min(rows, Math.ceil((near.y1 + padY) / BLOCK)),
+      };
+    }
+
+    for (let by = window.y0; by < window.y1; by++) {
+      for (let bx = window.x0; bx < window.x1; bx++) {
+        let skin = 0;
+        for (let y = by * BLOCK; y < (by + 1) * BLOCK; y++) {
+          for (let x = bx * BLOCK; x < (bx + 1) * BLOCK; x++) {
+            const i = (y * width + x) * 4;
+            if (isSkin(data[i], data[i + 1], data[i + 2])) skin++;
+          }
+        }
+        if (skin >= BLOCK * BLOCK * BLOCK_FILL) mask[by * cols + bx] = 1;
+      }
+    }
+
+    // Flood fill each region, keep the biggest
+    const labels = new Int32Array(cols * rows);
+    const stack: number[] = [];
+    let best: Box | null = null;
+    let bestSize = 0;
+    let label = 0;
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || labels[start]) continue;
+      label++;
+      let size = 0;
+      const box: Box = { x0: cols, y0: rows, x1: 0, y1: 0 };
+      stack.push(start);
+      labels[start] = label;
+      while (stack.length) {
+        const idx = stack.pop()!;
+        const bx = idx % cols;
+        const by = (idx - bx) / cols;
+        size++;
+        box.x0 = Math.min(box.x0, bx);
+        box.y0 = Math.min(box.y0, by);
+        box.x1 = Math.max(box.x1, bx + 1);
+        box.y1 = Math.max(box.y1, by + 1);
+        const neighbours = [
+          bx > 0 ? idx - 1 : -1,
+          bx < cols - 1 ? idx + 1 : -1,
+          by > 0 ? idx - cols : -1,
+          by < rows - 1 ? idx + cols : -1,
+        ];
+        for (const n of neighbours) {
+          if (n >= 0 && mask[n] && !labels[n]) {
+            labels[n] = label;
+            stack.push(n);
+          }
+        }
+      }
+      if (size > bestSize) {
+        bestSize = size;
+        best = box;
+      }
+    }
+
+    // A face needs at least a 3x3 block footprint
+    if (!best || bestSize < 9) return null;
+    return {
+      x0: best.x0 * BLOCK,
+      y0: best.y0 * BLOCK,
+      x1: best.x1 * BLOCK,
+      y1: best.y1 * BLOCK,
+    };
+  }
+}
+
+function angleFromOffset(offset: number, depth: number) {
+  return (Math.asin(Math.max(-1, Math.min(1, offset / depth))) * 180) / Math.PI;
+}
+
+function luma(r: number, g: number, b: number) {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function isSkin(r: number, g: number, b: number) {
+  const y = luma(r, g, b);
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > SKIN_MIN_LUMA && cb >= SKIN_CB[0] && cb <= SKIN_CB[1] && cr >= SKIN_CR[0] && cr <= SKIN_CR[1];
+}
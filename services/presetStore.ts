@@ -0,0 +1,140 @@
+import { AudioPreset, AudioSettings, PresetParams } from '../types';
+import { BUILT_IN_PRESETS, DEFAULT_REVERB_ROOM, drcDynamics, DEFAULT_ROOM_MODEL, SPEAKER_LAYOUTS } from '../constants';
+
+const PRESET_PARAM_KEYS: (keyof PresetParams)[] = [
+  'bass', 'treble', 'vocalClarity', 'reverbLevel', 'reverbRoom', 'reverbEngine', 'roomModel', 'xCurve',
+  'isTheaterMode', 'isHdAudioEnabled', 'drc', 'dynamics', 'surroundLevel', 'heightLevel',
+  'lfeCrossover', 'centerSpread', 'upmixAlgorithm', 'eqBands', 'layout',
+];
+
+// Exported files wrap presets in an envelope so they can be recognised on import
+interface PresetFile {
+  format: 'stagepov-presets';
+  version: 1;
+  presets: { name: string; params: PresetParams }[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const shapeOf = (value: unknown) => Array.isArray(value) ? 'array' : typeof value;
+
+export function snapshotPresetParams(settings: AudioSettings, layout: string): PresetParams {
+  const params = { layout } as PresetParams;
+  const assign = <K extends keyof PresetParams>(key: K, value: PresetParams[K]) => { params[key] = value; };
+  PRESET_PARAM_KEYS.forEach(key => {
+    if (key !== 'layout') assign(key, settings[key]);
+  });
+  return params;
+}
+
+// Fills anything an older or hand-edited file is missing from Pure Direct and
+// drops keys we don't know about.
+function sanitizeParams(raw: unknown): PresetParams {
+  const base = BUILT_IN_PRESETS[0].params;
+  const source = isRecord(raw) ? raw : {};
+  const params = { ...base };
+  // A value only replaces Pure Direct's when it has the same shape
+  const take = <K extends keyof PresetParams>(key: K) => {
+    if (source[key] !== undefined && shapeOf(source[key]) === shapeOf(base[key])) params[key] = source[key] as PresetParams[K];
+  };
+  PRESET_PARAM_KEYS.forEach(key => take(key));
+  if (!SPEAKER_LAYOUTS[params.layout]) params.layout = base.layout;
+  params.reverbRoom = { ...DEFAULT_REVERB_ROOM, ...params.reverbRoom };
+  params.roomModel = { ...DEFAULT_ROOM_MODEL, ...params.roomModel };
+  // Presets saved before the multiband compressor only had the DRC amount
+  if (!isRecord(source.dynamics) || !Array.isArray(source.dynamics.bands)) params.dynamics = drcDynamics(params.drc, false);
+  return params;
+}
+
+// User presets live in localStorage next to the read-only built-ins.
+class PresetStore {
+  private storageKey = 'stagepov_presets';
+
+  getPresets(): AudioPreset[] {
+    return [...BUILT_IN_PRESETS, ...this.loadUserPresets()];
+  }
+
+  getPreset(id: string): AudioPreset | undefined {
+    return this.getPresets().find(p => p.id === id);
+  }
+
+  savePreset(name: string, params: PresetParams): AudioPreset {
+    const preset: AudioPreset = { id: `preset_${Date.now()}`, name, builtIn: false, params };
+    this.storeUserPresets([...this.loadUserPresets(), preset]);
+    return preset;
+  }
+
+  // Overwrites a user preset's parameters; built-ins are read-only
+  updatePreset(id: string, params: PresetParams) {
+    this.storeUserPresets(this.loadUserPresets().map(p => p.id === id ? { ...p, params } : p));
+  }
+
+  renamePreset(id: string, name: string) {
+    this.storeUserPresets(this.loadUserPresets().map(p => p.id === id ? { ...p, name } : p));
+  }
+
+  duplicatePreset(id: string): AudioPreset | undefined {
+    const source = this.getPreset(id);
+    if (!source) return undefined;
+    return this.savePreset(`${source.name} Copy`, structuredClone(source.params));
+  }
+
+  deletePreset(id: string) {
+    this.storeUserPresets(this.loadUserPresets().filter(p => p.id !== id));
+  }
+
+  exportPresets(ids: string[]): string {
+    const file: PresetFile = {
+      format: 'stagepov-presets',
+      version: 1,
+      presets: this.getPresets()
+        .filter(p => ids.includes(p.id))
+        .map(({ name, params }) => ({ name, params })),
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  // Accepts an exported file or a bare preset object; imported presets always become user presets
+  importPresets(json: string): AudioPreset[] {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (e) {
+      throw new Error('Preset file is not valid JSON');
+    }
+    const entries: unknown[] = isRecord(raw) && raw.format === 'stagepov-presets' && Array.isArray(raw.presets) ? raw.presets : [raw];
+    const valid = entries.filter((e): e is { name: string; params: Record<string, unknown> } => isRecord(e) && typeof e.name === 'string' && isRecord(e.params));
+    if (valid.length === 0) throw new Error('No presets found in file');
+
+    const stamp = Date.now();
+    const imported = valid.map((e, i): AudioPreset => ({
+      id: `preset_${stamp}_${i}`,
+      name: e.name,
+      builtIn: false,
+      params: sanitizeParams(e.params),
+    }));
+    this.storeUserPresets([...this.loadUserPresets(), ...imported]);
+    return imported;
+  }
+
+  private loadUserPresets(): AudioPreset[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return [];
+      const presets: AudioPreset[] = JSON.parse(stored);
+      return presets.map(p => ({ ...p, builtIn: false, params: sanitizeParams(p.params) }));
+    } catch (e) {
+      console.warn('Failed to load presets', e);
+      return [];
+    }
+  }
+
+  private storeUserPresets(presets: AudioPreset[]) {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(presets));
+    } catch (e) {
+      console.error('Failed to save presets', e);
+    }
+  }
+}
+
+export const presetStore = new PresetStore();
@@ -0,0 +1,144 @@
+import { CalibrationProfile } from '../types';
+import { loadWorklets } from './worklets';
+import { ParametricEq } from './parametricEq';
+import { analyzeImpulse, deconvolve, deriveCorrectionBands, generateLogSweep, ImpulseAnalysis } from './dsp/roomCorrection';
+
+const MEASUREMENT_RATE = 48000;
+const SWEEP_SECONDS = 3;
+// Room decay plus output and input latency
+const TAIL_SECONDS = 1.5;
+const LEAD_IN_SECONDS = 0.2;
+// How long past the planned stop the recorder may take to hand over the recording
+const STOP_MARGIN_SECONDS = 2;
+const SWEEP_LEVEL = 0.5;
+const MAX_CHANNEL_DELAY_MS = 50;
+
+export type MeasurementStatus = { channel: number; channels: number; phase: 'playing' | 'analyzing' };
+
+// Plays the sweep through each output channel in turn and records the room
+// through the microphone, with the browser's voice processing turned off.
+export async function measureChannels(
+  channels: number,
+  onStatus: (status: MeasurementStatus) => void
+): Promise<ImpulseAnalysis[]> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+  });
+  const ctx = new AudioContext({ sampleRate: MEASUREMENT_RATE });
+  try {
+    if (!(await loadWorklets(ctx))) throw new Error('Measurements need AudioWorklet support');
+    await ctx.resume();
+
+    const microphone = ctx.createMediaStreamSource(stream);
+    const recorder = new AudioWorkletNode(ctx, 'stagepov-recorder', { numberOfOutputs: 0 });
+    microphone.connect(recorder);
+
+    const sweep = generateLogSweep(ctx.sampleRate, SWEEP_SECONDS);
+    const results: ImpulseAnalysis[] = [];
+    for (let channel = 0; channel < channels; channel++) {
+      onStatus({ channel, channels, phase: 'playing' });
+      const recording = await recordSweep(ctx, recorder, sweep.sweep, channel, channels);
+      onStatus({ channel, channels, phase: 'analyzing' });
+      // Let the progress update paint before the heavy FFTs
+      await new Promise(resolve => setTimeout(resolve, 0));
+      results.push(analyzeImpulse(deconvolve(recording, sweep), ctx.sampleRate));
+    }
+    return results;
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    ctx.close();
+  }
+}
+
+function recordSweep(ctx: AudioContext, recorder: AudioWorkletNode, sweep: Float32Array, channel: number, channels: number): Promise<Float32Array> {
+  const seconds = LEAD_IN_SECONDS + SWEEP_SECONDS + TAIL_SECONDS;
+  return new Promise((resolve, reject) => {
+    // A stalled context or recorder would otherwise keep the microphone open for good
+    const timeout = setTimeout(() => {
+      recorder.port.onmessage = null;
+      reject(new Error('The microphone recording did not finish'));
+    }, (seconds + STOP_MARGIN_SECONDS) * 1000);
+    const chunks: Float32Array[] = [];
+    recorder.port.onmessage = event => {
+      if (event.data instanceof Float32Array) {
+        chunks.push(event.data);
+        return;
+      }
+      if (event.data?.type !== 'stopped') return;
+      const recording = new Float32Array(chunks.reduce((n, c) => n + c.length, 0));
+      let offset = 0;
+      chunks.forEach(c => { recording.set(c, offset); offset += c.length; });
+      clearTimeout(timeout);
+      resolve(recording);
+    };
+
+    const buffer = ctx.createBuffer(channels, sweep.length, ctx.sampleRate);
+    buffer.getChannelData(channel).set(sweep.map(v => v * SWEEP_LEVEL));
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+
+    recorder.port.postMessage({ type: 'start' });
+    source.start(ctx.currentTime + LEAD_IN_SECONDS);
+    setTimeout(() => recorder.port.postMessage({ type: 'stop' }), seconds * 1000);
+  });
+}
+
+// Channels are delayed to line up with the latest arrival and trimmed down to
+// the quietest; the correction EQ comes from their averaged response.
+export function buildCalibrationProfile(name: string, measurements: ImpulseAnalysis[]): CalibrationProfile {
+  const latest = Math.max(...measurements.map(m => m.delay));
+  const quietest = Math.min(...measurements.map(m => m.level));
+  const average = {
+    ...measurements[0],
+    response: measurements[0].response.map((_, i) => measurements.reduce((sum, m) => sum + m.response[i], 0) / measurements.length),
+    level: measurements.reduce((sum, m) => sum + m.level, 0) / measurements.length,
+  };
+  return {
+    id: `calibration_${Date.now()}`,
+    name,
+    dateCreated: Date.now(),
+    channels: measurements.map(m => ({
+      delay: Math.min(MAX_CHANNEL_DELAY_MS, Math.round((latest - m.delay) * 1000 * 100) / 100),
+      trim: Math.round((quietest - m.level) * 10) / 10,
+    })),
+    eqBands: deriveCorrectionBands(average, MEASUREMENT_RATE),
+  };
+}
+
+// Applies a calibration profile to the output: per-channel delay and trim,
+// then the correction EQ. Flat and zero-delay without a profile.
+export class CalibrationStage {
+  readonly input: AudioNode;
+  readonly output: AudioNode;
+  private delays: DelayNode[] = [];
+  private trims: GainNode[] = [];
+  private eq: ParametricEq;
+
+  constructor(private ctx: BaseAudioContext, channels: number) {
+    const splitter = ctx.createChannelSplitter(channels);
+    const merger = ctx.createChannelMerger(channels);
+    for (let i = 0; i < channels; i++) {
+      const delay = ctx.createDelay(MAX_CHANNEL_DELAY_MS / 1000);
+      const trim = ctx.createGain();
+      splitter.connect(delay, i).connect(trim).connect(merger, 0, i);
+      this.delays.push(delay);
+      this.trims.push(trim);
+    }
+    this.eq = new ParametricEq(ctx);
+    merger.connect(this.eq.input);
+    this.input = splitter;
+    this.output = this.eq.output;
+  }
+
+  setProfile(profile: CalibrationProfile | null, immediate = false) {
+    const time = this.ctx.currentTime;
+    const set = (param: AudioParam, value: number) => {
+      if (immediate) param.value = value;
+      else param.setTargetAtTime(value, time, 0.05);
+    };
+    this.delays.forEach((delay, i) => set(delay.delayTime, (profile?.channels[i]?.delay ?? 0) / 1000));
+    this.trims.forEach((trim, i) => set(trim.gain, Math.pow(10, (profile?.channels[i]?.trim ?? 0) / 20)));
+    this.eq.setBands(profile?.eqBands ?? [], immediate);
+  }
+}
@@ -0,0 +1,66 @@
+import { ReverbRoom } from '../types';
+import { DEFAULT_REVERB_ROOM } from '../constants';
+import { vaultDb, VaultRoom } from './vaultDb';
+import { generateImpulseResponse, shapeImpulseResponse } from './impulseResponse';
+
+// Impulse responses kept in the Vault, decoded on demand and cached per
+// sample rate so switching rooms or exporting doesn't decode the file again.
+class RoomLibrary {
+  private decoded = new Map<string, AudioBuffer>();
+
+  async getRooms(): Promise<VaultRoom[]> {
+    const rooms = await vaultDb.getAllRooms();
+    return rooms.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Decodes once up front so broken files are rejected before they're stored
+  async importRoom(file: File): Promise<VaultRoom> {
+    const ctx = new OfflineAudioContext(1, 1, 48000);
+    const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+    const room: VaultRoom = {
+      id: `room_${Date.now()}`,
+      name: file.name.replace(/\.[^/.]+$/, ""),
+      blob: file,
+      channels: buffer.numberOfChannels,
+      sampleRate: buffer.sampleRate,
+      duration: buffer.duration,
+      dateAdded: Date.now(),
+    };
+    await vaultDb.saveRoom(room);
+    return room;
+  }
+
+  async deleteRoom(id: string) {
+    await vaultDb.deleteRoom(id);
+    [...this.decoded.keys()].filter(key => key.startsWith(`${id}@`)).forEach(key => this.decoded.delete(key));
+  }
+
+  // Falls back to the seeded synthetic room when the IR is missing from the Vault
+  async buildImpulse(ctx: BaseAudioContext, room: ReverbRoom): Promise<AudioBuffer> {
+    const resolved = { ...DEFAULT_REVERB_ROOM, ...room };
+    let source: AudioBuffer | null = null;
+    if (resolved.irId) {
+      try {
+        source = await this.decode(ctx, resolved.irId);
+      } catch (e) {
+        console.warn(`Room ${resolved.irId} unavailable, using synthetic room`, e);
+      }
+    }
+    source ??= generateImpulseResponse(ctx, resolved.duration, resolved.decay, resolved.seed);
+    return shapeImpulseResponse(ctx, source, resolved);
+  }
+
+  private async decode(ctx: BaseAudioContext, id: string): Promise<AudioBuffer> {
+    const key = `${id}@${ctx.sampleRate}`;
+    const cached = this.decoded.get(key);
+    if (cached) return cached;
+    const room = await vaultDb.getRoom(id);
+    if (!room) throw new Error('Room not found');
+    // decodeAudioData resamples to the context's rate
+    const buffer = await ctx.decodeAudioData(await room.blob.arrayBuffer());
+    this.decoded.set(key, buffer);
+    return buffer;
+  }
+}
+
+export const roomLibrary = new RoomLibrary();
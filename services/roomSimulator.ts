@@ -0,0 +1,157 @@
+import { RoomModel, SpeakerPosition } from '../types';
+import { isLfeSpeaker, speakerAzimuth } from './speakerBed';
+
+export const SPEED_OF_SOUND = 343;
+const EAR_HEIGHT = 1.2;
+// Image sources up to this many wall bounces make up the early reflections
+const MAX_REFLECTION_ORDER = 3;
+const FDN_SIZE = 8;
+const MAX_TAIL_SECONDS = 5;
+
+type Point = [number, number, number];
+
+// The layout grid spans +/-2 units; map it onto the room floor with the
+// origin in the room's center. Speaker y (-1..1.5) spreads around ear height.
+export function gridToRoom(model: RoomModel, x: number, z: number, y = 0): Point {
+  const clamp = (v: number, size: number) => Math.max(0.05 * size, Math.min(0.95 * size, v));
+  return [
+    clamp((x / 4 + 0.5) * model.width, model.width),
+    clamp(EAR_HEIGHT + y, model.height),
+    clamp((0.5 - z / 4) * model.depth, model.depth),
+  ];
+}
+
+// Sabine reverberation time
+export function roomRt60(model: RoomModel) {
+  const { width: w, depth: d, height: h } = model;
+  const volume = w * d * h;
+  const surface = 2 * (w * d + w * h + d * h);
+  return Math.min(MAX_TAIL_SECONDS, (0.161 * volume) / (surface * Math.max(0.02, model.absorption)));
+}
+
+// Constant-power left/right weights for a direction in the horizontal plane
+function pan(azimuth: number): [number, number] {
+  const p = Math.max(-1, Math.min(1, Math.sin(azimuth)));
+  const theta = (p + 1) * Math.PI / 4;
+  return [Math.cos(theta), Math.sin(theta)];
+}
+
+// All image sources of `source` in a shoebox up to MAX_REFLECTION_ORDER,
+// excluding the direct path, with their bounce count.
+function imageSources(model: RoomModel, source: Point) {
+  const size: Point = [model.width, model.height, model.depth];
+  const images: { position: Point; order: number }[] = [];
+  const range = Array.from({ length: MAX_REFLECTION_ORDER * 2 + 1 }, (_, i) => i - MAX_REFLECTION_ORDER);
+  // Along one axis, image n sits at 2*k*L +/- s where n = 2k or 2k-1 bounces
+  const axisImage = (axis: number, n: number) => {
+    const k = Math.ceil(n / 2);
+    const mirrored = n % 2 !== 0;
+    return 2 * k * size[axis] + (mirrored ? -source[axis] : source[axis]);
+  };
+  range.forEach(nx => range.forEach(ny => range.forEach(nz => {
+    const order = Math.abs(nx) + Math.abs(ny) + Math.abs(nz);
+    if (order === 0 || order > MAX_REFLECTION_ORDER) return;
+    images.push({ position: [axisImage(0, nx), axisImage(1, ny), axisImage(2, nz)], order });
+  })));
+  return images;
+}
+
+// Renders the room as a 4-channel true-stereo impulse response (LL, LR, RL,
+// RR) for a ConvolverNode. Early reflections come from the image sources of
+// every active speaker relative to the listener; each speaker is driven by the
+// input channel it sits on. An 8-line feedback delay network supplies the late
+// tail. Everything is computed from the parameters alone, so live playback and
+// offline renders get identical rooms.
+export function buildRoomImpulse(ctx: BaseAudioContext, model: RoomModel, speakers: SpeakerPosition[]): AudioBuffer {
+  const rate = ctx.sampleRate;
+  const rt60 = roomRt60(model);
+  const length = Math.ceil(rate * (rt60 + 0.1));
+  const impulse = ctx.createBuffer(4, length, rate);
+  const channels = [0, 1, 2, 3].map(c => impulse.getChannelData(c));
+  const reflectivity = Math.sqrt(1 - Math.max(0, Math.min(0.99, model.absorption)));
+
+  const listener = gridToRoom(model, model.listenerPos.x, model.listenerPos.y);
+  const active = speakers.filter(s => s.isActive && !isLfeSpeaker(s));
+  let firstArrival = Infinity;
+
+  active.forEach(speaker => {
+    const source = gridToRoom(model, speaker.x, speaker.z, speaker.y);
+    const directDistance = Math.hypot(source[0] - listener[0], source[1] - listener[1], source[2] - listener[2]);
+    const [fromLeft, fromRight] = pan(speakerAzimuth(speaker));
+
+    imageSources(model, source).forEach(({ position, order }) => {
+      const dx = position[0] - listener[0];
+      const dy = position[1] - listener[1];
+      const dz = position[2] - listener[2];
+      const distance = Math.hypot(dx, dy, dz);
+      // Timing is relative to the direct sound, which the dry path already carries
+      const delay = (distance - directDistance) / SPEED_OF_SOUND;
+      const index = Math.round(delay * rate);
+      if (index < 0 || index >= length) return;
+      firstArrival = Math.min(firstArrival, delay);
+
+      const gain = Math.pow(reflectivity, order) / Math.max(1, distance) / Math.sqrt(active.length);
+      // Room +z runs from the front wall to the back, so facing the front is -z
+      const [toLeft, toRight] = pan(Math.atan2(dx, -dz));
+      channels[0][index] += fromLeft * toLeft * gain;
+      channels[1][index] += fromLeft * toRight * gain;
+      channels[2][index] += fromRight * toLeft * gain;
+      channels[3][index] += fromRight * toRight * gain;
+    });
+  });
+
+  addLateTail(channels, model, rt60, rate, Number.isFinite(firstArrival) ? firstArrival : 0.01);
+  return impulse;
+}
+
+// Householder FDN with per-line absorption and one-pole damping. Delay lengths
+// scale with the room's mean free path; mutually prime-ish offsets keep the
+// modes from stacking.
+function addLateTail(channels: Float32Array[], model: RoomModel, rt60: number, rate: number, onset: number) {
+  const { width: w, depth: d, height: h } = model;
+  const meanFreePath = (4 * w * d * h) / (2 * (w * d + w * h + d * h));
+  const ratios = [1.0, 1.13, 1.27, 1.39, 1.51, 1.66, 1.79, 1.93];
+  const lengths = ratios.map((r, i) => Math.max(8, Math.round((meanFreePath / SPEED_OF_SOUND) * r * rate) + i * 7));
+  const lineGains = lengths.map(n => Math.pow(10, (-3 * n) / (rt60 * rate)));
+  // High frequencies die faster in absorbent rooms
+  const damping = 0.2 + 0.6 * Math.max(0, Math.min(1, model.absorption));
+
+  const buffers = lengths.map(n => new Float32Array(n));
+  const positions = new Array(FDN_SIZE).fill(0);
+  const lowpass = new Array(FDN_SIZE).fill(0);
+  const outputs = new Float32Array(FDN_SIZE);
+  // Decorrelated output taps per output ear, shared by both input channels
+  const leftTaps = [1, -1, 1, -1, 1, 1, -1, -1];
+  const rightTaps = [1, 1, -1, -1, -1, 1, 1, -1];
+
+  const start = Math.round(onset * rate);
+  const length = channels[0].length;
+  const tailGain = 0.25 * Math.sqrt(1 - model.absorption);
+
+  for (let n = start; n < length; n++) {
+    let sum = 0;
+    for (let i = 0; i < FDN_SIZE; i++) {
+      const value = buffers[i][positions[i]];
+      lowpass[i] = value * (1 - damping) + lowpass[i] * damping;
+      outputs[i] = lowpass[i] * lineGains[i];
+      sum += outputs[i];
+    }
+    const reflection = (2 / FDN_SIZE) * sum;
+    const excitation = n === start ? 1 : 0;
+
+    let left = 0, right = 0;
+    for (let i = 0; i < FDN_SIZE; i++) {
+      left += leftTaps[i] * outputs[i];
+      right += rightTaps[i] * outputs[i];
+      buffers[i][positions[i]] = outputs[i] - reflection + excitation;
+      positions[i] = (positions[i] + 1) % lengths[i];
+    }
+
+    left *= tailGain;
+    right *= tailGain;
+    channels[0][n] += left;
+    channels[1][n] += right;
+    channels[2][n] += left;
+    channels[3][n] += right;
+  }
+}
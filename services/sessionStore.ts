@@ -0,0 +1,103 @@
+import { AudioSettings, SpeakerPosition } from '../types';
+import { DEFAULT_AUDIO_SETTINGS, DEFAULT_LAYOUT, DEFAULT_REVERB_ROOM, drcDynamics, SPEAKER_LAYOUTS } from '../constants';
+import { EMPTY_QUEUE, PlayQueue } from './playQueue';
+
+// Last Vault track and where playback was when the session was saved
+export interface SessionTrack {
+  songId: string;
+  position: number; // in seconds
+}
+
+export interface Session {
+  settings: AudioSettings;
+  activeLayout: string;
+  speakers: SpeakerPosition[];
+  track: SessionTrack | null;
+  queue: PlayQueue;
+}
+
+interface SessionRecord extends Session {
+  version: number;
+  savedAt: number;
+}
+
+const SESSION_VERSION = 4;
+
+// Upgrades a record from version N to N + 1, keyed by N. Add a step here
+// whenever an existing field is renamed or changes meaning; plain additions to
+// AudioSettings are picked up from the defaults on load and need no step.
+const MIGRATIONS: Record<number, (record: any) => any> = {
+  // v2: the reverb room gained an IR reference, seed, pre-delay, trim and filters
+  1: record => ({
+    ...record,
+    settings: { ...record.settings, reverbRoom: { ...DEFAULT_REVERB_ROOM, ...record.settings?.reverbRoom } },
+  }),
+  // v3: DRC now drives a multiband compressor whose bands are derived from it
+  2: record => ({
+    ...record,
+    settings: { ...record.settings, dynamics: drcDynamics(record.settings?.drc ?? DEFAULT_AUDIO_SETTINGS.drc, false) },
+  }),
+  // v4: delay is set per speaker; the global speaker delay and phase offset are gone
+  3: record => {
+    const { speakerDelay, phaseAlignment, ...settings } = record.settings ?? {};
+    return { ...record, settings };
+  },
+};
+
+function migrate(record: any): SessionRecord | null {
+  let version = typeof record?.version === 'number' ? record.version : 0;
+  if (version > SESSION_VERSION) {
+    console.warn(`Session version ${version} is newer than this build, ignoring it`);
+    return null;
+  }
+  while (version < SESSION_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      console.warn(`No migration from session version ${version}, ignoring it`);
+      return null;
+    }
+    record = { ...step(record), version: version + 1 };
+    version++;
+  }
+  return record;
+}
+
+class SessionStore {
+  private storageKey = 'stagepov_session';
+
+  load(): Session | null {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return null;
+      const record = migrate(JSON.parse(stored));
+      if (!record) return null;
+
+      const activeLayout = SPEAKER_LAYOUTS[record.activeLayout] ? record.activeLayout : DEFAULT_LAYOUT;
+      return {
+        settings: { ...DEFAULT_AUDIO_SETTINGS, ...record.settings },
+        activeLayout,
+        speakers: Array.isArray(record.speakers) && record.speakers.length > 0 ? record.speakers : SPEAKER_LAYOUTS[activeLayout],
+        track: record.track?.songId ? { songId: record.track.songId, position: Number(record.track.position) || 0 } : null,
+        queue: { ...EMPTY_QUEUE, ...record.queue },
+      };
+    } catch (e) {
+      console.warn('Failed to restore session', e);
+      return null;
+    }
+  }
+
+  save(session: Session) {
+    const record: SessionRecord = { ...session, version: SESSION_VERSION, savedAt: Date.now() };
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(record));
+    } catch (e) {
+      console.error('Failed to save session', e);
+    }
+  }
+
+  clear() {
+    localStorage.removeItem(this.storageKey);
+  }
+}
+
+export const sessionStore = new SessionStore();
@@ -0,0 +1,49 @@
+import { HrirSet } from '../types';
+import { Hdf5Reader } from './hdf5';
+import { directionVector } from './dsp/ambisonics';
+import { Vec3 } from './dsp/orientation';
+
+const DEG = Math.PI / 180;
+
+// Reads a SimpleFreeFieldHRIR SOFA file (AES69). Data.IR holds a response per
+// measurement and ear, SourcePosition where each one was measured from, and
+// an optional Data.Delay the onset (in samples) stripped from the responses.
+export async function parseSofa(buffer: ArrayBuffer): Promise<HrirSet> {
+  const file = new Hdf5Reader(buffer);
+  const ir = file.dataset('Data.IR');
+  const [count, ears, taps] = ir.shape;
+  if (ir.shape.length !== 3 || ears !== 2 || count === 0) throw new Error('SOFA file does not hold two-ear impulse responses');
+
+  const position = file.dataset('SourcePosition');
+  const [responses, rates, positions, delays] = await Promise.all([
+    ir.read(),
+    file.dataset('Data.SamplingRate').read(),
+    position.read(),
+    file.has('Data.Delay') ? file.dataset('Data.Delay').read() : Promise.resolve(new Float64Array(2)),
+  ]);
+  if (!(rates[0] > 0)) throw new Error('SOFA file has no sampling rate');
+
+  // Variables with a single row apply to every measurement
+  const row = (data: Float64Array, width: number, m: number) => data.length >= (m + 1) * width ? m * width : 0;
+  const cartesian = String(position.attributes.get('Type') ?? '').toLowerCase() === 'cartesian';
+  const angleUnit = /rad/i.test(String(position.attributes.get('Units') ?? '')) ? 1 : DEG;
+  const padding = Math.max(0, ...Array.from(delays, Math.round));
+
+  const set: HrirSet = { sampleRate: rates[0], directions: [], left: [], right: [] };
+  for (let m = 0; m < count; m++) {
+    const p = row(positions, 3, m);
+    const [a, b, c] = [positions[p], positions[p + 1], positions[p + 2]];
+    const length = Math.hypot(a, b, c) || 1;
+    const direction: Vec3 = cartesian ? [a / length, b / length, c / length] : directionVector(a * angleUnit, b * angleUnit);
+    set.directions.push(direction);
+
+    const d = row(delays, 2, m);
+    [set.left, set.right].forEach((responsesForEar, ear) => {
+      const response = new Float32Array(taps + padding);
+      const start = (m * 2 + ear) * taps;
+      response.set(responses.subarray(start, start + taps), Math.max(0, Math.round(delays[d + ear])));
+      responsesForEar.push(response);
+    });
+  }
+  return set;
+}
@@ -0,0 +1,37 @@
+import { RoomModel, SpeakerPosition } from '../types';
+import { gridToRoom, SPEED_OF_SOUND } from './roomSimulator';
+
+// Room model dimensions top out around a 70 m diagonal
+export const MAX_SPEAKER_DELAY_MS = 250;
+
+export interface SpeakerAlignment {
+  distance: number; // in meters, from the speaker to the listener
+  delay: number; // in ms, manual or derived
+  gain: number; // linear trim, negative when the polarity is inverted
+}
+
+// Distance from a speaker to the listener, with the layout grid stretched
+// over the room model's floor the same way the room simulator does it
+export function speakerDistance(model: RoomModel, speaker: SpeakerPosition) {
+  const [sx, sy, sz] = gridToRoom(model, speaker.x, speaker.z, speaker.y);
+  const [lx, ly, lz] = gridToRoom(model, model.listenerPos.x, model.listenerPos.y);
+  return Math.hypot(sx - lx, sy - ly, sz - lz);
+}
+
+// Nearer speakers wait for the farthest active one so every wavefront reaches
+// the listener together. A speaker's own `delay` replaces the derived value.
+export function computeSpeakerAlignment(speakers: SpeakerPosition[], model: RoomModel): Map<string, SpeakerAlignment> {
+  const distances = new Map(speakers.map(s => [s.id, speakerDistance(model, s)]));
+  const farthest = Math.max(0, ...speakers.filter(s => s.isActive).map(s => distances.get(s.id)!));
+  const alignment = new Map<string, SpeakerAlignment>();
+  speakers.forEach(s => {
+    const distance = distances.get(s.id)!;
+    const derived = Math.max(0, ((farthest - distance) / SPEED_OF_SOUND) * 1000);
+    alignment.set(s.id, {
+      distance,
+      delay: Math.max(0, Math.min(MAX_SPEAKER_DELAY_MS, s.delay ?? derived)),
+      gain: Math.pow(10, (s.trim ?? 0) / 20) * (s.invertPolarity ? -1 : 1),
+    });
+  });
+  return alignment;
+}
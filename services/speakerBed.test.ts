@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { SpeakerPosition } from '../types';
+import { SpeakerBed } from './speakerBed';
+import { stemIndex } from './upmixer';
+
+// Just enough of the Web Audio graph to follow where the nodes are connected
+interface FakeNode {
+  kind: string;
+  gain: { value: number };
+  links: { node: FakeNode; output: number; input: number }[];
+  connect(node: FakeNode, output?: number, input?: number): FakeNode;
+  disconnect(node?: FakeNode): void;
+}
+
+function fakeContext() {
+  const nodes: FakeNode[] = [];
+  const param = () => ({ value: 0, setTargetAtTime() {}, cancelScheduledValues() {} });
+  const create = (kind: string) => () => {
+    const node: FakeNode & Record<string, unknown> = {
+      kind,
+      gain: param(),
+      frequency: param(),
+      Q: param(),
+      delayTime: param(),
+      links: [],
+      connect(target, output = 0, input = 0) {
+        node.links.push({ node: target, output, input });
+        return target;
+      },
+      disconnect(target) {
+        node.links = target ? node.links.filter(l => l.node !== target) : [];
+      },
+    };
+    node.gain.value = 1;
+    nodes.push(node);
+    return node;
+  };
+  const ctx = {
+    currentTime: 0,
+    createGain: create('gain'),
+    createBiquadFilter: create('biquad'),
+    createDelay: create('delay'),
+    createChannelSplitter: create('splitter'),
+    createChannelMerger: create('merger'),
+  };
+  return { ctx: ctx as unknown as BaseAudioContext, nodes };
+}
+
+// Merger inputs a node ends up on, with the product of the gains along the way
+function reach(node: FakeNode, gain = 1): Map<number, number> {
+  const found = new Map<number, number>();
+  node.links.forEach(({ node: next, input }) => {
+    if (next.kind === 'merger') {
+      found.set(input, (found.get(input) ?? 0) + gain);
+      return;
+    }
+    reach(next, next.kind === 'gain' ? gain * next.gain.value : gain).forEach((g, channel) => found.set(channel, (found.get(channel) ?? 0) + g));
+  });
+  return found;
+}
+
+const speaker = (id: string, x: number, z: number, y = 0): SpeakerPosition => ({ id, name: id, x, y, z, isActive: true });
+
+function setup(speakers: SpeakerPosition[], slope: 12 | 24 = 24) {
+  const { ctx, nodes } = fakeContext();
+  const stems = ctx.createGain() as unknown as AudioNode;
+  const output = ctx.createGain() as unknown as AudioNode;
+  const bed = new SpeakerBed(ctx, stems, output, 'discrete');
+  bed.setBassManagement(80, { slope, lfeGain: 0, lfePhase: 0 }, true);
+  bed.setLayout(speakers);
+  // After the stem splitter the constructor creates lfeGain -> bassBus -> lfePhase
+  const lfeGain = nodes[3];
+  const splitter = nodes[2];
+  return { bed, lfeGain, splitter, nodes };
+}
+
+describe('SpeakerBed bass management', () => {
+  it('folds the LFE stem into the speakers carrying the front pair', () => {
+    const { lfeGain } = setup([speaker('FL', -1, 1), speaker('FC', 0, 1), speaker('FR', 1, 1)]);
+    const lfe = reach(lfeGain);
+    expect([...lfe.keys()].sort()).toEqual([0, 2]);
+    lfe.forEach(gain => expect(gain).toBeCloseTo(Math.SQRT1_2));
+  });
+
+  it('follows the front pair when a speaker moves without a rebuild', () => {
+    const layout = [speaker('FL', -1, 1), speaker('FC', 0, 1), speaker('FR', 1, 1)];
+    const { bed, lfeGain, nodes } = setup(layout);
+    const created = nodes.length;
+
+    // Behind the listener FL turns into a surround and FR carries the front pair alone
+    bed.setLayout([speaker('FL', -1, -1), layout[1], layout[2]]);
+    const lfe = reach(lfeGain);
+    expect([...lfe.keys()]).toEqual([2]);
+    expect(lfe.get(2)).toBeCloseTo(1);
+    // Only the fold-back was rewired
+    expect(nodes.length - created).toBe(1);
+
+    bed.setLayout(layout);
+    expect([...reach(lfeGain).keys()].sort()).toEqual([0, 2]);
+  });
+
+  it('sends the LFE stem to the subwoofers in phase whatever the slope', () => {
+    for (const slope of [12, 24] as const) {
+      const { lfeGain } = setup([speaker('FL', -1, 1), speaker('FR', 1, 1), speaker('LFE', 0, 1)], slope);
+      expect(reach(lfeGain)).toEqual(new Map([[2, 1]]));
+    }
+  });
+
+  it('inverts the low-passed mains only with the 12 dB slope', () => {
+    for (const [slope, polarity] of [[12, -1], [24, 1]] as const) {
+      const { splitter } = setup([speaker('FL', -1, 1), speaker('FR', 1, 1), speaker('LFE', 0, 1)], slope);
+      // FL's share of the left stem reaches FL through the high-pass and the
+      // subwoofer through the low-pass and the bass bus
+      const left = splitter.links.filter(l => l.output === stemIndex('L')).map(l => reach(l.node)).find(r => r.has(0))!;
+      expect(Math.sign(left.get(0)!)).toBe(1);
+      expect(Math.sign(left.get(2)!)).toBe(polarity);
+    }
+  });
+});
+
@@ -0,0 +1,353 @@
+import { BassManagementSettings, SpeakerPosition } from '../types';
+import { DEFAULT_BASS_MANAGEMENT, SPEAKER_LAYOUTS } from '../constants';
+import { UPMIX_STEMS, UpmixStem, stemIndex } from './upmixer';
+import { MAX_SPEAKER_DELAY_MS, SpeakerAlignment } from './speakerAlignment';
+import { ambisonicChannels, fromWebAudio, MAX_AMBISONIC_ORDER, sphericalHarmonics } from './dsp/ambisonics';
+import { Vec3 } from './dsp/orientation';
+
+// Layout coordinates live on a +/-2 unit grid. Scale them out so the HRTF
+// panners see believable room distances.
+export const SPATIAL_SCALE = 3;
+
+// Gain of every upmix stem into one speaker, indexed like UPMIX_STEMS
+export type SpeakerFeed = number[];
+
+export const isLfeSpeaker = (speaker: SpeakerPosition) => speaker.id.startsWith('LFE');
+export const isHeightSpeaker = (speaker: SpeakerPosition) => !isLfeSpeaker(speaker) && speaker.y >= 0.5;
+
+// Azimuth in radians: 0 is straight ahead, positive to the right, +/-PI behind.
+export const speakerAzimuth = (speaker: SpeakerPosition) => Math.atan2(speaker.x, speaker.z);
+
+// Unit vector towards the speaker in Ambisonic axes (+x front, +y left, +z up)
+export function speakerDirection(speaker: SpeakerPosition): Vec3 {
+  const [x, y, z] = fromWebAudio([speaker.x, speaker.y, -speaker.z]);
+  const length = Math.hypot(x, y, z) || 1;
+  return [x / length, y / length, z / length];
+}
+
+const isFrontSpeaker = (s: SpeakerPosition) =>
+  !isLfeSpeaker(s) && !isHeightSpeaker(s) && Math.abs(speakerAzimuth(s)) <= Math.PI / 3;
+const isCenterSpeaker = (s: SpeakerPosition) => isFrontSpeaker(s) && Math.abs(s.x) < 0.25;
+
+// Constant-power left/right weights from the speaker's azimuth; anything
+// beyond 45 degrees either side is hard-panned.
+function panWeights(speaker: SpeakerPosition): [number, number] {
+  const pan = Math.max(-1, Math.min(1, speakerAzimuth(speaker) / (Math.PI / 4)));
+  const theta = (pan + 1) * Math.PI / 4;
+  return [Math.cos(theta), Math.sin(theta)];
+}
+
+// Routes every upmix stem except LFE (which goes through bass management) to
+// the speakers of the layout. Stems go to their
+// natural speaker group and fold into the nearest group the layout does have
+// (e.g. ambience into the fronts on a stereo layout, center into a phantom
+// image). Each stem is power-normalised across the speakers that share it, so
+// switching layouts doesn't change overall loudness.
+export function computeSpeakerFeeds(speakers: SpeakerPosition[]): Map<string, SpeakerFeed> {
+  const feeds = new Map<string, SpeakerFeed>();
+  speakers.forEach(s => feeds.set(s.id, new Array(UPMIX_STEMS.length).fill(0)));
+
+  const mains = speakers.filter(s => !isLfeSpeaker(s));
+  const centers = speakers.filter(isCenterSpeaker);
+  const sides = speakers.filter(s => isFrontSpeaker(s) && !isCenterSpeaker(s));
+  const surrounds = mains.filter(s => !isFrontSpeaker(s) && !isHeightSpeaker(s));
+  const heights = speakers.filter(isHeightSpeaker);
+  const firstNonEmpty = (...groups: SpeakerPosition[][]) => groups.find(g => g.length > 0) ?? [];
+
+  const assignPair = (left: UpmixStem, right: UpmixStem, group: SpeakerPosition[]) => {
+    group.forEach(s => {
+      const [l, r] = panWeights(s);
+      feeds.get(s.id)![stemIndex(left)] = l;
+      feeds.get(s.id)![stemIndex(right)] = r;
+    });
+  };
+  const assignMono = (stem: UpmixStem, group: SpeakerPosition[]) => {
+    group.forEach(s => feeds.get(s.id)![stemIndex(stem)] = 1);
+  };
+
+  const fronts = firstNonEmpty(sides, centers, mains);
+  assignPair('L', 'R', fronts);
+  assignMono('C', firstNonEmpty(centers, sides, mains));
+  assignPair('Ls', 'Rs', firstNonEmpty(surrounds, fronts));
+  assignPair('Lh', 'Rh', firstNonEmpty(heights, surrounds, fronts));
+
+  UPMIX_STEMS.forEach((_, stem) => {
+    let power = 0;
+    feeds.forEach(feed => power += feed[stem] * feed[stem]);
+    if (power === 0) return;
+    const norm = 1 / Math.sqrt(power);
+    feeds.forEach(feed => feed[stem] *= norm);
+  });
+
+  return feeds;
+}
+
+// 'ambisonic' encodes every speaker at its position onto a B-format bus,
+// 'discrete' keeps one output channel per speaker for multichannel masters.
+export type BedRenderMode = 'ambisonic' | 'discrete';
+
+interface SpeakerBranch {
+  speaker: SpeakerPosition;
+  stemGains: GainNode[];
+  feed: GainNode;
+  highpass: BiquadFilterNode[];
+  lowpass: BiquadFilterNode[];
+  bassSend: GainNode | null; // low-passed remainder into the bass bus
+  delay: DelayNode;
+  trim: GainNode;
+  encoder: GainNode[];
+}
+
+// 180 degrees at the lowest crossover the UI offers
+const MAX_LFE_PHASE_DELAY = 0.015;
+
+// One processing branch per active speaker, fed from the upmix stems and
+// delayed and trimmed per speaker. In ambisonic mode every branch is encoded
+// as a plane wave from its direction and summed into `output` (ACN/SN3D, one
+// channel per harmonic); in discrete mode the branches are merged into one
+// channel each, in layout order.
+//
+// Bass management: with subwoofers in the layout, every main is high-passed at
+// the crossover and its low-passed remainder joins the LFE stem on a bass bus
+// that is shared out between the subwoofers. Without one the mains run full
+// range and the LFE stem folds into the front speakers.
+export class SpeakerBed {
+  private splitter: ChannelSplitterNode;
+  private merger: ChannelMergerNode | null = null;
+  private branches: SpeakerBranch[] = [];
+  private layoutKey = '';
+  private alignment = new Map<string, SpeakerAlignment>();
+  private crossover = 80;
+  private bass: BassManagementSettings = DEFAULT_BASS_MANAGEMENT;
+  private lfeGain: GainNode;
+  private bassBus: GainNode;
+  private lfePhase: DelayNode;
+  private bassOutputs: GainNode[] = [];
+  private bassRoute = ''; // ids of the speakers the bass bus feeds
+
+  constructor(
+    private ctx: BaseAudioContext,
+    stems: AudioNode,
+    private output: AudioNode,
+    private mode: BedRenderMode = 'ambisonic',
+    private order = MAX_AMBISONIC_ORDER
+  ) {
+    this.splitter = ctx.createChannelSplitter(UPMIX_STEMS.length);
+    stems.connect(this.splitter);
+
+    this.lfeGain = ctx.createGain();
+    this.bassBus = ctx.createGain();
+    this.bassBus.channelCount = 1;
+    this.bassBus.channelCountMode = 'explicit';
+    this.lfePhase = ctx.createDelay(MAX_LFE_PHASE_DELAY);
+    this.lfeGain.connect(this.bassBus).connect(this.lfePhase);
+  }
+
+  setLayout(speakers: SpeakerPosition[]) {
+    let active = speakers.filter(s => s.isActive);
+    if (!active.some(s => !isLfeSpeaker(s))) {
+      active = SPEAKER_LAYOUTS['Stereo 2.0'];
+    }
+
+    const key = this.buildKey(active);
+    if (key !== this.layoutKey) {
+      this.rebuild(active);
+      this.layoutKey = key;
+      return;
+    }
+
+    const feeds = computeSpeakerFeeds(active);
+    const time = this.ctx.currentTime;
+    active.forEach((s, i) => {
+      const branch = this.branches[i];
+      branch.speaker = s;
+      feeds.get(s.id)!.forEach((gain, stem) => branch.stemGains[stem].gain.setTargetAtTime(gain, time, 0.05));
+      const encoding = this.encodingGains(s);
+      branch.encoder.forEach((gain, n) => gain.gain.setTargetAtTime(encoding[n], time, 0.05));
+    });
+    this.routeBass(feeds);
+    this.branches.forEach(b => this.applyAlignment(b, false));
+  }
+
+  setAlignment(alignment: Map<string, SpeakerAlignment>, immediate = false) {
+    this.alignment = alignment;
+    this.branches.forEach(b => this.applyAlignment(b, immediate));
+  }
+
+  // The slope decides how many filters each branch has, so changing it rebuilds
+  setBassManagement(crossover: number, settings: BassManagementSettings, immediate = false) {
+    const slopeChanged = settings.slope !== this.bass.slope;
+    this.crossover = crossover;
+    this.bass = settings;
+    if (slopeChanged && this.branches.length > 0) {
+      const speakers = this.branches.map(b => b.speaker);
+      this.rebuild(speakers);
+      this.layoutKey = this.buildKey(speakers);
+      return;
+    }
+    this.applyBassManagement(immediate);
+  }
+
+  private applyBassManagement(immediate: boolean) {
+    const set = (param: AudioParam, value: number) => {
+      if (immediate) param.value = value;
+      else param.setTargetAtTime(value, this.ctx.currentTime, 0.05);
+    };
+    this.branches.forEach(b => [...b.highpass, ...b.lowpass].forEach(f => set(f.frequency, this.crossover)));
+    set(this.lfeGain.gain, Math.pow(10, this.bass.lfeGain / 20));
+    const phase = Math.max(0, Math.min(180, this.bass.lfePhase));
+    set(this.lfePhase.delayTime, Math.min(MAX_LFE_PHASE_DELAY, phase / 360 / this.crossover));
+  }
+
+  private applyAlignment(branch: SpeakerBranch, immediate: boolean) {
+    const alignment = this.alignment.get(branch.speaker.id);
+    const delay = (alignment?.delay ?? 0) / 1000;
+    const gain = alignment?.gain ?? 1;
+    if (immediate) {
+      branch.delay.delayTime.value = delay;
+      branch.trim.gain.value = gain;
+      return;
+    }
+    const time = this.ctx.currentTime;
+    branch.delay.delayTime.setTargetAtTime(delay, time, 0.05);
+    branch.trim.gain.setTargetAtTime(gain, time, 0.05);
+  }
+
+  disconnect() {
+    this.teardown();
+    [this.lfeGain, this.bassBus, this.lfePhase].forEach(node => {
+      try { node.disconnect(); } catch (e) { console.warn(e); }
+    });
+  }
+
+  private buildKey(speakers: SpeakerPosition[]) {
+    return `${speakers.map(s => s.id).join('|')}@${this.bass.slope}`;
+  }
+
+  // Linkwitz-Riley sections: one Q 0.5 biquad for 12 dB/oct, two Butterworth
+  // biquads for 24 dB/oct
+  private createCrossover(type: BiquadFilterType): BiquadFilterNode[] {
+    const sections = this.bass.slope === 24 ? 2 : 1;
+    return Array.from({ length: sections }, () => {
+      const filter = this.ctx.createBiquadFilter();
+      filter.type = type;
+      filter.frequency.value = this.crossover;
+      // Web Audio reads a lowpass/highpass Q as resonance in dB
+      filter.Q.value = 20 * Math.log10(sections === 2 ? Math.SQRT1_2 : 0.5);
+      return filter;
+    });
+  }
+
+  private rebuild(speakers: SpeakerPosition[]) {
+    this.teardown();
+    const feeds = computeSpeakerFeeds(speakers);
+    this.splitter.connect(this.lfeGain, stemIndex('LFE'));
+
+    this.merger = this.ctx.createChannelMerger(this.mode === 'discrete' ? speakers.length : ambisonicChannels(this.order));
+    this.merger.connect(this.output);
+
+    const managed = speakers.some(isLfeSpeaker);
+
+    this.branches = speakers.map((s, channel) => {
+      const feed = this.ctx.createGain();
+      const stemGains = feeds.get(s.id)!.map((value, stem) => {
+        const gain = this.ctx.createGain();
+        gain.gain.value = value;
+        this.splitter.connect(gain, stem);
+        gain.connect(feed);
+        return gain;
+      });
+
+      const delay = this.ctx.createDelay(MAX_SPEAKER_DELAY_MS / 1000);
+      const trim = this.ctx.createGain();
+      const branch: SpeakerBranch = { speaker: s, stemGains, feed, highpass: [], lowpass: [], bassSend: null, delay, trim, encoder: [] };
+
+      if (managed && !isLfeSpeaker(s)) {
+        branch.highpass = this.createCrossover('highpass');
+        branch.lowpass = this.createCrossover('lowpass');
+        // A 2nd-order Linkwitz-Riley only sums flat with one side inverted, so
+        // the 12 dB slope flips what each main hands to the subs. The LFE
+        // stem has no high-passed half and keeps its polarity.
+        branch.bassSend = this.ctx.createGain();
+        branch.bassSend.gain.value = this.bass.slope === 12 ? -1 : 1;
+        branch.highpass.reduce<AudioNode>((node, next) => node.connect(next), feed).connect(delay);
+        branch.lowpass.reduce<AudioNode>((node, next) => node.connect(next), feed).connect(branch.bassSend).connect(this.bassBus);
+      } else {
+        feed.connect(delay);
+      }
+      delay.connect(trim);
+      this.applyAlignment(branch, true);
+
+      if (this.mode === 'discrete') {
+        trim.connect(this.merger!, 0, channel);
+        return branch;
+      }
+
+      branch.encoder = Array.from(this.encodingGains(s), (value, n) => {
+        const gain = this.ctx.createGain();
+        gain.gain.value = value;
+        trim.connect(gain).connect(this.merger!, 0, n);
+        return gain;
+      });
+      return branch;
+    });
+    this.routeBass(feeds);
+    this.applyBassManagement(true);
+  }
+
+  // Subwoofers share the bass bus. Without one it folds into the speakers
+  // carrying the front pair, which can change with the speaker positions
+  // alone, so this runs on every layout update and not just on a rebuild.
+  private routeBass(feeds: Map<string, SpeakerFeed>) {
+    const subs = this.branches.filter(b => isLfeSpeaker(b.speaker));
+    const targets = subs.length > 0 ? subs : this.branches.filter(b => {
+      const feed = feeds.get(b.speaker.id)!;
+      return !isLfeSpeaker(b.speaker) && (feed[stemIndex('L')] > 0 || feed[stemIndex('R')] > 0);
+    });
+    const route = targets.map(b => b.speaker.id).join('|');
+    if (route === this.bassRoute) return;
+    this.bassRoute = route;
+
+    this.bassOutputs.forEach(node => {
+      try {
+        this.lfePhase.disconnect(node);
+        node.disconnect();
+      } catch (e) { console.warn(e); }
+    });
+    this.bassOutputs = targets.map(b => {
+      const bassOutput = this.ctx.createGain();
+      bassOutput.gain.value = 1 / Math.sqrt(targets.length);
+      this.lfePhase.connect(bassOutput).connect(b.feed);
+      return bassOutput;
+    });
+  }
+
+  // Subwoofers are non-directional, so they only feed the omni channel
+  private encodingGains(speaker: SpeakerPosition): Float64Array {
+    if (!isLfeSpeaker(speaker)) return sphericalHarmonics(this.order, speakerDirection(speaker));
+    const gains = new Float64Array(ambisonicChannels(this.order));
+    gains[0] = 1;
+    return gains;
+  }
+
+  private teardown() {
+    try { this.splitter.disconnect(); } catch (e) { console.warn(e); }
+    try { this.lfePhase.disconnect(); } catch (e) { console.warn(e); }
+    this.branches.forEach(b => {
+      [...b.stemGains, b.feed, ...b.highpass, ...b.lowpass, b.bassSend, b.delay, b.trim, ...b.encoder].forEach(node => {
+        try { node?.disconnect(); } catch (e) { console.warn(e); }
+      });
+    });
+    this.bassOutputs.forEach(node => {
+      try { node.disconnect(); } catch (e) { console.warn(e); }
+    });
+    this.bassOutputs = [];
+    this.bassRoute = '';
+    this.branches = [];
+    this.layoutKey = '';
+    if (this.merger) {
+      try { this.merger.disconnect(); } catch (e) { console.warn(e); }
+      this.merger = null;
+    }
+  }
+}
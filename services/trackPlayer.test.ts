@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PlaybackEvents, TrackPlayer } from './trackPlayer';
+
+const fakeContext = (decode: () => Promise<AudioBuffer>) => ({
+  currentTime: 0,
+  createGain: () => ({ gain: { value: 1, cancelScheduledValues() {} }, connect() {}, disconnect() {} }),
+  decodeAudioData: decode,
+}) as unknown as AudioContext;
+
+const recorder = () => {
+  const events = { onTrackStart: vi.fn(), onPlayStateChange: vi.fn(), onEnded: vi.fn(), onError: vi.fn() };
+  return events satisfies PlaybackEvents;
+};
+
+describe('TrackPlayer', () => {
+  it('reports a track that cannot be decoded and stays stopped', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const events = recorder();
+    const player = new TrackPlayer(fakeContext(() => Promise.reject(new Error('EncodingError'))), events);
+    const track = new Blob(['not audio']);
+
+    await expect(player.load(track, 0, true)).resolves.toBeUndefined();
+
+    expect(events.onError).toHaveBeenCalledWith(track, expect.any(Error));
+    expect(events.onPlayStateChange).toHaveBeenLastCalledWith(false);
+    expect(events.onTrackStart).not.toHaveBeenCalled();
+    expect(player.isPlaying()).toBe(false);
+    expect(player.duration()).toBe(0);
+  });
+
+  it('ignores a failed decode that a newer load has replaced', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let reject: ((err: Error) => void) | undefined;
+    const events = recorder();
+    const player = new TrackPlayer(fakeContext(() => new Promise((_, r) => { reject = r; })), events);
+
+    const first = player.load(new Blob(['a']));
+    await vi.waitFor(() => expect(reject).toBeDefined());
+    player.load(null);
+    reject!(new Error('EncodingError'));
+    await first;
+
+    expect(events.onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,294 @@
+export interface PlaybackEvents {
+  onTrackStart(track: Blob, duration: number): void;
+  onPlayStateChange(playing: boolean): void;
+  onEnded(): void;
+  onError(track: Blob, error: unknown): void; // the track could not be decoded
+}
+
+// Where a player left off, so a player on a new context can carry on from it.
+// Decoded buffers aren't tied to a context and are handed over as they are.
+export interface PlayerSnapshot {
+  track: Blob | null;
+  buffer: AudioBuffer | null;
+  position: number;
+  playing: boolean;
+  nextTrack: Blob | null;
+  nextBuffer: AudioBuffer | null;
+  crossfade: number;
+}
+
+interface Deck {
+  track: Blob;
+  buffer: AudioBuffer;
+  gain: GainNode;
+  source: AudioBufferSourceNode | null;
+  startTime: number; // context time of the track's first sample
+}
+
+const CURVE_POINTS = 64;
+const fadeCurve = (fadeIn: boolean) => Float32Array.from({ length: CURVE_POINTS }, (_, i) => {
+  const t = i / (CURVE_POINTS - 1);
+  return fadeIn ? Math.sin((t * Math.PI) / 2) : Math.cos((t * Math.PI) / 2);
+});
+
+// Two-deck player on decoded buffers. The next track is decoded ahead of time
+// and scheduled on the audio clock, so album transitions are sample-exact and
+// crossfades are equal-power. Tracks are identified by their Blob.
+export class TrackPlayer {
+  readonly output: GainNode;
+  private current: Deck | null = null;
+  private next: Deck | null = null;
+  private fading: Deck | null = null; // previous track while it fades out
+  private nextTrack: Blob | null = null;
+  private nextBuffer: AudioBuffer | null = null;
+  private crossfade = 0;
+  private playing = false;
+  private pausedAt = 0;
+  private loadRequest = 0;
+  private transitionTimer: number | null = null;
+
+  constructor(private ctx: AudioContext, private events: PlaybackEvents) {
+    this.output = ctx.createGain();
+  }
+
+  async load(track: Blob | null, position = 0, play = false) {
+    if (track && track === this.current?.track) return;
+    const request = ++this.loadRequest;
+    this.stopAll();
+    this.current = null;
+    this.playing = false;
+    if (track) {
+      let buffer: AudioBuffer;
+      try {
+        buffer = track === this.nextTrack && this.nextBuffer ? this.nextBuffer : await this.decode(track);
+      } catch (err) {
+        if (request !== this.loadRequest) return;
+        console.error("Failed to decode the track:", err);
+        this.events.onPlayStateChange(false);
+        this.events.onError(track, err);
+        return;
+      }
+      if (request !== this.loadRequest) return;
+      this.current = this.createDeck(track, buffer);
+      this.pausedAt = Math.max(0, Math.min(position, buffer.duration));
+      this.events.onTrackStart(track, buffer.duration);
+      if (play) this.play();
+    }
+    this.events.onPlayStateChange(this.playing);
+  }
+
+  play() {
+    if (!this.current || this.playing) return;
+    this.ctx.resume();
+    if (this.pausedAt >= this.current.buffer.duration) this.pausedAt = 0;
+    this.startDeck(this.current, this.ctx.currentTime, this.pausedAt);
+    this.setPlaying(true);
+    this.scheduleNext();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.pausedAt = this.position();
+    this.stopAll();
+    this.setPlaying(false);
+  }
+
+  seek(seconds: number) {
+    if (!this.current) return;
+    const wasPlaying = this.playing;
+    this.stopAll();
+    this.playing = false;
+    this.pausedAt = Math.max(0, Math.min(seconds, this.current.buffer.duration));
+    if (wasPlaying) {
+      this.startDeck(this.current, this.ctx.currentTime, this.pausedAt);
+      this.playing = true;
+      this.scheduleNext();
+    }
+  }
+
+  position() {
+    if (!this.current) return 0;
+    const position = this.playing ? this.ctx.currentTime - this.current.startTime : this.pausedAt;
+    return Math.max(0, Math.min(position, this.current.buffer.duration));
+  }
+
+  duration() {
+    return this.current?.buffer.duration ?? 0;
+  }
+
+  isPlaying() {
+    return this.playing;
+  }
+
+  // Crossfade in seconds, 0 for a gapless join
+  setNext(track: Blob | null, crossfade: number) {
+    if (track === this.nextTrack && crossfade === this.crossfade) return;
+    this.cancelNext();
+    this.crossfade = Math.max(0, crossfade);
+    if (track !== this.nextTrack) {
+      this.nextTrack = track;
+      this.nextBuffer = null;
+      if (track) {
+        const decoded = track === this.current?.track ? Promise.resolve(this.current.buffer) : this.decode(track);
+        decoded.then(buffer => {
+          if (track !== this.nextTrack) return;
+          this.nextBuffer = buffer;
+          this.scheduleNext();
+        }).catch(err => {
+          console.error("Failed to decode the next track:", err);
+          if (track !== this.nextTrack) return;
+          this.nextTrack = null;
+          if (this.playing && this.position() >= this.duration()) this.finish();
+        });
+      }
+    }
+    this.scheduleNext();
+  }
+
+  snapshot(): PlayerSnapshot {
+    return {
+      track: this.current?.track ?? null,
+      buffer: this.current?.buffer ?? null,
+      position: this.position(),
+      playing: this.playing,
+      nextTrack: this.nextTrack,
+      nextBuffer: this.nextBuffer,
+      crossfade: this.crossfade,
+    };
+  }
+
+  restore(snapshot: PlayerSnapshot) {
+    if (snapshot.nextBuffer) {
+      this.nextTrack = snapshot.nextTrack;
+      this.nextBuffer = snapshot.nextBuffer;
+      this.crossfade = snapshot.crossfade;
+    }
+    if (snapshot.track && snapshot.buffer) {
+      this.current = this.createDeck(snapshot.track, snapshot.buffer);
+      this.pausedAt = snapshot.position;
+      if (snapshot.playing) this.play();
+    } else if (snapshot.track) {
+      this.load(snapshot.track, snapshot.position, snapshot.playing);
+    }
+    if (!snapshot.nextBuffer) this.setNext(snapshot.nextTrack, snapshot.crossfade);
+  }
+
+  dispose() {
+    this.loadRequest++;
+    this.stopAll();
+    this.output.disconnect();
+  }
+
+  private async decode(track: Blob) {
+    return this.ctx.decodeAudioData(await track.arrayBuffer());
+  }
+
+  private createDeck(track: Blob, buffer: AudioBuffer): Deck {
+    const gain = this.ctx.createGain();
+    gain.connect(this.output);
+    return { track, buffer, gain, source: null, startTime: 0 };
+  }
+
+  private startDeck(deck: Deck, when: number, offset: number) {
+    const source = this.ctx.createBufferSource();
+    source.buffer = deck.buffer;
+    source.connect(deck.gain);
+    source.onended = () => this.deckEnded(deck);
+    source.start(when, offset);
+    deck.source = source;
+    deck.startTime = when - offset;
+  }
+
+  private stopDeck(deck: Deck | null) {
+    if (!deck?.source) return;
+    deck.source.onended = null;
+    try { deck.source.stop(); } catch (e) { console.warn(e); }
+    deck.source.disconnect();
+    deck.source = null;
+    deck.gain.gain.cancelScheduledValues(0);
+    deck.gain.gain.value = 1;
+  }
+
+  private stopAll() {
+    this.cancelNext();
+    this.stopDeck(this.current);
+    this.stopDeck(this.fading);
+    this.fading?.gain.disconnect();
+    this.fading = null;
+  }
+
+  private cancelNext() {
+    if (this.transitionTimer !== null) {
+      clearTimeout(this.transitionTimer);
+      this.transitionTimer = null;
+    }
+    if (!this.next) return;
+    this.stopDeck(this.next);
+    this.next.gain.disconnect();
+    this.next = null;
+    this.current?.gain.gain.cancelScheduledValues(0);
+    if (this.current) this.current.gain.gain.value = 1;
+  }
+
+  // Starts the next track where the current one ends, less the crossfade.
+  // The fade is shortened when either track is too short for it, or when the
+  // current one is already inside its fade (after a seek, or a late decode).
+  private scheduleNext() {
+    if (!this.playing || !this.current || !this.nextTrack || !this.nextBuffer || this.next) return;
+    const end = this.current.startTime + this.current.buffer.duration;
+    const fade = Math.min(this.crossfade, this.current.buffer.duration / 2, this.nextBuffer.duration / 2);
+    const at = Math.max(this.ctx.currentTime, end - fade);
+    const length = end - at;
+
+    this.next = this.createDeck(this.nextTrack, this.nextBuffer);
+    if (length > 0.01) {
+      try {
+        this.current.gain.gain.setValueCurveAtTime(fadeCurve(false), at, length);
+        this.next.gain.gain.value = 0;
+        this.next.gain.gain.setValueCurveAtTime(fadeCurve(true), at, length);
+      } catch (e) {
+        console.warn("Crossfade could not be scheduled, joining the tracks directly:", e);
+        this.current.gain.gain.cancelScheduledValues(at);
+        this.next.gain.gain.value = 1;
+      }
+    }
+    this.startDeck(this.next, at, 0);
+    this.transitionTimer = window.setTimeout(() => this.advance(), Math.max(0, (at - this.ctx.currentTime) * 1000));
+  }
+
+  private advance() {
+    this.transitionTimer = null;
+    if (!this.next) return;
+    this.fading = this.current;
+    this.current = this.next;
+    this.next = null;
+    this.nextTrack = null;
+    this.nextBuffer = null;
+    this.events.onTrackStart(this.current.track, this.current.buffer.duration);
+  }
+
+  private deckEnded(deck: Deck) {
+    deck.source?.disconnect();
+    deck.source = null;
+    if (deck === this.fading) {
+      deck.gain.disconnect();
+      this.fading = null;
+      return;
+    }
+    // With a next track still decoding, it starts as soon as it is ready
+    if (deck === this.current && !this.next && !this.nextTrack) this.finish();
+  }
+
+  private finish() {
+    this.stopAll();
+    this.pausedAt = this.duration();
+    this.setPlaying(false);
+    this.events.onEnded();
+  }
+
+  private setPlaying(playing: boolean) {
+    if (playing === this.playing) return;
+    this.playing = playing;
+    this.events.onPlayStateChange(playing);
+  }
+}
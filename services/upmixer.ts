@@ -0,0 +1,246 @@
+import { UpmixAlgorithm } from '../types';
+
+// Stems produced by the upmixer, in output channel order. The speaker bed
+// routes each stem to the speakers of the active layout.
+export const UPMIX_STEMS = ['L', 'R', 'C', 'LFE', 'Ls', 'Rs', 'Lh', 'Rh'] as const;
+export type UpmixStem = typeof UPMIX_STEMS[number];
+export const stemIndex = (stem: UpmixStem) => UPMIX_STEMS.indexOf(stem);
+
+// Channels of the intermediate decomposition bus, shared by both algorithms
+const DECOMPOSED_CHANNELS = 5;
+const DEC_L = 0, DEC_R = 1, DEC_C = 2, DEC_AL = 3, DEC_AR = 4;
+
+// Passive matrix center extraction depth (0 = none, 1 = full mid signal)
+const MATRIX_CENTER_DEPTH = 0.5;
+
+// Decorrelation delays (seconds) for the ambience sent to surrounds and heights
+const SURROUND_DELAYS = [0.012, 0.017];
+const HEIGHT_DELAYS = [0.024, 0.029];
+const SURROUND_ROLLOFF_HZ = 7000;
+const HEIGHT_HIGHPASS_HZ = 2000;
+
+// Stereo-to-surround decomposition. A stereo source is first split into
+// direct L/R, a correlated center and a left/right ambience residual, either
+// with a passive matrix or the frequency-domain 'stagepov-upmix' worklet. The
+// ambience is then decorrelated into surround and height stems and an LFE
+// stem is derived below the crossover.
+export class Upmixer {
+  readonly output: ChannelMergerNode;
+
+  private inputBus: GainNode;
+  private matrixSelect: GainNode;
+  private spectralSelect: GainNode | null = null;
+  private spectralNode: AudioWorkletNode | null = null;
+  private algorithm: UpmixAlgorithm = 'matrix';
+
+  private centerGain: GainNode;
+  private spreadGain: GainNode;
+  private surroundGains: GainNode[];
+  private heightGains: GainNode[];
+  private lfeFilters: BiquadFilterNode[];
+  private nodes: AudioNode[] = [];
+
+  constructor(private ctx: BaseAudioContext, input: AudioNode, spectralAvailable: boolean) {
+    // Force a stereo bus so mono sources feed both sides of the decomposition
+    this.inputBus = this.track(ctx.createGain());
+    this.inputBus.channelCount = 2;
+    this.inputBus.channelCountMode = 'explicit';
+    this.inputBus.channelInterpretation = 'speakers';
+    input.connect(this.inputBus);
+
+    const decomposed = this.track(ctx.createGain());
+    decomposed.channelCount = DECOMPOSED_CHANNELS;
+    decomposed.channelCountMode = 'explicit';
+    decomposed.channelInterpretation = 'discrete';
+
+    this.matrixSelect = this.track(ctx.createGain());
+    this.buildMatrix(this.inputBus).connect(this.matrixSelect).connect(decomposed);
+
+    if (spectralAvailable) {
+      this.spectralNode = new AudioWorkletNode(ctx, 'stagepov-upmix', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [DECOMPOSED_CHANNELS],
+        channelCount: 2,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers',
+      });
+      this.track(this.spectralNode);
+      this.spectralSelect = this.track(ctx.createGain());
+      this.spectralSelect.gain.value = 0;
+      this.inputBus.connect(this.spectralNode).connect(this.spectralSelect).connect(decomposed);
+    }
+
+    const split = this.track(ctx.createChannelSplitter(DECOMPOSED_CHANNELS));
+    decomposed.connect(split);
+    this.output = this.track(ctx.createChannelMerger(UPMIX_STEMS.length));
+
+    // Front stage: direct L/R plus whatever share of the center is spread into them
+    const stemL = this.track(ctx.createGain());
+    const stemR = this.track(ctx.createGain());
+    split.connect(stemL, DEC_L);
+    split.connect(stemR, DEC_R);
+
+    this.centerGain = this.track(ctx.createGain());
+    this.spreadGain = this.track(ctx.createGain());
+    split.connect(this.centerGain, DEC_C);
+    split.connect(this.spreadGain, DEC_C);
+    this.spreadGain.connect(stemL);
+    this.spreadGain.connect(stemR);
+
+    stemL.connect(this.output, 0, stemIndex('L'));
+    stemR.connect(this.output, 0, stemIndex('R'));
+    this.centerGain.connect(this.output, 0, stemIndex('C'));
+
+    // Ambience: delayed, decorrelated copies for surrounds (band-limited) and heights (airy)
+    this.surroundGains = [DEC_AL, DEC_AR].map((channel, side) => {
+      const delay = this.track(ctx.createDelay(0.1));
+      delay.delayTime.value = SURROUND_DELAYS[side];
+      const rolloff = this.track(ctx.createBiquadFilter());
+      rolloff.type = 'lowpass';
+      rolloff.frequency.value = SURROUND_ROLLOFF_HZ;
+      const gain = this.track(ctx.createGain());
+      split.connect(delay, channel);
+      delay.connect(rolloff).connect(gain).connect(this.output, 0, stemIndex(side === 0 ? 'Ls' : 'Rs'));
+      return gain;
+    });
+
+    this.heightGains = [DEC_AL, DEC_AR].map((channel, side) => {
+      const highpass = this.track(ctx.createBiquadFilter());
+      highpass.type = 'highpass';
+      highpass.frequency.value = HEIGHT_HIGHPASS_HZ;
+      const delay = this.track(ctx.createDelay(0.1));
+      delay.delayTime.value = HEIGHT_DELAYS[side];
+      const gain = this.track(ctx.createGain());
+      split.connect(highpass, channel);
+      highpass.connect(delay).connect(gain).connect(this.output, 0, stemIndex(side === 0 ? 'Lh' : 'Rh'));
+      return gain;
+    });
+
+    // LFE: the decomposition sums back to L+R, low-passed with a 4th-order Linkwitz-Riley
+    const lfeSum = this.track(ctx.createGain());
+    lfeSum.channelCount = 1;
+    lfeSum.channelCountMode = 'explicit';
+    [DEC_L, DEC_R, DEC_AL, DEC_AR].forEach(channel => {
+      const g = this.track(ctx.createGain());
+      g.gain.value = 0.5;
+      split.connect(g, channel);
+      g.connect(lfeSum);
+    });
+    split.connect(lfeSum, DEC_C);
+
+    this.lfeFilters = [0, 1].map(() => {
+      const filter = this.track(ctx.createBiquadFilter());
+      filter.type = 'lowpass';
+      filter.frequency.value = 80;
+      filter.Q.value = Math.SQRT1_2;
+      return filter;
+    });
+    lfeSum.connect(this.lfeFilters[0]).connect(this.lfeFilters[1]).connect(this.output, 0, stemIndex('LFE'));
+
+    this.setCenterSpread(0.4, true);
+    this.setSurroundLevel(0.7, true);
+    this.setHeightLevel(0.5, true);
+  }
+
+  setAlgorithm(algorithm: UpmixAlgorithm, immediate = false) {
+    if (algorithm === 'spectral' && !this.spectralSelect) {
+      console.warn("Spectral upmix unavailable, staying on passive matrix");
+      algorithm = 'matrix';
+    }
+    this.algorithm = algorithm;
+    this.ramp(this.matrixSelect.gain, algorithm === 'matrix' ? 1 : 0, immediate);
+    if (this.spectralSelect) this.ramp(this.spectralSelect.gain, algorithm === 'spectral' ? 1 : 0, immediate);
+  }
+
+  getAlgorithm() {
+    return this.algorithm;
+  }
+
+  // 0 keeps the extracted center in the center speaker, 1 spreads it fully across L/R
+  setCenterSpread(value: number, immediate = false) {
+    const angle = Math.max(0, Math.min(1, value)) * Math.PI / 2;
+    this.ramp(this.centerGain.gain, Math.cos(angle), immediate);
+    this.ramp(this.spreadGain.gain, Math.sin(angle) * Math.SQRT1_2, immediate);
+  }
+
+  setSurroundLevel(value: number, immediate = false) {
+    this.surroundGains.forEach(g => this.ramp(g.gain, value, immediate));
+  }
+
+  setHeightLevel(value: number, immediate = false) {
+    this.heightGains.forEach(g => this.ramp(g.gain, value, immediate));
+  }
+
+  setLfeCrossover(hz: number, immediate = false) {
+    this.lfeFilters.forEach(f => this.ramp(f.frequency, hz, immediate));
+  }
+
+  disconnect() {
+    this.nodes.forEach(node => {
+      try { node.disconnect(); } catch (e) { console.warn(e); }
+    });
+  }
+
+  // Realtime changes glide; offline renders set values before rendering starts
+  private ramp(param: AudioParam, value: number, immediate: boolean) {
+    if (immediate) {
+      param.value = value;
+    } else {
+      param.setTargetAtTime(value, this.ctx.currentTime, 0.1);
+    }
+  }
+
+  private buildMatrix(input: AudioNode): AudioNode {
+    const ctx = this.ctx;
+    const split = this.track(ctx.createChannelSplitter(2));
+    const merger = this.track(ctx.createChannelMerger(DECOMPOSED_CHANNELS));
+    input.connect(split);
+
+    const gain = (value: number) => {
+      const g = this.track(ctx.createGain());
+      g.gain.value = value;
+      return g;
+    };
+
+    // C = d * (L+R)/2, direct = X - C, ambience = +/-(L-R)/2
+    const centerL = gain(MATRIX_CENTER_DEPTH * 0.5);
+    const centerR = gain(MATRIX_CENTER_DEPTH * 0.5);
+    split.connect(centerL, 0);
+    split.connect(centerR, 1);
+    const center = gain(1);
+    centerL.connect(center);
+    centerR.connect(center);
+    center.connect(merger, 0, DEC_C);
+
+    const removeCenter = gain(-1);
+    center.connect(removeCenter);
+    const directL = gain(1);
+    const directR = gain(1);
+    split.connect(directL, 0);
+    split.connect(directR, 1);
+    removeCenter.connect(directL);
+    removeCenter.connect(directR);
+    directL.connect(merger, 0, DEC_L);
+    directR.connect(merger, 0, DEC_R);
+
+    const sideL = gain(0.5);
+    const sideR = gain(-0.5);
+    split.connect(sideL, 0);
+    split.connect(sideR, 1);
+    const ambienceL = gain(1);
+    sideL.connect(ambienceL);
+    sideR.connect(ambienceL);
+    const ambienceR = gain(-1);
+    ambienceL.connect(ambienceR);
+    ambienceL.connect(merger, 0, DEC_AL);
+    ambienceR.connect(merger, 0, DEC_AR);
+
+    return merger;
+  }
+
+  private track<T extends AudioNode>(node: T): T {
+    this.nodes.push(node);
+    return node;
+  }
+}
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VaultSong } from './vaultDb';
+
+// In-memory stand-in for the IndexedDB-backed Vault
+const db = vi.hoisted(() => {
+  const stores = { songs: new Map(), playlists: new Map(), profiles: new Map(), rooms: new Map(), hrtfs: new Map() };
+  return { stores };
+});
+
+vi.mock('./vaultDb', () => {
+  const { stores } = db;
+  const all = (store: Map<string, any>) => async () => [...store.values()];
+  return {
+    vaultDb: {
+      getAllSongs: all(stores.songs),
+      getAllPlaylists: all(stores.playlists),
+      getAllProfiles: all(stores.profiles),
+      getAllRooms: all(stores.rooms),
+      getAllHrtfs: all(stores.hrtfs),
+      saveSong: async (song: any) => { stores.songs.set(song.id, song); },
+      savePlaylist: async (playlist: any) => { stores.playlists.set(playlist.id, playlist); },
+      getProfile: async (id: string) => stores.profiles.get(id),
+      saveProfile: async (profile: any) => { stores.profiles.set(profile.songId, profile); },
+      saveRoom: async (room: any) => { stores.rooms.set(room.id, room); },
+      saveHrtf: async (hrtf: any) => { stores.hrtfs.set(hrtf.id, hrtf); },
+      clearAll: async () => Object.values(stores).forEach(store => store.clear()),
+    },
+  };
+});
+
+// Presets and calibration profiles live in localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+});
+
+const { vaultBackup } = await import('./vaultBackup');
+const { DEFAULT_AUDIO_SETTINGS, DEFAULT_LAYOUT, SPEAKER_LAYOUTS } = await import('../constants');
+
+const rack = { settings: DEFAULT_AUDIO_SETTINGS, activeLayout: DEFAULT_LAYOUT, speakers: SPEAKER_LAYOUTS[DEFAULT_LAYOUT] };
+
+const song = (id: string, content: string): VaultSong => {
+  const blob = new Blob([content], { type: 'audio/wav' });
+  return { id, name: id, blob, size: blob.size, type: blob.type, dateAdded: 0 };
+};
+
+async function seed(...songs: VaultSong[]) {
+  Object.values(db.stores).forEach(store => store.clear());
+  songs.forEach(s => db.stores.songs.set(s.id, s));
+  if (songs.length > 0) db.stores.playlists.set('pl', { id: 'pl', name: 'List', songIds: songs.map(s => s.id), dateCreated: 0 });
+}
+
+// Flips one byte of a stored entry's data so its CRC no longer matches
+async function corrupt(archive: Blob, marker: string) {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const needle = new TextEncoder().encode(marker);
+  const at = bytes.findIndex((_, i) => needle.every((b, j) => bytes[i + j] === b));
+  bytes[at] ^= 0xff;
+  return new Blob([bytes]);
+}
+
+describe('vaultBackup', () => {
+  beforeEach(() => seed());
+
+  it('restores a backup over an empty Vault', async () => {
+    await seed(song('a', 'first song'), song('b', 'second song'));
+    const archive = await vaultBackup.createBackup(rack);
+    await seed();
+
+    const report = await vaultBackup.restoreBackup(archive, 'replace');
+    expect(report.songsAdded).toBe(2);
+    expect(report.conflicts).toEqual([]);
+    expect(report.rack?.activeLayout).toBe(DEFAULT_LAYOUT);
+    expect(await db.stores.songs.get('b').blob.text()).toBe('second song');
+    expect(db.stores.songs.get('b').blob.type).toBe('audio/wav');
+    expect(db.stores.playlists.get('pl').songIds).toEqual(['a', 'b']);
+  });
+
+  it('leaves the Vault untouched when replacing from a damaged archive', async () => {
+    await seed(song('a', 'first song'), song('b', 'second song'));
+    const archive = await corrupt(await vaultBackup.createBackup(rack), 'second song');
+    await seed(song('kept', 'song already in the Vault'));
+
+    await expect(vaultBackup.restoreBackup(archive, 'replace')).rejects.toThrow(/left as it was/);
+    expect([...db.stores.songs.keys()]).toEqual(['kept']);
+    expect(db.stores.playlists.get('pl').songIds).toEqual(['kept']);
+  });
+
+  it('merges a damaged archive around the unreadable entries', async () => {
+    await seed(song('a', 'first song'), song('b', 'second song'));
+    const archive = await corrupt(await vaultBackup.createBackup(rack), 'second song');
+    await seed();
+
+    const report = await vaultBackup.restoreBackup(archive, 'merge');
+    expect(report.songsAdded).toBe(1);
+    expect(report.conflicts).toEqual([expect.stringMatching(/"b" could not be restored: Checksum mismatch/)]);
+    expect([...db.stores.songs.keys()]).toEqual(['a']);
+  });
+
+  it('skips songs and playlists that are already in the Vault without reporting conflicts', async () => {
+    await seed(song('a', 'first song'), song('b', 'second song'));
+    const archive = await vaultBackup.createBackup(rack);
+
+    const report = await vaultBackup.restoreBackup(archive, 'merge');
+    expect(report).toMatchObject({ songsAdded: 0, songsSkipped: 2, playlistsAdded: 0, conflicts: [], rack: null });
+  });
+
+  it('adds a differing song with a clashing id as a copy', async () => {
+    await seed(song('a', 'first song'));
+    const archive = await vaultBackup.createBackup(rack);
+    await seed(song('a', 'a different song'));
+
+    const report = await vaultBackup.restoreBackup(archive, 'merge');
+    expect(report.songsAdded).toBe(1);
+    expect(db.stores.songs.size).toBe(2);
+    expect(report.conflicts).toEqual([
+      expect.stringMatching(/"a" differs/),
+      expect.stringMatching(/Playlist "List" already exists; 1 missing songs/),
+    ]);
+  });
+});
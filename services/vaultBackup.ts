@@ -0,0 +1,314 @@
+import { AudioSettings, CalibrationProfile, SpeakerPosition, VaultPlaylist } from '../types';
+import { DEFAULT_AUDIO_SETTINGS, SPEAKER_LAYOUTS } from '../constants';
+import { SongProfile, vaultDb, VaultHrtf, VaultRoom, VaultSong } from './vaultDb';
+import { presetStore } from './presetStore';
+import { calibrationStore } from './calibrationStore';
+import { createZip, readZip, ZipEntry, ZipSource } from './zipArchive';
+
+export interface BackupRack {
+  settings: AudioSettings;
+  activeLayout: string;
+  speakers: SpeakerPosition[];
+}
+
+export interface BackupProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreReport {
+  songsAdded: number;
+  songsSkipped: number; // already in the Vault with the same content
+  playlistsAdded: number;
+  conflicts: string[];
+  rack: BackupRack | null; // only restored when replacing
+}
+
+// manifest.json at the root of the archive; binary data lives next to it
+interface BackupManifest {
+  format: 'stagepov-vault';
+  version: number;
+  exportedAt: number;
+  songs: (Omit<VaultSong, 'blob' | 'artwork'> & { hash: string; path: string; artworkPath?: string })[];
+  playlists: VaultPlaylist[];
+  profiles: SongProfile[];
+  rooms: (Omit<VaultRoom, 'blob'> & { path: string })[];
+  // Responses are packed as float32, left then right for each direction
+  hrtfs: (Omit<VaultHrtf, 'left' | 'right'> & { length: number; path: string })[];
+  calibrations: CalibrationProfile[];
+  rack: BackupRack;
+}
+
+const FORMAT = 'stagepov-vault';
+const VERSION = 1;
+const MANIFEST = 'manifest.json';
+const PRESETS = 'presets.json';
+
+async function sha256(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Hashes songs the first time they're backed up or restored against
+async function hashSong(song: VaultSong): Promise<string> {
+  if (song.hash) return song.hash;
+  const hash = await sha256(song.blob);
+  await vaultDb.saveSong({ ...song, hash });
+  return hash;
+}
+
+function packHrtf(hrtf: VaultHrtf) {
+  const length = Math.max(0, ...hrtf.left.map(ir => ir.length), ...hrtf.right.map(ir => ir.length));
+  const data = new Float32Array(hrtf.directions.length * 2 * length);
+  hrtf.directions.forEach((_, m) => {
+    data.set(hrtf.left[m], m * 2 * length);
+    data.set(hrtf.right[m], (m * 2 + 1) * length);
+  });
+  return { length, data };
+}
+
+function unpackHrtf(data: Float32Array, count: number, length: number) {
+  const ear = (m: number, side: number) => data.slice((m * 2 + side) * length, (m * 2 + side + 1) * length);
+  return {
+    left: Array.from({ length: count }, (_, m) => ear(m, 0)),
+    right: Array.from({ length: count }, (_, m) => ear(m, 1)),
+  };
+}
+
+// Songs are stored as-is, so extensions are only a convenience for anyone
+// unpacking the archive by hand
+const extensionFor = (type: string) => type.split('/')[1]?.replace(/^x-/, '').replace('mpeg', 'mp3') || 'bin';
+
+// The whole Vault (songs, playlists, song profiles, rooms and HRTFs) plus the
+// settings that live outside it (user presets, calibration profiles and the
+// global rack) as one ZIP archive with a JSON manifest.
+class VaultBackup {
+  async createBackup(rack: BackupRack, onProgress?: (progress: BackupProgress) => void): Promise<Blob> {
+    const [songs, playlists, profiles, rooms, hrtfs] = await Promise.all([
+      vaultDb.getAllSongs(), vaultDb.getAllPlaylists(), vaultDb.getAllProfiles(), vaultDb.getAllRooms(), vaultDb.getAllHrtfs(),
+    ]);
+    const files: ZipSource[] = [];
+    const manifest: BackupManifest = {
+      format: FORMAT,
+      version: VERSION,
+      exportedAt: Date.now(),
+      songs: [],
+      playlists,
+      profiles,
+      rooms: [],
+      hrtfs: [],
+      calibrations: calibrationStore.getProfiles(),
+      rack,
+    };
+
+    for (let i = 0; i < songs.length; i++) {
+      const { blob, artwork, ...song } = songs[i];
+      onProgress?.({ label: `Hashing ${song.name}`, done: i, total: songs.length });
+      const hash = await hashSong(songs[i]);
+      const path = `songs/${song.id}.${extensionFor(song.type)}`;
+      const artworkPath = artwork ? `artwork/${song.id}.${extensionFor(artwork.type)}` : undefined;
+      manifest.songs.push({ ...song, hash, path, artworkPath });
+      files.push({ name: path, data: blob });
+      if (artwork && artworkPath) files.push({ name: artworkPath, data: artwork });
+    }
+    rooms.forEach(({ blob, ...room }) => {
+      const path = `rooms/${room.id}`;
+      manifest.rooms.push({ ...room, path });
+      files.push({ name: path, data: blob });
+    });
+    hrtfs.forEach(hrtf => {
+      const { left, right, ...meta } = hrtf;
+      const { length, data } = packHrtf(hrtf);
+      const path = `hrtfs/${hrtf.id}.f32`;
+      manifest.hrtfs.push({ ...meta, length, path });
+      files.push({ name: path, data: new Blob([data]) });
+    });
+
+    const userPresets = presetStore.getPresets().filter(p => !p.builtIn).map(p => p.id);
+    files.unshift(
+      { name: MANIFEST, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) },
+      { name: PRESETS, data: new Blob([presetStore.exportPresets(userPresets)], { type: 'application/json' }) },
+    );
+    return createZip(files, (done, total) => onProgress?.({ label: 'Writing archive', done, total }));
+  }
+
+  // Merging keeps everything already in the Vault: songs whose content is
+  // already there are skipped, and id clashes between different songs are
+  // resolved by giving the restored song a new id. Replacing empties the
+  // Vault once the archive has been verified and also hands back the archived
+  // rack. Presets and calibration profiles are always merged.
+  async restoreBackup(file: Blob, mode: RestoreMode, onProgress?: (progress: BackupProgress) => void): Promise<RestoreReport> {
+    const entries = new Map<string, ZipEntry>((await readZip(file)).map(e => [e.name, e]));
+    const read = async (path: string) => {
+      const entry = entries.get(path);
+      if (!entry) throw new Error(`${path} is missing from the archive`);
+      return entry.read();
+    };
+    let manifest: BackupManifest;
+    try {
+      manifest = JSON.parse(await (await read(MANIFEST)).text());
+    } catch (e) {
+      throw new Error('Not a StagePOV Vault backup');
+    }
+    if (manifest?.format !== FORMAT || !Array.isArray(manifest.songs)) throw new Error('Not a StagePOV Vault backup');
+    if (manifest.version > VERSION) throw new Error(`Backup version ${manifest.version} is newer than this build`);
+
+    const report: RestoreReport = { songsAdded: 0, songsSkipped: 0, playlistsAdded: 0, conflicts: [], rack: null };
+
+    // Archive song id -> id in the Vault, for playlists and profiles
+    const songIds = new Map<string, string>();
+    // Replacing starts from an empty Vault, so there's nothing to merge against
+    const existing = mode === 'merge' ? await vaultDb.getAllSongs() : [];
+    const byHash = new Map<string, string>();
+    const takenIds = new Set(existing.map(s => s.id));
+    for (let i = 0; i < existing.length; i++) {
+      onProgress?.({ label: `Hashing ${existing[i].name}`, done: i, total: existing.length });
+      byHash.set(await hashSong(existing[i]), existing[i].id);
+    }
+    const existingRooms = new Set(mode === 'merge' ? (await vaultDb.getAllRooms()).map(r => r.id) : []);
+    const existingHrtfs = new Set(mode === 'merge' ? (await vaultDb.getAllHrtfs()).map(h => h.id) : []);
+
+    // Every entry that will be written is read and checked against its CRC
+    // first, so a damaged archive never leaves a replaced Vault half empty
+    const songs = manifest.songs.filter(s => !byHash.has(s.hash));
+    const rooms = (manifest.rooms ?? []).filter(r => !existingRooms.has(r.id));
+    const hrtfs = (manifest.hrtfs ?? []).filter(h => !existingHrtfs.has(h.id));
+    const total = songs.length + rooms.length + hrtfs.length;
+    const failures: string[] = [];
+    let verified = 0;
+    const verify = async <T>(name: string, load: () => Promise<T>): Promise<T | undefined> => {
+      onProgress?.({ label: `Verifying ${name}`, done: verified++, total });
+      try {
+        return await load();
+      } catch (err) {
+        console.warn(`Failed to read ${name} from the backup`, err);
+        failures.push(`"${name}" could not be restored: ${(err as Error).message}`);
+        return undefined;
+      }
+    };
+
+    const songFiles = new Map<string, { blob: Blob, artwork?: Blob }>();
+    for (const { id, name, type, path, artworkPath } of songs) {
+      const files = await verify(name, async () => ({
+        // Archived files carry no MIME type of their own
+        blob: (await read(path)).slice(0, undefined, type),
+        artwork: artworkPath ? (await read(artworkPath)).slice(0, undefined, `image/${artworkPath.split('.').pop()}`) : undefined,
+      }));
+      if (files) songFiles.set(id, files);
+    }
+    const roomFiles = new Map<string, Blob>();
+    for (const { id, name, path } of rooms) {
+      const blob = await verify(name, () => read(path));
+      if (blob) roomFiles.set(id, blob);
+    }
+    const hrtfData = new Map<string, Float32Array>();
+    for (const { id, name, path, directions, length } of hrtfs) {
+      const data = await verify(name, async () => {
+        const bytes = await (await read(path)).arrayBuffer();
+        if (bytes.byteLength !== directions.length * 2 * length * 4) throw new Error('HRTF data has the wrong size');
+        return new Float32Array(bytes);
+      });
+      if (data) hrtfData.set(id, data);
+    }
+
+    let presetFile: unknown;
+    if (entries.has(PRESETS)) {
+      try {
+        presetFile = JSON.parse(await (await read(PRESETS)).text());
+      } catch (err) {
+        console.warn('Failed to read presets from the backup', err);
+        failures.push(`Presets could not be restored: ${(err as Error).message}`);
+      }
+    }
+
+    if (mode === 'replace') {
+      if (failures.length > 0) throw new Error(`The backup is damaged, so the Vault was left as it was.\n\n${failures.join('\n')}`);
+      await vaultDb.clearAll();
+    }
+    report.conflicts.push(...failures);
+
+    for (let i = 0; i < manifest.songs.length; i++) {
+      const { path, artworkPath, ...meta } = manifest.songs[i];
+      onProgress?.({ label: `Restoring ${meta.name}`, done: i, total: manifest.songs.length });
+      const duplicate = byHash.get(meta.hash);
+      if (duplicate) {
+        songIds.set(meta.id, duplicate);
+        report.songsSkipped++;
+        continue;
+      }
+      const files = songFiles.get(meta.id);
+      if (!files) continue;
+      let id = meta.id;
+      if (takenIds.has(id)) {
+        id = `song_${Date.now()}_${i}`;
+        report.conflicts.push(`"${meta.name}" differs from the Vault song with the same id and was added as a copy`);
+      }
+      await vaultDb.saveSong({ ...meta, id, ...files });
+      songIds.set(meta.id, id);
+      takenIds.add(id);
+      byHash.set(meta.hash, id);
+      report.songsAdded++;
+    }
+
+    onProgress?.({ label: 'Restoring playlists and profiles', done: 0, total: 1 });
+    const playlists = new Map((await vaultDb.getAllPlaylists()).map(p => [p.id, p]));
+    for (const playlist of manifest.playlists ?? []) {
+      const restoredIds = playlist.songIds.map(id => songIds.get(id)).filter((id): id is string => !!id);
+      const current = playlists.get(playlist.id);
+      if (current) {
+        const added = restoredIds.filter(id => !current.songIds.includes(id));
+        if (added.length > 0) {
+          await vaultDb.savePlaylist({ ...current, songIds: [...current.songIds, ...added] });
+          report.conflicts.push(`Playlist "${playlist.name}" already exists; ${added.length} missing songs were added to it`);
+        }
+        continue;
+      }
+      await vaultDb.savePlaylist({ ...playlist, songIds: restoredIds });
+      report.playlistsAdded++;
+    }
+
+    for (const profile of manifest.profiles ?? []) {
+      const songId = songIds.get(profile.songId);
+      if (!songId) continue;
+      if (await vaultDb.getProfile(songId)) {
+        report.conflicts.push(`Kept the existing DSP profile of ${manifest.songs.find(s => s.id === profile.songId)?.name ?? songId}`);
+        continue;
+      }
+      await vaultDb.saveProfile({ ...profile, songId });
+    }
+
+    for (const { path, ...room } of rooms) {
+      const blob = roomFiles.get(room.id);
+      if (blob) await vaultDb.saveRoom({ ...room, blob });
+    }
+    for (const { path, length, ...hrtf } of hrtfs) {
+      const data = hrtfData.get(hrtf.id);
+      if (data) await vaultDb.saveHrtf({ ...hrtf, ...unpackHrtf(data, hrtf.directions.length, length) });
+    }
+
+    const calibrations = new Set(calibrationStore.getProfiles().map(c => c.id));
+    (manifest.calibrations ?? []).filter(c => !calibrations.has(c.id)).forEach(c => calibrationStore.saveProfile(c));
+
+    if (typeof presetFile === 'object' && presetFile !== null && 'presets' in presetFile && Array.isArray(presetFile.presets)) {
+      const names = new Set(presetStore.getPresets().map(p => p.name));
+      const presets = presetFile.presets.filter((p: unknown) => !(typeof p === 'object' && p !== null && 'name' in p && typeof p.name === 'string' && names.has(p.name)));
+      if (presets.length > 0) presetStore.importPresets(JSON.stringify({ ...presetFile, presets }));
+    }
+
+    if (mode === 'replace' && manifest.rack?.settings) {
+      const activeLayout = SPEAKER_LAYOUTS[manifest.rack.activeLayout] ? manifest.rack.activeLayout : Object.keys(SPEAKER_LAYOUTS)[0];
+      report.rack = {
+        settings: { ...DEFAULT_AUDIO_SETTINGS, ...manifest.rack.settings },
+        activeLayout,
+        speakers: Array.isArray(manifest.rack.speakers) && manifest.rack.speakers.length > 0 ? manifest.rack.speakers : SPEAKER_LAYOUTS[activeLayout],
+      };
+    }
+    onProgress?.({ label: 'Done', done: 1, total: 1 });
+    return report;
+  }
+}
+
+export const vaultBackup = new VaultBackup();
@@ -1,3 +1,4 @@
+import { AudioSettings, HrirSet, SmartRule, SpeakerPosition } from '../types';
 
 export interface VaultSong {
   id: string;
@@ -6,20 +7,121 @@ export interface VaultSong {
   size: number;
   type: string;
   dateAdded: number;
+  loudness?: SongLoudness; // missing until the song has been scanned
+  duration?: number; // in seconds, measured by the same scan
+  hash?: string; // SHA-256 of the file in hex, recorded by backups to deduplicate restores
+  // Read from the file's own tags on ingest; missing when it carries none
+  title?: string;
+  artist?: string;
+  album?: string;
+  trackNumber?: number;
+  year?: number;
+  genre?: string;
+  sampleRate?: number;
+  bitDepth?: number; // lossless formats only
+  channels?: number;
+  artwork?: Blob; // embedded cover image
+  // SMART_PLAYLIST_FORMATS key from the file's own header (else its extension),
+  // for files the browser hands over without a usable MIME type
+  format?: string;
+}
+
+// BS.1770 programme loudness measured when the song entered the Vault
+export interface SongLoudness {
+  integrated: number; // LUFS
+  range: number; // LU
+  truePeak: number; // dBTP
+  scannedAt: number;
+}
+
+// DSP settings and speaker layout pinned to one song, keyed by the song id
+export interface SongProfile {
+  songId: string;
+  settings: AudioSettings;
+  activeLayout: string;
+  speakers: SpeakerPosition[];
+  dateSaved: number;
+}
+
+// Impulse response file in the room library
+export interface VaultRoom {
+  id: string;
+  name: string;
+  blob: Blob;
+  channels: number;
+  sampleRate: number;
+  duration: number; // in seconds
+  dateAdded: number;
+}
+
+// HRIR set parsed from a SOFA file in the HRTF library
+export interface VaultHrtf extends HrirSet {
+  id: string;
+  name: string;
+  dateAdded: number;
 }
 
 export interface VaultPlaylist {
   id: string;
   name: string;
-  songIds: string[];
+  songIds: string[]; // in play order; unused by smart playlists
   dateCreated: number;
+  crossfade?: number; // overrides AudioSettings.crossfade while playing this playlist
+  rules?: SmartRule[]; // makes this a smart playlist, filled from the Vault when read
+}
+
+// MIME types each smart playlist format matches
+export const SMART_PLAYLIST_FORMATS: Record<string, string[]> = {
+  flac: ['audio/flac', 'audio/x-flac'],
+  wav: ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'],
+  mp3: ['audio/mpeg', 'audio/mp3'],
+  aac: ['audio/aac', 'audio/mp4', 'audio/x-m4a'],
+  // Shares its container and MIME type with AAC, so only a read header tells them apart
+  alac: [],
+  ogg: ['audio/ogg', 'audio/opus'],
+};
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  flac: 'flac', wav: 'wav', wave: 'wav', mp3: 'mp3', aac: 'aac', m4a: 'aac', mp4: 'aac', ogg: 'ogg', oga: 'ogg', opus: 'ogg',
+};
+
+export function formatFromFileName(name: string): string | undefined {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? FORMAT_EXTENSIONS[name.slice(dot + 1).toLowerCase()] : undefined;
+}
+
+// Files often arrive typed '' or application/octet-stream. Songs stored
+// before `format` existed still keep the picked File, and with it its name.
+function songFormat(song: VaultSong) {
+  if (song.format) return song.format;
+  const type = song.type.toLowerCase();
+  return Object.keys(SMART_PLAYLIST_FORMATS).find(format => SMART_PLAYLIST_FORMATS[format].includes(type))
+    ?? (song.blob instanceof File ? formatFromFileName(song.blob.name) : undefined);
+}
+
+// What the Vault lists a song as: its tagged title, else the file name
+export const songTitle = (song: Pick<VaultSong, 'name' | 'title'>) => song.title ?? song.name;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function matchesRule(song: VaultSong, rule: SmartRule, profileSongIds: Set<string>, now: number) {
+  switch (rule.kind) {
+    case 'addedWithin': return now - song.dateAdded <= rule.days * DAY_MS;
+    case 'format': return songFormat(song) === rule.format;
+    // Songs not yet scanned have no duration and never match
+    case 'longerThan': return song.duration !== undefined && song.duration > rule.minutes * 60;
+    case 'hasProfile': return profileSongIds.has(song.id);
+  }
 }
 
 class VaultDb {
   private dbName = 'StagePOV_Vault';
-  private version = 2; // Upgraded version
+  private version = 5; // v3 adds per-song DSP profiles, v4 the room library, v5 the HRTF library
   private songStore = 'songs';
   private playlistStore = 'playlists';
+  private profileStore = 'profiles';
+  private roomStore = 'rooms';
+  private hrtfStore = 'hrtfs';
 
   private async getDb(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
@@ -36,6 +138,18 @@ class VaultDb {
         if (!db.objectStoreNames.contains(this.playlistStore)) {
           db.createObjectStore(this.playlistStore, { keyPath: 'id' });
         }
+
+        if (!db.objectStoreNames.contains(this.profileStore)) {
+          db.createObjectStore(this.profileStore, { keyPath: 'songId' });
+        }
+
+        if (!db.objectStoreNames.contains(this.roomStore)) {
+          db.createObjectStore(this.roomStore, { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains(this.hrtfStore)) {
+          db.createObjectStore(this.hrtfStore, { keyPath: 'id' });
+        }
       };
     });
   }
@@ -64,13 +178,163 @@ class VaultDb {
     });
   }
 
-  async deleteSong(id: string): Promise<void> {
+  async getSong(id: string): Promise<VaultSong | undefined> {
     const db = await this.getDb();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.songStore, 'readwrite');
+      const transaction = db.transaction(this.songStore, 'readonly');
       const store = transaction.objectStore(this.songStore);
+      const request = store.get(id);
+      request.onerror = () => reject('Failed to fetch song');
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  // Removes the song's profile along with it
+  async deleteSong(id: string): Promise<void> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.songStore, this.profileStore], 'readwrite');
+      transaction.objectStore(this.songStore).delete(id);
+      transaction.objectStore(this.profileStore).delete(id);
+      transaction.onerror = () => reject('Failed to delete song');
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  // --- PROFILES ---
+
+  async saveProfile(profile: SongProfile): Promise<void> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.profileStore, 'readwrite');
+      const store = transaction.objectStore(this.profileStore);
+      const request = store.put(profile);
+      request.onerror = () => reject('Failed to save profile');
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getProfile(songId: string): Promise<SongProfile | undefined> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.profileStore, 'readonly');
+      const store = transaction.objectStore(this.profileStore);
+      const request = store.get(songId);
+      request.onerror = () => reject('Failed to fetch profile');
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async getAllProfiles(): Promise<SongProfile[]> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.profileStore, 'readonly');
+      const store = transaction.objectStore(this.profileStore);
+      const request = store.getAll();
+      request.onerror = () => reject('Failed to fetch profiles');
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async deleteProfile(songId: string): Promise<void> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.profileStore, 'readwrite');
+      const store = transaction.objectStore(this.profileStore);
+      const request = store.delete(songId);
+      request.onerror = () => reject('Failed to delete profile');
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  // --- ROOMS ---
+
+  async saveRoom(room: VaultRoom): Promise<void> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.roomStore, 'readwrite');
+      const store = transaction.objectStore(this.roomStore);
+      const request = store.put(room);
+      request.onerror = () => reject('Failed to save room');
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getRoom(id: string): Promise<VaultRoom | undefined> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.roomStore, 'readonly');
+      const store = transaction.objectStore(this.roomStore);
+      const request = store.get(id);
+      request.onerror = () => reject('Failed to fetch room');
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async getAllRooms(): Promise<VaultRoom[]> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.roomStore, 'readonly');
+      const store = transaction.objectStore(this.roomStore);
+      const request = store.getAll();
+      request.onerror = () => reject('Failed to fetch rooms');
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async deleteRoom(id: string): Promise<void> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.roomStore, 'readwrite');
+      const store = transaction.objectStore(this.roomStore);
+      const request = store.delete(id);
+      request.onerror = () => reject('Failed to delete room');
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  // --- HRTFS ---
+
+  async saveHrtf(hrtf: VaultHrtf): Promise<void> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.hrtfStore, 'readwrite');
+      const store = transaction.objectStore(this.hrtfStore);
+      const request = store.put(hrtf);
+      request.onerror = () => reject('Failed to save HRTF');
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getHrtf(id: string): Promise<VaultHrtf | undefined> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.hrtfStore, 'readonly');
+      const store = transaction.objectStore(this.hrtfStore);
+      const request = store.get(id);
+      request.onerror = () => reject('Failed to fetch HRTF');
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async getAllHrtfs(): Promise<VaultHrtf[]> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.hrtfStore, 'readonly');
+      const store = transaction.objectStore(this.hrtfStore);
+      const request = store.getAll();
+      request.onerror = () => reject('Failed to fetch HRTFs');
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async deleteHrtf(id: string): Promise<void> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.hrtfStore, 'readwrite');
+      const store = transaction.objectStore(this.hrtfStore);
       const request = store.delete(id);
-      request.onerror = () => reject('Failed to delete song');
+      request.onerror = () => reject('Failed to delete HRTF');
       request.onsuccess = () => resolve();
     });
   }
@@ -99,6 +363,20 @@ class VaultDb {
     });
   }
 
+  // Song ids in play order. Smart playlists are evaluated against the Vault as
+  // it is now, newest songs first.
+  async getPlaylistSongIds(playlist: VaultPlaylist): Promise<string[]> {
+    const { rules } = playlist;
+    if (!rules) return playlist.songIds;
+    const [songs, profiles] = await Promise.all([this.getAllSongs(), this.getAllProfiles()]);
+    const profileSongIds = new Set(profiles.map(p => p.songId));
+    const now = Date.now();
+    return songs
+      .filter(song => rules.every(rule => matchesRule(song, rule, profileSongIds, now)))
+      .sort((a, b) => b.dateAdded - a.dateAdded)
+      .map(song => song.id);
+  }
+
   async deletePlaylist(id: string): Promise<void> {
     const db = await this.getDb();
     return new Promise((resolve, reject) => {
@@ -109,6 +387,20 @@ class VaultDb {
       request.onsuccess = () => resolve();
     });
   }
+
+  // --- MAINTENANCE ---
+
+  // Empties every store, for restoring a backup over the whole Vault
+  async clearAll(): Promise<void> {
+    const db = await this.getDb();
+    const stores = [this.songStore, this.playlistStore, this.profileStore, this.roomStore, this.hrtfStore];
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(stores, 'readwrite');
+      stores.forEach(store => transaction.objectStore(store).clear());
+      transaction.onerror = () => reject('Failed to clear the Vault');
+      transaction.oncomplete = () => resolve();
+    });
+  }
 }
 
 export const vaultDb = new VaultDb();
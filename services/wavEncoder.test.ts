@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { audioBufferToWav, WAVE_SPEAKER } from './wavEncoder';
+
+// Just enough of AudioBuffer for the encoder
+function fakeBuffer(channels: number, length: number, sampleRate = 48000) {
+  const data = Array.from({ length: channels }, (_, c) => Float32Array.from({ length }, (_, i) => Math.sin((i + c) / 10) * 0.5));
+  return { numberOfChannels: channels, length, sampleRate, getChannelData: (c: number) => data[c] } as unknown as AudioBuffer;
+}
+
+const tag = (view: DataView, offset: number) => String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+async function readHeader(blob: Blob) {
+  const view = new DataView(await blob.arrayBuffer());
+  const fmtLength = view.getUint32(16, true);
+  const dataAt = 20 + fmtLength;
+  return {
+    view,
+    riff: tag(view, 0),
+    riffLength: view.getUint32(4, true),
+    fmtLength,
+    formatTag: view.getUint16(20, true),
+    channels: view.getUint16(22, true),
+    sampleRate: view.getUint32(24, true),
+    blockAlign: view.getUint16(32, true),
+    bitDepth: view.getUint16(34, true),
+    dataTag: tag(view, dataAt),
+    dataLength: view.getUint32(dataAt + 4, true),
+    dataAt: dataAt + 8,
+  };
+}
+
+describe('audioBufferToWav', () => {
+  it('writes a plain PCM header for stereo', async () => {
+    const header = await readHeader(audioBufferToWav(fakeBuffer(2, 100), 16));
+    expect(header.fmtLength).toBe(16);
+    expect(header.formatTag).toBe(1);
+    expect(header.dataLength).toBe(100 * 2 * 2);
+  });
+
+  it.each([16, 24, 32])('round-trips a 6-channel WAVE_FORMAT_EXTENSIBLE header at %i bits', async bitDepth => {
+    const mask = WAVE_SPEAKER.FRONT_LEFT | WAVE_SPEAKER.FRONT_RIGHT | WAVE_SPEAKER.FRONT_CENTER |
+      WAVE_SPEAKER.LOW_FREQUENCY | WAVE_SPEAKER.SIDE_LEFT | WAVE_SPEAKER.SIDE_RIGHT;
+    const blob = audioBufferToWav(fakeBuffer(6, 1000), bitDepth, mask);
+    const header = await readHeader(blob);
+    const { view } = header;
+
+    expect(header.riff).toBe('RIFF');
+    expect(header.riffLength).toBe(blob.size - 8);
+    expect(header.fmtLength).toBe(40);
+    expect(header.formatTag).toBe(0xfffe);
+    expect(header.channels).toBe(6);
+    expect(header.sampleRate).toBe(48000);
+    expect(header.blockAlign).toBe(6 * bitDepth / 8);
+    expect(header.bitDepth).toBe(bitDepth);
+    expect(view.getUint16(36, true)).toBe(22); // cbSize
+    expect(view.getUint16(38, true)).toBe(bitDepth);
+    expect(view.getUint32(40, true)).toBe(mask);
+
+    // KSDATAFORMAT_SUBTYPE_PCM / _IEEE_FLOAT: 0000000X-0000-0010-8000-00AA00389B71
+    const guid = Array.from(new Uint8Array(view.buffer, 44, 16));
+    expect(guid).toEqual([bitDepth === 32 ? 3 : 1, 0, 0, 0, 0, 0, 0x10, 0, 0x80, 0, 0, 0xaa, 0, 0x38, 0x9b, 0x71]);
+
+    expect(header.dataTag).toBe('data');
+    expect(header.dataLength).toBe(1000 * 6 * bitDepth / 8);
+    expect(header.dataAt + header.dataLength).toBe(blob.size);
+  });
+
+  it('writes AmbiX-style extensible files without a channel mask', async () => {
+    const header = await readHeader(audioBufferToWav(fakeBuffer(16, 50), 24));
+    expect(header.formatTag).toBe(0xfffe);
+    expect(header.channels).toBe(16);
+    expect(header.view.getUint32(40, true)).toBe(0);
+    expect(header.dataAt + header.dataLength).toBe(header.view.byteLength);
+  });
+});
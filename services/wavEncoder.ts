@@ -0,0 +1,175 @@
+import { SpeakerPosition } from '../types';
+
+// dwChannelMask bits from the WAVE_FORMAT_EXTENSIBLE spec (ksmedia.h). The bit
+// order is also the order channels must be interleaved in the file.
+export const WAVE_SPEAKER = {
+  FRONT_LEFT: 0x1,
+  FRONT_RIGHT: 0x2,
+  FRONT_CENTER: 0x4,
+  LOW_FREQUENCY: 0x8,
+  BACK_LEFT: 0x10,
+  BACK_RIGHT: 0x20,
+  FRONT_LEFT_OF_CENTER: 0x40,
+  FRONT_RIGHT_OF_CENTER: 0x80,
+  BACK_CENTER: 0x100,
+  SIDE_LEFT: 0x200,
+  SIDE_RIGHT: 0x400,
+  TOP_CENTER: 0x800,
+  TOP_FRONT_LEFT: 0x1000,
+  TOP_FRONT_CENTER: 0x2000,
+  TOP_FRONT_RIGHT: 0x4000,
+  TOP_BACK_LEFT: 0x8000,
+  TOP_BACK_CENTER: 0x10000,
+  TOP_BACK_RIGHT: 0x20000,
+} as const;
+
+// Speaker ids used across SPEAKER_LAYOUTS mapped to their WAVE position
+const SPEAKER_ID_TO_WAVE: Record<string, number> = {
+  'FL': WAVE_SPEAKER.FRONT_LEFT,
+  'L': WAVE_SPEAKER.FRONT_LEFT,
+  'FR': WAVE_SPEAKER.FRONT_RIGHT,
+  'R': WAVE_SPEAKER.FRONT_RIGHT,
+  'FC': WAVE_SPEAKER.FRONT_CENTER,
+  'C': WAVE_SPEAKER.FRONT_CENTER,
+  'LFE': WAVE_SPEAKER.LOW_FREQUENCY,
+  'LFE1': WAVE_SPEAKER.LOW_FREQUENCY,
+  'RL': WAVE_SPEAKER.BACK_LEFT,
+  'RR': WAVE_SPEAKER.BACK_RIGHT,
+  'SL': WAVE_SPEAKER.SIDE_LEFT,
+  'LS': WAVE_SPEAKER.SIDE_LEFT,
+  'SR': WAVE_SPEAKER.SIDE_RIGHT,
+  'RS': WAVE_SPEAKER.SIDE_RIGHT,
+  'TFL': WAVE_SPEAKER.TOP_FRONT_LEFT,
+  'H-L': WAVE_SPEAKER.TOP_FRONT_LEFT,
+  'H-C': WAVE_SPEAKER.TOP_FRONT_CENTER,
+  'TFR': WAVE_SPEAKER.TOP_FRONT_RIGHT,
+  'H-R': WAVE_SPEAKER.TOP_FRONT_RIGHT,
+  'TRL': WAVE_SPEAKER.TOP_BACK_LEFT,
+  'TRR': WAVE_SPEAKER.TOP_BACK_RIGHT,
+};
+
+export interface ChannelLayout {
+  speakers: SpeakerPosition[];
+  channelMask: number;
+}
+
+// Orders the active speakers the way a WAVE file expects them: every speaker with
+// a known position in ascending mask-bit order, followed by anything that has no
+// WAVE equivalent (e.g. the second sub in IMAX 12.0), which players treat as
+// unassigned channels.
+export function resolveChannelLayout(speakers: SpeakerPosition[]): ChannelLayout {
+  const mapped: { speaker: SpeakerPosition; bit: number }[] = [];
+  const unmapped: SpeakerPosition[] = [];
+  let channelMask = 0;
+
+  speakers.filter(s => s.isActive).forEach(s => {
+    const bit = SPEAKER_ID_TO_WAVE[s.id];
+    if (bit && !(channelMask & bit)) {
+      channelMask |= bit;
+      mapped.push({ speaker: s, bit });
+    } else {
+      unmapped.push(s);
+    }
+  });
+
+  mapped.sort((a, b) => a.bit - b.bit);
+  return { speakers: [...mapped.map(m => m.speaker), ...unmapped], channelMask };
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// KSDATAFORMAT_SUBTYPE_* GUIDs share everything after the leading format tag
+// (Data1, written as two 16-bit words)
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71];
+
+// Interleaves `buffer` into a WAV file. Plain PCM/float headers are kept for
+// mono and stereo without a channel mask; anything else is written as
+// WAVE_FORMAT_EXTENSIBLE so the channel assignment survives import.
+export function audioBufferToWav(buffer: AudioBuffer, bitDepth: number, channelMask?: number): Blob {
+  const numOfChan = buffer.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const formatTag = bitDepth === 32 ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  const extensible = channelMask !== undefined || numOfChan > 2;
+  const fmtLength = extensible ? 40 : 16;
+  const headerLength = 12 + 8 + fmtLength + 8;
+  const length = buffer.length * numOfChan * bytesPerSample;
+  const bufferLength = headerLength + length;
+  const arrayBuffer = new ArrayBuffer(bufferLength);
+  const view = new DataView(arrayBuffer);
+  const channels: Float32Array[] = [];
+  let sample = 0;
+  let offset = 0;
+  let pos = 0;
+
+  // write WAVE header
+  setUint32(0x46464952); // "RIFF"
+  setUint32(bufferLength - 8); // file length - 8
+  setUint32(0x45564157); // "WAVE"
+
+  setUint32(0x20746d66); // "fmt " chunk
+  setUint32(fmtLength);
+  setUint16(extensible ? WAVE_FORMAT_EXTENSIBLE : formatTag);
+  setUint16(numOfChan);
+  setUint32(buffer.sampleRate);
+  setUint32(buffer.sampleRate * numOfChan * bytesPerSample); // avg. bytes/sec
+  setUint16(numOfChan * bytesPerSample); // block-align
+  setUint16(bitDepth);
+
+  if (extensible) {
+    setUint16(22); // cbSize
+    setUint16(bitDepth); // valid bits per sample
+    setUint32(channelMask ?? 0);
+    setUint16(formatTag); // SubFormat GUID
+    setUint16(0x0000);
+    SUBFORMAT_GUID_TAIL.forEach(byte => view.setUint8(pos++, byte));
+  }
+
+  // The sample loop below fills exactly `length` bytes from here
+  if (pos !== headerLength - 8) throw new Error(`WAV header is ${pos + 8} bytes, expected ${headerLength}`);
+
+  setUint32(0x61746164); // "data" - chunk
+  setUint32(length); // chunk length
+
+  // write interleaved data
+  for (let i = 0; i < numOfChan; i++)
+    channels.push(buffer.getChannelData(i));
+
+  // Helper
+  function setUint16(data: number) {
+    view.setUint16(pos, data, true);
+    pos += 2;
+  }
+  function setUint32(data: number) {
+    view.setUint32(pos, data, true);
+    pos += 4;
+  }
+
+  while (pos < bufferLength) {
+    for (let i = 0; i < numOfChan; i++) {
+      sample = Math.max(-1, Math.min(1, channels[i][offset])); // clamp
+
+      if (bitDepth === 16) {
+        sample = (sample < 0 ? sample * 0x8000 : sample * 0x7FFF) | 0;
+        view.setInt16(pos, sample, true);
+        pos += 2;
+      } else if (bitDepth === 32) {
+        view.setFloat32(pos, sample, true);
+        pos += 4;
+      } else {
+        // 24-bit
+        sample = (sample < 0 ? sample * 0x800000 : sample * 0x7FFFFF) | 0;
+        view.setUint8(pos, (sample) & 0xFF);
+        pos += 1;
+        view.setUint8(pos, (sample >> 8) & 0xFF);
+        pos += 1;
+        view.setUint8(pos, (sample >> 16) & 0xFF);
+        pos += 1;
+      }
+    }
+    offset++;
+  }
+
+  return new Blob([arrayBuffer], { type: 'audio/wav' });
+}
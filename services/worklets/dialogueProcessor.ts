@@ -0,0 +1,34 @@
+import { DialogueEnhancer } from '../dsp/dialogue';
+
+// Speech activity is posted to the main thread every this many seconds
+const REPORT_INTERVAL = 0.1;
+
+// Stereo in, stereo out. `amount` (0-1, k-rate) sets how hard dialogue is
+// lifted and the ambience around it ducked; 0 passes audio through unchanged
+// apart from the STFT latency.
+class DialogueProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors(): AudioParamDescriptor[] {
+    return [{ name: 'amount', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' }];
+  }
+
+  private enhancer = new DialogueEnhancer(sampleRate);
+  private sinceReport = 0;
+  private reportFrames = Math.round(sampleRate * REPORT_INTERVAL);
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const frames = output[0].length;
+    this.enhancer.setAmount(parameters.amount[0]);
+    this.enhancer.process(input[0], input[1], output[0], output[1] ?? output[0], frames);
+
+    this.sinceReport += frames;
+    if (this.sinceReport >= this.reportFrames) {
+      this.sinceReport = 0;
+      this.port.postMessage(this.enhancer.speechProbability);
+    }
+    return true;
+  }
+}
+
+registerProcessor('stagepov-dialogue', DialogueProcessor);
@@ -0,0 +1,36 @@
+import upmixProcessorUrl from './upmixProcessor.ts?worker&url';
+import loudnessMeterProcessorUrl from './loudnessMeterProcessor.ts?worker&url';
+import limiterProcessorUrl from './limiterProcessor.ts?worker&url';
+import dialogueProcessorUrl from './dialogueProcessor.ts?worker&url';
+import recorderProcessorUrl from './recorderProcessor.ts?worker&url';
+import matrixProcessorUrl from './matrixProcessor.ts?worker&url';
+
+const PROCESSOR_MODULES = [
+  upmixProcessorUrl,
+  loudnessMeterProcessorUrl,
+  limiterProcessorUrl,
+  dialogueProcessorUrl,
+  recorderProcessorUrl,
+  matrixProcessorUrl,
+];
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<boolean>>();
+
+// Registers every StagePOV AudioWorklet processor on `ctx`, once per context.
+// Resolves to false when the browser can't load worklets (e.g. insecure
+// origins), in which case callers fall back to native-node processing.
+export function loadWorklets(ctx: BaseAudioContext): Promise<boolean> {
+  let pending = loadedContexts.get(ctx);
+  if (!pending) {
+    pending = ctx.audioWorklet
+      ? Promise.all(PROCESSOR_MODULES.map(url => ctx.audioWorklet.addModule(url)))
+          .then(() => true)
+          .catch(err => {
+            console.warn("AudioWorklet processors unavailable:", err);
+            return false;
+          })
+      : Promise.resolve(false);
+    loadedContexts.set(ctx, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,48 @@
+import { MAX_LOOKAHEAD_MS, TruePeakLimiter } from '../dsp/limiter';
+
+// Gain reduction is posted to the main thread every this many seconds
+const REPORT_INTERVAL = 0.05;
+
+// Output safety stage. Channel count is fixed at construction through
+// processorOptions.channels; ceiling (dBTP), release (ms) and look-ahead (ms)
+// are k-rate parameters. Posts the deepest gain reduction of each interval
+// in dB.
+class LimiterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors(): AudioParamDescriptor[] {
+    return [
+      { name: 'ceiling', defaultValue: -1, minValue: -12, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 100, minValue: 1, maxValue: 1000, automationRate: 'k-rate' },
+      { name: 'lookahead', defaultValue: 5, minValue: 0, maxValue: MAX_LOOKAHEAD_MS, automationRate: 'k-rate' },
+    ];
+  }
+
+  private limiter: TruePeakLimiter;
+  private sinceReport = 0;
+  private reportFrames = Math.round(sampleRate * REPORT_INTERVAL);
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const channels = options?.processorOptions?.channels ?? 2;
+    this.limiter = new TruePeakLimiter(sampleRate, channels, { ceiling: -1, release: 100, lookahead: 5 });
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+    const output = outputs[0];
+    const frames = output[0].length;
+    this.limiter.setParams({
+      ceiling: parameters.ceiling[0],
+      release: parameters.release[0],
+      lookahead: parameters.lookahead[0],
+    });
+    this.limiter.process(inputs[0] ?? [], output, frames);
+
+    this.sinceReport += frames;
+    if (this.sinceReport >= this.reportFrames) {
+      this.sinceReport = 0;
+      this.port.postMessage(this.limiter.takeGainReduction());
+    }
+    return true;
+  }
+}
+
+registerProcessor('stagepov-limiter', LimiterProcessor);
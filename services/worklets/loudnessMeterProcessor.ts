@@ -0,0 +1,41 @@
+import { LoudnessMeter } from '../dsp/loudness';
+
+// Readings are posted to the main thread every this many seconds
+const REPORT_INTERVAL = 0.1;
+
+// Realtime BS.1770 meter. Has no outputs; it only listens to the programme
+// and posts LoudnessReading objects. Send { type: 'reset' } to restart the
+// integrated measurement (e.g. on a track change).
+class LoudnessMeterProcessor extends AudioWorkletProcessor {
+  private meter: LoudnessMeter | null = null;
+  private channels = 0;
+  private sinceReport = 0;
+  private reportFrames = Math.round(sampleRate * REPORT_INTERVAL);
+
+  constructor() {
+    super();
+    this.port.onmessage = event => {
+      if (event.data?.type === 'reset') this.meter?.reset();
+    };
+  }
+
+  process(inputs: Float32Array[][]) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    if (!this.meter || input.length !== this.channels) {
+      this.channels = input.length;
+      this.meter = new LoudnessMeter(sampleRate, new Array(this.channels).fill(1));
+    }
+    this.meter.process(input);
+
+    this.sinceReport += input[0].length;
+    if (this.sinceReport >= this.reportFrames) {
+      this.sinceReport = 0;
+      this.port.postMessage(this.meter.reading());
+    }
+    return true;
+  }
+}
+
+registerProcessor('stagepov-loudness-meter', LoudnessMeterProcessor);
@@ -0,0 +1,26 @@
+import { MatrixMixer } from '../dsp/matrixMixer';
+
+// Gain matrix between processorOptions.inputs and processorOptions.outputs
+// channels. Post a row-major Float32Array (outputs x inputs) to change it;
+// the Ambisonic bus uses this for rotation and decoding in one step.
+class MatrixProcessor extends AudioWorkletProcessor {
+  private mixer: MatrixMixer;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const inputs = options?.processorOptions?.inputs ?? 1;
+    const outputs = options?.processorOptions?.outputs ?? 1;
+    this.mixer = new MatrixMixer(inputs, outputs);
+    this.port.onmessage = event => {
+      if (event.data instanceof Float32Array) this.mixer.setMatrix(event.data);
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const output = outputs[0];
+    this.mixer.process(inputs[0] ?? [], output, output[0].length);
+    return true;
+  }
+}
+
+registerProcessor('stagepov-matrix', MatrixProcessor);
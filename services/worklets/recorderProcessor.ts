@@ -0,0 +1,25 @@
+// Captures the first channel of its input as raw PCM for measurements. Send
+// { type: 'start' } and { type: 'stop' }; while recording, every render
+// quantum is posted to the main thread as a Float32Array.
+class RecorderProcessor extends AudioWorkletProcessor {
+  private recording = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = event => {
+      if (event.data?.type === 'start') this.recording = true;
+      if (event.data?.type === 'stop') {
+        this.recording = false;
+        this.port.postMessage({ type: 'stopped' });
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (this.recording && channel) this.port.postMessage(channel.slice());
+    return true;
+  }
+}
+
+registerProcessor('stagepov-recorder', RecorderProcessor);
@@ -0,0 +1,153 @@
+import { FFT, sqrtHannWindow } from '../dsp/fft';
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = FRAME_SIZE / 2;
+const BINS = FRAME_SIZE / 2 + 1;
+// Time constant for the per-bin cross-spectra, in seconds
+const SMOOTHING_TIME = 0.05;
+
+// Output channel order shared with Upmixer: direct L/R with the center removed,
+// extracted center, then the left/right ambience residual.
+const OUTPUTS = 5;
+const OUT_L = 0, OUT_R = 1, OUT_C = 2, OUT_AL = 3, OUT_AR = 4;
+
+// Frequency-domain primary/ambient decomposition. Each STFT bin's 2x2 L/R
+// covariance is tracked over time; the principal eigenvector gives the
+// direction of the correlated (primary) component and everything orthogonal
+// to it is treated as ambience. The primary is then split into center and
+// L/R according to how centrally it is panned.
+class UpmixProcessor extends AudioWorkletProcessor {
+  private fft = new FFT(FRAME_SIZE);
+  private window = sqrtHannWindow(FRAME_SIZE);
+  private alpha = Math.exp(-HOP_SIZE / (SMOOTHING_TIME * sampleRate));
+
+  private inL = new Float32Array(FRAME_SIZE);
+  private inR = new Float32Array(FRAME_SIZE);
+  private outAcc = Array.from({ length: OUTPUTS }, () => new Float32Array(FRAME_SIZE));
+  private outFifo = Array.from({ length: OUTPUTS }, () => new Float32Array(HOP_SIZE));
+  private fifoPos = 0;
+
+  private pLL = new Float64Array(BINS);
+  private pRR = new Float64Array(BINS);
+  private pLRre = new Float64Array(BINS);
+  private pLRim = new Float64Array(BINS);
+
+  private reL = new Float64Array(FRAME_SIZE);
+  private imL = new Float64Array(FRAME_SIZE);
+  private reR = new Float64Array(FRAME_SIZE);
+  private imR = new Float64Array(FRAME_SIZE);
+  private outRe = Array.from({ length: OUTPUTS }, () => new Float64Array(FRAME_SIZE));
+  private outIm = Array.from({ length: OUTPUTS }, () => new Float64Array(FRAME_SIZE));
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const left = input[0];
+    const right = input[1] ?? input[0];
+    const frames = output[0].length;
+
+    for (let i = 0; i < frames; i++) {
+      this.inL[HOP_SIZE + this.fifoPos] = left ? left[i] : 0;
+      this.inR[HOP_SIZE + this.fifoPos] = right ? right[i] : 0;
+      for (let c = 0; c < OUTPUTS; c++) {
+        if (output[c]) output[c][i] = this.outFifo[c][this.fifoPos];
+      }
+
+      this.fifoPos++;
+      if (this.fifoPos === HOP_SIZE) {
+        this.fifoPos = 0;
+        this.processFrame();
+        this.inL.copyWithin(0, HOP_SIZE);
+        this.inR.copyWithin(0, HOP_SIZE);
+      }
+    }
+    return true;
+  }
+
+  private processFrame() {
+    const { reL, imL, reR, imR, window } = this;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      reL[i] = this.inL[i] * window[i];
+      reR[i] = this.inR[i] * window[i];
+      imL[i] = 0;
+      imR[i] = 0;
+    }
+    this.fft.forward(reL, imL);
+    this.fft.forward(reR, imR);
+
+    const a = this.alpha;
+    for (let k = 0; k < BINS; k++) {
+      const lr = reL[k], li = imL[k], rr = reR[k], ri = imR[k];
+      this.pLL[k] = a * this.pLL[k] + (1 - a) * (lr * lr + li * li);
+      this.pRR[k] = a * this.pRR[k] + (1 - a) * (rr * rr + ri * ri);
+      // L * conj(R)
+      this.pLRre[k] = a * this.pLRre[k] + (1 - a) * (lr * rr + li * ri);
+      this.pLRim[k] = a * this.pLRim[k] + (1 - a) * (li * rr - lr * ri);
+
+      // Principal eigenvector of [[pLL, pLR], [conj(pLR), pRR]]
+      const pLL = this.pLL[k], pRR = this.pRR[k];
+      const bRe = this.pLRre[k], bIm = this.pLRim[k];
+      const bMag2 = bRe * bRe + bIm * bIm;
+      const halfDiff = (pLL - pRR) / 2;
+      const lambda = (pLL + pRR) / 2 + Math.sqrt(halfDiff * halfDiff + bMag2);
+
+      // v = (pLR, lambda - pLL), falling back to the dominant axis when uncorrelated
+      let vLre: number, vLim: number, vRre: number, vRim: number;
+      if (bMag2 > 1e-20) {
+        vLre = bRe; vLim = bIm; vRre = lambda - pLL; vRim = 0;
+      } else if (pLL >= pRR) {
+        vLre = 1; vLim = 0; vRre = 0; vRim = 0;
+      } else {
+        vLre = 0; vLim = 0; vRre = 1; vRim = 0;
+      }
+      const norm = Math.sqrt(vLre * vLre + vLim * vLim + vRre * vRre + vRim * vRim) || 1;
+      vLre /= norm; vLim /= norm; vRre /= norm; vRim /= norm;
+
+      // Projection coefficient v^H X
+      const pRe = vLre * lr + vLim * li + vRre * rr + vRim * ri;
+      const pIm = vLre * li - vLim * lr + vRre * ri - vRim * rr;
+
+      const primLre = vLre * pRe - vLim * pIm;
+      const primLim = vLre * pIm + vLim * pRe;
+      const primRre = vRre * pRe - vRim * pIm;
+      const primRim = vRre * pIm + vRim * pRe;
+
+      // 1 for a centrally panned primary, 0 when hard-panned
+      const vLmag = Math.sqrt(vLre * vLre + vLim * vLim);
+      const vRmag = Math.sqrt(vRre * vRre + vRim * vRim);
+      const centerness = 2 * vLmag * vRmag;
+
+      const cRe = centerness * 0.5 * (primLre + primRre);
+      const cIm = centerness * 0.5 * (primLim + primRim);
+
+      this.setBin(OUT_L, k, primLre - cRe, primLim - cIm);
+      this.setBin(OUT_R, k, primRre - cRe, primRim - cIm);
+      this.setBin(OUT_C, k, cRe, cIm);
+      this.setBin(OUT_AL, k, lr - primLre, li - primLim);
+      this.setBin(OUT_AR, k, rr - primRre, ri - primRim);
+    }
+
+    for (let c = 0; c < OUTPUTS; c++) {
+      const re = this.outRe[c];
+      const im = this.outIm[c];
+      this.fft.inverse(re, im);
+      const acc = this.outAcc[c];
+      for (let i = 0; i < FRAME_SIZE; i++) acc[i] += re[i] * window[i];
+      this.outFifo[c].set(acc.subarray(0, HOP_SIZE));
+      acc.copyWithin(0, HOP_SIZE);
+      acc.fill(0, FRAME_SIZE - HOP_SIZE);
+    }
+  }
+
+  // Writes bin k and its conjugate mirror so the inverse transform is real
+  private setBin(channel: number, k: number, re: number, im: number) {
+    this.outRe[channel][k] = re;
+    this.outIm[channel][k] = im;
+    if (k > 0 && k < FRAME_SIZE / 2) {
+      this.outRe[channel][FRAME_SIZE - k] = re;
+      this.outIm[channel][FRAME_SIZE - k] = -im;
+    }
+  }
+}
+
+registerProcessor('stagepov-upmix', UpmixProcessor);
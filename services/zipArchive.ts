@@ -0,0 +1,240 @@
+// Minimal ZIP support for Vault backups. Entries are stored uncompressed
+// (audio is already compressed, and a stored entry can be assembled from the
+// source Blob without copying it into memory); reading also accepts deflated
+// entries from archives repacked by other tools. ZIP64 records are written
+// and read when an archive outgrows the 4 GB limits of the classic format.
+
+export interface ZipSource {
+  name: string;
+  data: Blob;
+}
+
+export interface ZipEntry {
+  name: string;
+  size: number; // uncompressed, in bytes
+  read(): Promise<Blob>; // verified against the stored CRC
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA = 0x0001;
+const UTF8_NAMES = 0x0800;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const MAX_COMMENT = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+async function crc32(blob: Blob): Promise<number> {
+  const reader = blob.stream().getReader();
+  let crc = MAX_32;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ MAX_32) >>> 0;
+}
+
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setUint32(offset, value % 2 ** 32, true);
+  view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+};
+const getUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export async function createZip(files: ZipSource[], onProgress?: (done: number, total: number) => void): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    const { name, data } = files[i];
+    const nameBytes = encoder.encode(name);
+    const crc = await crc32(data);
+    const size = data.size;
+    const zip64 = size >= MAX_32 || offset >= MAX_32;
+    const version = zip64 ? 45 : 20;
+
+    // Local header; a ZIP64 entry keeps both sizes in the extra field
+    const local = new DataView(new ArrayBuffer(30 + nameBytes.length + (zip64 ? 20 : 0)));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, version, true);
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, zip64 ? MAX_32 : size, true);
+    local.setUint32(22, zip64 ? MAX_32 : size, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, zip64 ? 20 : 0, true);
+    new Uint8Array(local.buffer).set(nameBytes, 30);
+    if (zip64) {
+      local.setUint16(30 + nameBytes.length, ZIP64_EXTRA, true);
+      local.setUint16(32 + nameBytes.length, 16, true);
+      setUint64(local, 34 + nameBytes.length, size);
+      setUint64(local, 42 + nameBytes.length, size);
+    }
+
+    const header = new DataView(new ArrayBuffer(46 + nameBytes.length + (zip64 ? 28 : 0)));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, version, true);
+    header.setUint16(6, version, true);
+    header.setUint16(8, UTF8_NAMES, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, stamp.time, true);
+    header.setUint16(14, stamp.date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, zip64 ? MAX_32 : size, true);
+    header.setUint32(24, zip64 ? MAX_32 : size, true);
+    header.setUint16(28, nameBytes.length, true);
+    header.setUint16(30, zip64 ? 28 : 0, true);
+    header.setUint32(42, zip64 ? MAX_32 : offset, true);
+    new Uint8Array(header.buffer).set(nameBytes, 46);
+    if (zip64) {
+      header.setUint16(46 + nameBytes.length, ZIP64_EXTRA, true);
+      header.setUint16(48 + nameBytes.length, 24, true);
+      setUint64(header, 50 + nameBytes.length, size);
+      setUint64(header, 58 + nameBytes.length, size);
+      setUint64(header, 66 + nameBytes.length, offset);
+    }
+
+    parts.push(local.buffer, data);
+    central.push(header.buffer);
+    offset += local.byteLength + size;
+    onProgress?.(i + 1, files.length);
+  }
+
+  const directoryOffset = offset;
+  const directorySize = central.reduce((sum, h) => sum + h.byteLength, 0);
+  parts.push(...central);
+
+  const zip64 = files.length >= MAX_16 || directoryOffset >= MAX_32 || directorySize >= MAX_32;
+  if (zip64) {
+    const record = new DataView(new ArrayBuffer(56 + 20));
+    record.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY, true);
+    setUint64(record, 4, 44);
+    record.setUint16(12, 45, true);
+    record.setUint16(14, 45, true);
+    setUint64(record, 24, files.length);
+    setUint64(record, 32, files.length);
+    setUint64(record, 40, directorySize);
+    setUint64(record, 48, directoryOffset);
+    record.setUint32(56, ZIP64_LOCATOR, true);
+    setUint64(record, 64, directoryOffset + directorySize);
+    record.setUint32(72, 1, true);
+    parts.push(record.buffer);
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, zip64 ? MAX_16 : files.length, true);
+  end.setUint16(10, zip64 ? MAX_16 : files.length, true);
+  end.setUint32(12, zip64 ? MAX_32 : directorySize, true);
+  end.setUint32(16, zip64 ? MAX_32 : directoryOffset, true);
+  parts.push(end.buffer);
+
+  return new Blob(parts, { type: 'application/zip' });
+}
+
+const readView = async (file: Blob, start: number, end: number) =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+// Reads the central directory only; entry data stays in the file until read
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, file.size - 22 - MAX_COMMENT);
+  const tail = await readView(file, tailStart, file.size);
+  let endAt = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endAt = i;
+      break;
+    }
+  }
+  if (endAt < 0) throw new Error('Not a ZIP archive');
+
+  let count = tail.getUint16(endAt + 10, true);
+  let directorySize = tail.getUint32(endAt + 12, true);
+  let directoryOffset = tail.getUint32(endAt + 16, true);
+  if (count === MAX_16 || directorySize === MAX_32 || directoryOffset === MAX_32) {
+    const locatorAt = tailStart + endAt - 20;
+    const locator = await readView(file, locatorAt, locatorAt + 20);
+    if (locator.getUint32(0, true) !== ZIP64_LOCATOR) throw new Error('ZIP64 locator missing');
+    const recordAt = getUint64(locator, 8);
+    const record = await readView(file, recordAt, recordAt + 56);
+    if (record.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) throw new Error('ZIP64 directory record missing');
+    count = getUint64(record, 32);
+    directorySize = getUint64(record, 40);
+    directoryOffset = getUint64(record, 48);
+  }
+
+  const directory = await readView(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let at = 0;
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(at, true) !== CENTRAL_HEADER) throw new Error('Corrupt ZIP directory');
+    const method = directory.getUint16(at + 10, true);
+    const crc = directory.getUint32(at + 16, true);
+    let compressedSize = directory.getUint32(at + 20, true);
+    let size = directory.getUint32(at + 24, true);
+    const nameLength = directory.getUint16(at + 28, true);
+    const extraLength = directory.getUint16(at + 30, true);
+    const commentLength = directory.getUint16(at + 32, true);
+    let localOffset = directory.getUint32(at + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + at + 46, nameLength));
+
+    // ZIP64 extra fields hold only the values saturated in the header, in order
+    for (let e = at + 46 + nameLength; e < at + 46 + nameLength + extraLength; ) {
+      const id = directory.getUint16(e, true);
+      const length = directory.getUint16(e + 2, true);
+      if (id === ZIP64_EXTRA) {
+        let field = e + 4;
+        if (size === MAX_32) { size = getUint64(directory, field); field += 8; }
+        if (compressedSize === MAX_32) { compressedSize = getUint64(directory, field); field += 8; }
+        if (localOffset === MAX_32) localOffset = getUint64(directory, field);
+      }
+      e += 4 + length;
+    }
+    at += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        const local = await readView(file, localOffset, localOffset + 30);
+        if (local.getUint32(0, true) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP entry ${name}`);
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const raw = file.slice(dataStart, dataStart + compressedSize);
+        let data: Blob;
+        if (method === 0) data = raw;
+        else if (method === 8) data = await new Response(raw.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+        else throw new Error(`Unsupported compression in ${name}`);
+        if (await crc32(data) !== crc) throw new Error(`Checksum mismatch in ${name}`);
+        return data;
+      },
+    });
+  }
+  return entries;
+}
@@ -6,24 +6,138 @@ export interface AudioSettings {
   vocalClarity: number;
   spatiality: number;
   reverbLevel: number; // New separate option for Reverb/Ambience
+  reverbRoom: ReverbRoom;
+  reverbEngine: ReverbEngine;
+  roomModel: RoomModel;
+  xCurve: number; // in dB, high-frequency roll-off on top of Theater Mode
   isAtmosEnabled: boolean;
   isHdAudioEnabled: boolean; // New HD Audio toggle
-  selectedPreset: string;
+  selectedPreset: string; // AudioPreset id
   isTheaterMode: boolean;
   isHeadTrackingEnabled: boolean;
   isDolbyVisionEnabled: boolean;
   // New Surround Settings
   surroundLevel: number;
   heightLevel: number;
-  drc: number; // Dynamic Range Compression
-  lfeCrossover: number;
+  drc: number; // Dynamic Range Compression amount, picks the multiband preset
+  dynamics: DynamicsSettings;
+  lfeCrossover: number; // in Hz, where bass management splits mains from the subwoofers
+  bassManagement: BassManagementSettings;
   centerSpread: number;
-  // Advanced Calibration
-  speakerDelay: number; // in milliseconds
-  phaseAlignment: number; // in milliseconds (sub-sample fine tuning)
+  upmixAlgorithm: UpmixAlgorithm;
+  ambisonicOrder: AmbisonicOrder;
+  hrtfId: string | null; // HRIR set for binaural rendering, null for the browser's built-in HRTF
+  eqBands: EQBand[];
+  loudnessNormalization: boolean; // match Vault songs to loudnessTarget
+  loudnessTarget: number; // in LUFS
+  crossfade: number; // in seconds between queued songs, 0 for gapless
+  limiter: LimiterSettings;
+  calibrationId: string | null; // CalibrationProfile applied to the output, null for none
   // Quality Settings
   bitDepth: 16 | 24 | 32;
   sampleRate: number;
+  exportMode: ExportMode;
+}
+
+// Result of a room measurement: per-output-channel alignment and a shared
+// correction EQ, applied in front of the output limiter
+export interface CalibrationChannel {
+  delay: number; // in ms
+  trim: number; // in dB
+}
+
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  dateCreated: number;
+  channels: CalibrationChannel[];
+  eqBands: EQBand[];
+}
+
+// Crossover slope between the mains and the subwoofers: 12 is a 2nd-order
+// Linkwitz-Riley, 24 a 4th-order one
+export type CrossoverSlope = 12 | 24;
+
+export interface BassManagementSettings {
+  slope: CrossoverSlope; // dB/octave
+  lfeGain: number; // in dB, level of the LFE stem in the subwoofer feed
+  lfePhase: number; // in degrees at the crossover, 0-180
+}
+
+// Output true-peak limiter
+export interface LimiterSettings {
+  ceiling: number; // dBTP
+  release: number; // ms
+  lookahead: number; // ms
+}
+
+// Convolution room: either an impulse response from the Vault room library or
+// a synthetic tail generated from a fixed seed, then shaped by the same
+// pre-delay, trim and filter controls.
+export interface ReverbRoom {
+  irId: string | null; // VaultRoom id, null for the synthetic room
+  duration: number; // synthetic tail length in seconds
+  decay: number; // synthetic envelope exponent
+  seed: number;
+  preDelay: number; // in milliseconds
+  trimStart: number; // in seconds, skipped from the head of the IR
+  trimLength: number; // in seconds, 0 keeps the whole tail
+  lowCut: number; // in Hz
+  highCut: number; // in Hz
+}
+
+// 'convolution' plays the ReverbRoom IR, 'algorithmic' simulates roomModel
+export type ReverbEngine = 'convolution' | 'algorithmic';
+
+// Shoebox room for the algorithmic reverb, in meters. The layout grid is
+// stretched over the floor, and the listener sits on that grid like
+// SpatialPreset.listenerPos (y is the front/back axis).
+export interface RoomModel {
+  width: number;
+  depth: number;
+  height: number;
+  absorption: number; // average wall absorption, 0..1
+  listenerPos: SpatialPreset['listenerPos'];
+}
+
+// Everything a preset recalls. `layout` is a SPEAKER_LAYOUTS key.
+export type PresetParams = Pick<AudioSettings,
+  'bass' | 'treble' | 'vocalClarity' | 'reverbLevel' | 'reverbRoom' | 'reverbEngine' | 'roomModel' | 'xCurve' |
+  'isTheaterMode' | 'isHdAudioEnabled' | 'drc' | 'dynamics' | 'surroundLevel' | 'heightLevel' |
+  'lfeCrossover' | 'centerSpread' | 'upmixAlgorithm' | 'eqBands'
+> & { layout: string };
+
+export interface AudioPreset {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  params: PresetParams;
+}
+
+// 'matrix' is a passive L/R sum-difference decode, 'spectral' an STFT primary/ambient decomposition
+export type UpmixAlgorithm = 'matrix' | 'spectral';
+
+// 'binaural' renders a headphone stereo master, 'multichannel' one channel per active speaker,
+// 'ambix' the Ambisonic bus itself
+export type ExportMode = 'binaural' | 'multichannel' | 'ambix';
+
+// Order of the internal Ambisonic bus (and of AmbiX exports)
+export type AmbisonicOrder = 1 | 2 | 3;
+
+// Head orientation in degrees, relative to facing the front speakers
+export interface ListenerOrientation {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+// Head-related impulse responses measured around a listener. Directions are
+// unit vectors with +x ahead, +y to the left and +z up, as in SOFA files.
+export interface HrirSet {
+  sampleRate: number;
+  directions: [number, number, number][];
+  left: Float32Array[];
+  right: Float32Array[];
 }
 
 export interface SpeakerPosition {
@@ -33,6 +147,9 @@ export interface SpeakerPosition {
   y: number;
   z: number;
   isActive: boolean;
+  delay?: number; // in ms, overrides the delay derived from the listener distance
+  trim?: number; // in dB
+  invertPolarity?: boolean;
 }
 
 export interface SpatialPreset {
@@ -42,14 +159,44 @@ export interface SpatialPreset {
   listenerPos: { x: number; y: number };
 }
 
+export type EQBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'highpass' | 'lowpass' | 'notch';
+
 export interface EQBand {
+  id: string;
+  type: EQBandType;
   frequency: number;
-  gain: number;
+  gain: number; // in dB, ignored by pass and notch filters
+  q: number;
+  enabled: boolean;
 }
 
+// One band of the multiband compressor
+export interface DynamicsBand {
+  threshold: number; // in dB
+  ratio: number;
+  attack: number; // in ms
+  release: number; // in ms
+  makeup: number; // in dB
+}
+
+// Four bands split at fixed Linkwitz-Riley crossovers; the third band is the 1-4 kHz dialogue band
+export interface DynamicsSettings {
+  dialoguePriority: boolean;
+  bands: DynamicsBand[];
+}
+
+// Condition every song in a smart playlist has to meet
+export type SmartRule =
+  | { kind: 'addedWithin'; days: number }
+  | { kind: 'format'; format: string } // a key of SMART_PLAYLIST_FORMATS
+  | { kind: 'longerThan'; minutes: number }
+  | { kind: 'hasProfile' };
+
 export interface VaultPlaylist {
   id: string;
   name: string;
-  songIds: string[];
+  songIds: string[]; // in play order; unused by smart playlists
   dateCreated: number;
+  crossfade?: number; // overrides AudioSettings.crossfade while playing this playlist
+  rules?: SmartRule[]; // makes this a smart playlist, filled from the Vault when read
 }